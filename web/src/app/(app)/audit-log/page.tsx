@@ -0,0 +1,277 @@
+import { formatInTimeZone } from "date-fns-tz";
+import { Card } from "@/components/ui/card";
+import { buttonVariants } from "@/components/ui/button";
+import { DEFAULT_TIMEZONE } from "@/config/constants";
+import { auth } from "@/server/auth";
+import { listAuditLog, type AuditLogFilters } from "@/server/audit-log";
+import type { AuditAction, AuditLogEntry } from "@/types";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type PageProps = {
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
+};
+
+const PAGE_LIMIT = 200;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  "task.create": "タスク作成",
+  "task.update": "タスク更新",
+  "task.recurrence_generate": "定期タスク生成",
+  "task_comment.create": "コメント投稿",
+  "task_comment.update": "コメント編集",
+  "task_comment.delete": "コメント削除",
+  "daily_report.create": "DR作成",
+  "daily_report.update": "DR更新",
+  "daily_report.slack_ingest": "DR取り込み（Slack）",
+  "daily_report.slack_delete": "DR削除（Slack）",
+};
+
+const FILTER_KEYS = [
+  "action",
+  "entityType",
+  "actor",
+  "entityId",
+  "from",
+  "to",
+] as const;
+
+const inputClassName =
+  "rounded-xl border border-[#ead8c4] bg-white px-3 py-2 text-[#3d3128] shadow-inner focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]";
+
+const formatTimestamp = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : formatInTimeZone(date, DEFAULT_TIMEZONE, "yyyy-MM-dd HH:mm:ss");
+};
+
+const DiffSummary = ({ diff }: { diff: AuditLogEntry["diff"] }) => {
+  const entries = Object.entries(diff);
+  if (entries.length === 0) {
+    return <span className="text-xs text-[#b59b85]">変更なし</span>;
+  }
+  return (
+    <details>
+      <summary className="cursor-pointer text-xs text-[#ad7a46]">
+        {entries.length}項目
+      </summary>
+      <dl className="mt-2 space-y-2 text-xs">
+        {entries.map(([key, change]) => (
+          <div key={key}>
+            <dt className="font-semibold text-[#7f6b5a]">{key}</dt>
+            <dd className="whitespace-pre-wrap text-[#c04747] line-through">
+              {change.before || "（空）"}
+            </dd>
+            <dd className="whitespace-pre-wrap text-[#1d9a57]">
+              {change.after || "（空）"}
+            </dd>
+          </div>
+        ))}
+      </dl>
+    </details>
+  );
+};
+
+export default async function AuditLogPage({ searchParams }: PageProps) {
+  const session = await auth();
+  if (session?.user?.role !== "admin") {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-semibold text-[#3d3128]">監査ログ</h1>
+        <p className="rounded-2xl border border-[#ead8c4] bg-[#fffaf5] px-4 py-3 text-sm text-[#7f6b5a]">
+          監査ログは管理者のみ閲覧できます。
+        </p>
+      </div>
+    );
+  }
+
+  const params = (await searchParams) ?? {};
+  const filters: AuditLogFilters = {};
+  const query = new URLSearchParams();
+  FILTER_KEYS.forEach((key) => {
+    const value = params[key];
+    if (typeof value === "string" && value.trim()) {
+      filters[key] = value.trim();
+      query.set(key, value.trim());
+    }
+  });
+
+  let entries: AuditLogEntry[] = [];
+  let loadError = false;
+  try {
+    entries = await listAuditLog(filters);
+  } catch (error) {
+    console.error("audit_log.page.error", error);
+    loadError = true;
+  }
+  const visibleEntries = entries.slice(0, PAGE_LIMIT);
+
+  const exportHref = (format: "csv" | "json") => {
+    const exportQuery = new URLSearchParams(query);
+    exportQuery.set("format", format);
+    return `/api/audit-log?${exportQuery.toString()}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold text-[#3d3128]">監査ログ</h1>
+          <p className="mt-1 text-sm text-[#7f6b5a]">
+            タスク・DRの更新を、誰が・いつ・何を変えたかで記録しています。
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <a href={exportHref("csv")} className={buttonVariants("secondary")}>
+            CSVエクスポート
+          </a>
+          <a href={exportHref("json")} className={buttonVariants("secondary")}>
+            JSONエクスポート
+          </a>
+        </div>
+      </div>
+
+      <Card title="絞り込み">
+        <form method="get" className="grid gap-3 md:grid-cols-3">
+          <label className="flex flex-col gap-1 text-xs font-medium text-[#ad7a46]">
+            操作
+            <select
+              name="action"
+              defaultValue={filters.action ?? ""}
+              className={inputClassName}
+            >
+              <option value="">すべて</option>
+              {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-[#ad7a46]">
+            対象
+            <select
+              name="entityType"
+              defaultValue={filters.entityType ?? ""}
+              className={inputClassName}
+            >
+              <option value="">すべて</option>
+              <option value="task">タスク</option>
+              <option value="task_comment">タスクコメント</option>
+              <option value="daily_report">デイリーレポート</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-[#ad7a46]">
+            操作者（名前 / ID）
+            <input
+              name="actor"
+              defaultValue={filters.actor ?? ""}
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-[#ad7a46]">
+            対象ID
+            <input
+              name="entityId"
+              defaultValue={filters.entityId ?? ""}
+              placeholder="tsk_... / dr_..."
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-[#ad7a46]">
+            開始日
+            <input
+              type="date"
+              name="from"
+              defaultValue={filters.from ?? ""}
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-[#ad7a46]">
+            終了日
+            <input
+              type="date"
+              name="to"
+              defaultValue={filters.to ?? ""}
+              className={inputClassName}
+            />
+          </label>
+          <div className="flex items-center gap-3 md:col-span-3">
+            <button type="submit" className={buttonVariants("primary")}>
+              絞り込む
+            </button>
+            <a href="/audit-log" className={buttonVariants("ghost")}>
+              クリア
+            </a>
+          </div>
+        </form>
+      </Card>
+
+      <Card
+        title="ログ"
+        footer={`該当 ${entries.length}件${
+          entries.length > PAGE_LIMIT ? `（新しい順に${PAGE_LIMIT}件を表示）` : ""
+        }`}
+      >
+        {loadError ? (
+          <div className="py-6 text-center text-sm text-[#c04747]">
+            監査ログを取得できませんでした。シートへのアクセス権を確認してください。
+          </div>
+        ) : visibleEntries.length === 0 ? (
+          <div className="py-6 text-center text-sm text-[#b59b85]">
+            条件に一致するログはありません。
+          </div>
+        ) : (
+          <div className="overflow-x-auto rounded-xl border border-dashed border-[#ead8c4] bg-[#fffaf5]">
+            <table className="min-w-full divide-y divide-[#ead8c4] text-sm">
+              <thead className="bg-[#f9efe3] text-left text-xs uppercase tracking-wide text-[#ad7a46]">
+                <tr>
+                  <th className="px-4 py-3 font-semibold">日時</th>
+                  <th className="px-4 py-3 font-semibold">操作者</th>
+                  <th className="px-4 py-3 font-semibold">操作</th>
+                  <th className="px-4 py-3 font-semibold">対象ID</th>
+                  <th className="px-4 py-3 font-semibold">差分</th>
+                  <th className="px-4 py-3 font-semibold">接続元</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[#f1e6d8] bg-[#fffdf9] align-top text-[#5b4c40]">
+                {visibleEntries.map((entry) => (
+                  <tr key={entry.id}>
+                    <td className="whitespace-nowrap px-4 py-3 text-xs">
+                      {formatTimestamp(entry.happenedAt)}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-[#3d3128]">
+                        {entry.actorName || "—"}
+                      </div>
+                      <div className="text-xs text-[#b59b85]">
+                        {entry.actorId}
+                        {entry.actorRole ? ` / ${entry.actorRole}` : ""}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-xs">
+                      {ACTION_LABELS[entry.action] ?? entry.action}
+                    </td>
+                    <td className="px-4 py-3 text-xs">{entry.entityId}</td>
+                    <td className="px-4 py-3">
+                      <DiffSummary diff={entry.diff} />
+                    </td>
+                    <td className="px-4 py-3 text-xs text-[#7f6b5a]">
+                      <div>{entry.source}</div>
+                      <div>{entry.ip || "—"}</div>
+                      <div className="max-w-[12rem] truncate" title={entry.userAgent}>
+                        {entry.userAgent || "—"}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -1,29 +1,23 @@
 import Link from "next/link";
 import { notFound } from "next/navigation";
-import { addDays, formatISO, parseISO } from "date-fns";
 import type { ReactNode } from "react";
 import { Card } from "@/components/ui/card";
 import { buttonVariants } from "@/components/ui/button";
-import { listDailyReports } from "@/server/repositories/daily-reports-repository";
-import { getWeekStart } from "@/lib/time";
+import { DailyReportEditClient } from "@/components/daily-reports/daily-report-edit-client";
+import { DailyReportTodoTasks } from "@/components/daily-reports/daily-report-todo-tasks";
+import { getDailyReportById } from "@/server/repositories/daily-reports-repository";
+import { listTasks } from "@/server/repositories/tasks-repository";
+import { auth } from "@/server/auth";
+import { hasRole } from "@/lib/roles";
+import { buildDailyReportTodoItems } from "@/lib/daily-report-todos";
+import { canEditDailyReport, resolveSessionUser } from "@/server/session-user";
 import type { DailyReport } from "@/types";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
 type DailyReportDetailPageProps = {
-  params: { reportId: string };
-};
-
-const parseReportId = (reportId: string) => {
-  const match = /^dr_(.+)_(\d{4}-\d{2}-\d{2})$/.exec(reportId);
-  if (!match) {
-    return null;
-  }
-  return {
-    userSlug: match[1],
-    date: match[2],
-  };
+  params: Promise<{ reportId: string }>;
 };
 
 const formatLabel = (label: string) => label;
@@ -107,25 +101,22 @@ const renderFieldValue = (
 export default async function DailyReportDetailPage({
   params,
 }: DailyReportDetailPageProps) {
-  const parsed = parseReportId(params.reportId);
-  if (!parsed) {
+  const { reportId } = await params;
+  const [report, session, tasks] = await Promise.all([
+    getDailyReportById(reportId),
+    auth(),
+    listTasks(),
+  ]);
+  if (!report) {
     notFound();
   }
 
-  const weekStart = getWeekStart(parsed.date);
-  const weekEnd = formatISO(addDays(parseISO(weekStart), 6), {
-    representation: "date",
-  });
+  const canEdit = session?.user
+    ? canEditDailyReport(resolveSessionUser(session.user), report)
+    : false;
 
-  const reports = await listDailyReports({
-    weekStart,
-    weekEnd,
-  });
-
-  const report = reports.find((item) => item.reportId === params.reportId);
-  if (!report) {
-    notFound();
-  }
+  const canCreateTask = hasRole(session?.user?.role, "member");
+  const todoItems = buildDailyReportTodoItems(report, tasks);
 
   const headerTitle = `${report.date} ${report.userName} のデイリーレポート`;
 
@@ -145,6 +136,12 @@ export default async function DailyReportDetailPage({
         </Link>
       </div>
 
+      {report.slackDeletedAt && (
+        <div className="rounded-2xl border border-[#f5b5a7] bg-[#fff3f0] px-4 py-3 text-sm text-[#c04747]">
+          Slack上の元投稿は {report.slackDeletedAt} に削除されています。シートのデータは保持されています。
+        </div>
+      )}
+
       <Card>
         <div className="space-y-6">
           <dl className="grid gap-4 md:grid-cols-2">
@@ -174,6 +171,20 @@ export default async function DailyReportDetailPage({
           </dl>
         </div>
       </Card>
+
+      <Card
+        title="明日やるべきことをタスクにする"
+        description="各行をタスクとして登録できます（担当は投稿者、期限は翌営業日が初期値）。登録済みの行には現在の状態が表示されます。"
+      >
+        <DailyReportTodoTasks
+          reportId={report.reportId}
+          assigneeName={report.userName}
+          initialItems={todoItems}
+          canCreate={canCreateTask}
+        />
+      </Card>
+
+      {canEdit && <DailyReportEditClient report={report} />}
     </div>
   );
 }
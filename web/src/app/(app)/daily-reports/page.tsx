@@ -1,36 +1,62 @@
 import Link from "next/link";
 import { unstable_noStore as noStore } from "next/cache";
+import { addDays, formatISO, parseISO } from "date-fns";
 import { Card } from "@/components/ui/card";
 import { buttonVariants } from "@/components/ui/button";
 import { listDailyReports } from "@/server/repositories/daily-reports-repository";
+import { auth } from "@/server/auth";
+import { hasRole } from "@/lib/roles";
+import {
+  getWeekDates,
+  getWeekStart,
+  reportDateBy29hRule,
+  shiftWeekStart,
+} from "@/lib/time";
 import { DailyReportsTable } from "@/components/daily-reports/daily-reports-table";
+import { DailyReportsWeekGrid } from "@/components/daily-reports/daily-reports-week-grid";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
 type PageProps = {
-  searchParams?: Record<string, string | string[] | undefined>;
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
 };
 
+const isValidDateParam = (value: unknown): value is string =>
+  typeof value === "string" &&
+  /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+  !Number.isNaN(parseISO(value).getTime());
+
+const weekHref = (weekStart: string) =>
+  `/daily-reports?weekStart=${weekStart}`;
+
 export default async function DailyReportsPage({ searchParams }: PageProps) {
   noStore();
 
-  const weekStart =
-    typeof searchParams?.weekStart === "string"
-      ? searchParams.weekStart
-      : undefined;
-  const weekEnd =
-    typeof searchParams?.weekEnd === "string"
-      ? searchParams.weekEnd
-      : undefined;
+  const params = (await searchParams) ?? {};
+  const today = reportDateBy29hRule().dateISO;
+  const currentWeekStart = getWeekStart(today);
+  // URL の weekStart を正とし、週の途中の日付が来ても月曜に寄せる
+  const weekStart = isValidDateParam(params.weekStart)
+    ? getWeekStart(params.weekStart)
+    : currentWeekStart;
+  const weekEnd = isValidDateParam(params.weekEnd)
+    ? params.weekEnd
+    : formatISO(addDays(parseISO(weekStart), 6), { representation: "date" });
+  const weekDates = getWeekDates(weekStart);
+  const isCurrentWeek = weekStart === currentWeekStart;
 
   const reports = await listDailyReports({
     weekStart,
     weekEnd,
   });
 
+  const session = await auth();
+  const canPost = hasRole(session?.user?.role, "member");
+
   const totalCount = reports.length;
   const footerText = `取得件数: ${totalCount}`;
+  const weekLabel = `${weekStart.replace(/-/g, "/")} 〜 ${weekDates[6].slice(5).replace("-", "/")}`;
 
   return (
     <div className="space-y-6">
@@ -43,16 +69,82 @@ export default async function DailyReportsPage({ searchParams }: PageProps) {
             今週のDRを既定表示し、週次ナビゲーションを提供します。
           </p>
         </div>
-        <Link
-          href="/daily-reports/new"
-          className={buttonVariants("primary")}
+        <div className="flex gap-2">
+          <Link
+            href="/daily-reports/search"
+            className={buttonVariants("secondary")}
+          >
+            全期間から検索
+          </Link>
+          {canPost && (
+            <Link
+              href="/daily-reports/new"
+              className={buttonVariants("primary")}
+            >
+              DRを投稿
+            </Link>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-[#ead8c4] bg-[#fffaf5] px-4 py-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Link
+            href={weekHref(shiftWeekStart(weekStart, -1))}
+            className={buttonVariants("ghost")}
+          >
+            ← 先週
+          </Link>
+          <Link
+            href={weekHref(currentWeekStart)}
+            aria-current={isCurrentWeek ? "page" : undefined}
+            className={buttonVariants(isCurrentWeek ? "primary" : "secondary")}
+          >
+            今週
+          </Link>
+          <Link
+            href={weekHref(shiftWeekStart(weekStart, 1))}
+            className={buttonVariants("ghost")}
+          >
+            翌週 →
+          </Link>
+          <span className="ml-2 text-sm font-semibold text-[#3d3128]">
+            {weekLabel}
+          </span>
+        </div>
+        <form
+          method="get"
+          action="/daily-reports"
+          className="flex items-center gap-2 text-xs text-[#ad7a46]"
         >
-          DRを投稿
-        </Link>
+          <label className="flex items-center gap-2">
+            週を選ぶ
+            <input
+              type="date"
+              name="weekStart"
+              defaultValue={weekStart}
+              className="rounded-full border border-[#ead8c4] bg-white px-3 py-1.5 text-sm text-[#3d3128] focus:border-[#ad7a46] focus:outline-none focus:ring-2 focus:ring-[#ead8c4]"
+            />
+          </label>
+          <button type="submit" className={buttonVariants("secondary")}>
+            移動
+          </button>
+        </form>
       </div>
 
       <Card
-        title="今週の一覧"
+        title="週次グリッド"
+        description="メンバー × 曜日で提出状況を表示します。赤い「未」は今日までの平日で未提出の日です。"
+      >
+        <DailyReportsWeekGrid
+          reports={reports}
+          weekDates={weekDates}
+          today={today}
+        />
+      </Card>
+
+      <Card
+        title={isCurrentWeek ? "今週の一覧" : "週の一覧"}
         description="Google Sheetsのデータをサーバサイドで取得し、週切替をサポートします。"
         footer={footerText}
       >
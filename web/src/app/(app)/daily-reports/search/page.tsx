@@ -0,0 +1,308 @@
+import Link from "next/link";
+import { Card } from "@/components/ui/card";
+import { buttonVariants } from "@/components/ui/button";
+import { DEPARTMENT_OF_USER } from "@/config/departments";
+import { searchDailyReports } from "@/server/daily-report-search";
+import type {
+  DailyReportSearchField,
+  DailyReportSearchResult,
+} from "@/types";
+import { dailyReportSearchQuerySchema } from "@/validation";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type PageProps = {
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
+};
+
+const FIELD_LABELS: Record<DailyReportSearchField, string> = {
+  doneToday: "Done",
+  goodMoreBackground: "Good / More + 背景",
+  moreNext: "More Next",
+  todoTomorrow: "明日タスク",
+  wishTomorrow: "明日やりたい",
+  personalNews: "個人ニュース",
+};
+
+const QUERY_KEYS = [
+  "q",
+  "user",
+  "department",
+  "tag",
+  "from",
+  "to",
+  "satisfactionMin",
+  "satisfactionMax",
+] as const;
+
+const inputClassName =
+  "rounded-xl border border-[#ead8c4] bg-white px-3 py-2 text-[#3d3128] shadow-inner focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]";
+
+export default async function DailyReportSearchPage({
+  searchParams,
+}: PageProps) {
+  const params = (await searchParams) ?? {};
+  const raw: Record<string, string> = {};
+  [...QUERY_KEYS, "page"].forEach((key) => {
+    const value = params[key];
+    if (typeof value === "string") {
+      raw[key] = value;
+    }
+  });
+  const hasQuery = QUERY_KEYS.some((key) => raw[key]?.trim());
+
+  const parsed = dailyReportSearchQuerySchema.safeParse(raw);
+  let result: DailyReportSearchResult | null = null;
+  let errorMessage: string | null = null;
+  if (!parsed.success) {
+    errorMessage = parsed.error.issues[0]?.message ?? "検索条件が不正です";
+  } else if (hasQuery) {
+    try {
+      result = await searchDailyReports(parsed.data);
+    } catch (error) {
+      console.error("dr.search.page.error", error);
+      errorMessage = "日報を検索できませんでした。時間をおいて再度お試しください。";
+    }
+  }
+
+  const pageHref = (page: number) => {
+    const query = new URLSearchParams();
+    QUERY_KEYS.forEach((key) => {
+      if (raw[key]?.trim()) {
+        query.set(key, raw[key].trim());
+      }
+    });
+    query.set("page", String(page));
+    return `/daily-reports/search?${query.toString()}`;
+  };
+
+  const userOptions = Object.keys(DEPARTMENT_OF_USER).sort();
+  const departmentOptions = Array.from(
+    new Set(Object.values(DEPARTMENT_OF_USER)),
+  ).sort();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold text-[#3d3128]">DR検索</h1>
+          <p className="mt-1 text-sm text-[#7f6b5a]">
+            全期間のデイリーレポートから、キーワード（空白区切りでAND）と条件で探します。
+          </p>
+        </div>
+        <Link href="/daily-reports" className={buttonVariants("secondary")}>
+          一覧へ戻る
+        </Link>
+      </div>
+
+      <Card title="検索条件">
+        <form method="get" className="grid gap-3 md:grid-cols-4">
+          <label className="flex flex-col gap-1 text-xs font-medium text-[#ad7a46] md:col-span-4">
+            キーワード
+            <input
+              type="search"
+              name="q"
+              defaultValue={raw.q ?? ""}
+              placeholder="例: 採用 ミーティング"
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-[#ad7a46]">
+            メンバー
+            <select
+              name="user"
+              defaultValue={raw.user ?? ""}
+              className={inputClassName}
+            >
+              <option value="">すべて</option>
+              {userOptions.map((slug) => (
+                <option key={slug} value={slug}>
+                  {slug}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-[#ad7a46]">
+            部署
+            <select
+              name="department"
+              defaultValue={raw.department ?? ""}
+              className={inputClassName}
+            >
+              <option value="">すべて</option>
+              {departmentOptions.map((department) => (
+                <option key={department} value={department}>
+                  {department}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-[#ad7a46]">
+            タグ
+            <input
+              name="tag"
+              defaultValue={raw.tag ?? ""}
+              placeholder="#sales"
+              className={inputClassName}
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="flex flex-col gap-1 text-xs font-medium text-[#ad7a46]">
+              満足度（下限）
+              <input
+                type="number"
+                step="any"
+                name="satisfactionMin"
+                defaultValue={raw.satisfactionMin ?? ""}
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-medium text-[#ad7a46]">
+              満足度（上限）
+              <input
+                type="number"
+                step="any"
+                name="satisfactionMax"
+                defaultValue={raw.satisfactionMax ?? ""}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+          <label className="flex flex-col gap-1 text-xs font-medium text-[#ad7a46]">
+            開始日
+            <input
+              type="date"
+              name="from"
+              defaultValue={raw.from ?? ""}
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-medium text-[#ad7a46]">
+            終了日
+            <input
+              type="date"
+              name="to"
+              defaultValue={raw.to ?? ""}
+              className={inputClassName}
+            />
+          </label>
+          <div className="flex items-center gap-3 md:col-span-4">
+            <button type="submit" className={buttonVariants("primary")}>
+              検索する
+            </button>
+            <Link
+              href="/daily-reports/search"
+              className={buttonVariants("ghost")}
+            >
+              クリア
+            </Link>
+          </div>
+        </form>
+      </Card>
+
+      {errorMessage && (
+        <div className="rounded-2xl border border-[#f5b5a7] bg-[#fff3f0] px-4 py-3 text-sm text-[#c04747]">
+          {errorMessage}
+        </div>
+      )}
+
+      {result && (
+        <Card
+          title="検索結果"
+          footer={`該当 ${result.total}件（${result.page}ページ目）`}
+        >
+          {result.items.length === 0 ? (
+            <div className="py-6 text-center text-sm text-[#b59b85]">
+              条件に一致するレポートはありません。
+            </div>
+          ) : (
+            <ul className="space-y-3">
+              {result.items.map((hit) => (
+                <li
+                  key={hit.reportId}
+                  className="rounded-2xl border border-[#ead8c4] bg-[#fffaf5] px-4 py-4"
+                >
+                  <div className="flex flex-wrap items-center gap-3 text-sm">
+                    <Link
+                      href={`/daily-reports/${hit.reportId}`}
+                      className="font-semibold text-[#ad7a46] underline-offset-4 hover:underline"
+                    >
+                      {hit.date}
+                    </Link>
+                    <span className="font-medium text-[#3d3128]">
+                      {hit.userName}
+                    </span>
+                    <span className="text-xs text-[#7f6b5a]">
+                      {hit.department}
+                    </span>
+                    {hit.satisfactionToday && (
+                      <span className="inline-flex rounded-full bg-[#fff0de] px-3 py-1 text-xs font-semibold text-[#ad7a46]">
+                        満足度 {hit.satisfactionToday.slice(0, 12)}
+                      </span>
+                    )}
+                    {hit.tags.map((tag) => (
+                      <span
+                        key={tag}
+                        className="inline-flex rounded-full border border-[#ead8c4] bg-white px-2 py-0.5 text-xs text-[#7f6b5a]"
+                      >
+                        #{tag}
+                      </span>
+                    ))}
+                  </div>
+                  {hit.matches.length > 0 && (
+                    <dl className="mt-3 space-y-2 text-sm">
+                      {hit.matches.map((match) => (
+                        <div key={match.field}>
+                          <dt className="text-xs font-semibold text-[#ad7a46]">
+                            {FIELD_LABELS[match.field]}
+                          </dt>
+                          <dd className="text-[#5b4c40]">
+                            {match.segments.map((segment, index) =>
+                              segment.highlight ? (
+                                <mark
+                                  key={index}
+                                  className="rounded bg-[#fde7c4] px-0.5 text-[#3d3128]"
+                                >
+                                  {segment.text}
+                                </mark>
+                              ) : (
+                                <span key={index}>{segment.text}</span>
+                              ),
+                            )}
+                          </dd>
+                        </div>
+                      ))}
+                    </dl>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {(result.page > 1 || result.hasNextPage) && (
+            <div className="mt-4 flex items-center justify-between">
+              {result.page > 1 ? (
+                <Link
+                  href={pageHref(result.page - 1)}
+                  className={buttonVariants("ghost")}
+                >
+                  ← 前へ
+                </Link>
+              ) : (
+                <span />
+              )}
+              {result.hasNextPage && (
+                <Link
+                  href={pageHref(result.page + 1)}
+                  className={buttonVariants("ghost")}
+                >
+                  次へ →
+                </Link>
+              )}
+            </div>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+}
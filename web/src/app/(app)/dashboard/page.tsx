@@ -1,5 +1,11 @@
+import Link from "next/link";
 import { formatInTimeZone } from "date-fns-tz";
-import type { DailyReport, Task, WeeklySatisfactionPoint } from "@/types";
+import type {
+  AppNotification,
+  DailyReport,
+  Task,
+  WeeklySatisfactionPoint,
+} from "@/types";
 import { Card } from "@/components/ui/card";
 import { WeeklySatisfactionChart } from "@/components/dashboard/weekly-satisfaction-chart";
 import { DEFAULT_TIMEZONE } from "@/config/constants";
@@ -9,12 +15,14 @@ import {
   type Department,
 } from "@/config/departments";
 import { getWeekStart } from "@/lib/time";
+import { getBlockingTasks, indexTasksById } from "@/lib/task-dependencies";
 import { auth } from "@/server/auth";
 import {
   computeWeeklySatisfaction,
   listDailyReports,
 } from "@/server/repositories/daily-reports-repository";
 import { listTasks } from "@/server/repositories/tasks-repository";
+import { listNotificationsForUser } from "@/server/notifications";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
@@ -51,8 +59,28 @@ type DashboardNotification = {
   title: string;
   body: string;
   timestampLabel: string;
+  link?: string;
 };
 
+const STORED_NOTIFICATION_LIMIT = 5;
+
+const toDashboardNotification = (
+  notification: AppNotification,
+): DashboardNotification => ({
+  id: notification.id,
+  type: notification.type === "task_deadline" ? "warning" : "info",
+  title: notification.title,
+  body: notification.body,
+  timestampLabel: Number.isNaN(Date.parse(notification.createdAt))
+    ? ""
+    : formatInTimeZone(
+        new Date(notification.createdAt),
+        DEFAULT_TIMEZONE,
+        "MM/dd HH:mm",
+      ),
+  link: notification.link,
+});
+
 const clipText = (value?: string | null, limit = 120): string => {
   if (!value) return "";
   const normalized = value.replace(/\s+/g, " ").trim();
@@ -195,11 +223,25 @@ export default async function DashboardPage() {
       email: session?.user?.email ?? undefined,
     }) ?? null;
 
-  const [reportsRaw, weeklySatisfactionRaw, tasks] = await Promise.all([
-    listDailyReports({}),
-    computeWeeklySatisfaction({}),
-    listTasks(),
-  ]);
+  const storedNotificationsPromise = session?.user?.userSlug
+    ? listNotificationsForUser(session.user.userSlug, {
+        limit: STORED_NOTIFICATION_LIMIT,
+        unreadOnly: true,
+      })
+        .then((result) => result.items)
+        .catch((error) => {
+          console.error("dashboard.notifications.error", error);
+          return [] as AppNotification[];
+        })
+    : Promise.resolve([] as AppNotification[]);
+
+  const [reportsRaw, weeklySatisfactionRaw, tasks, storedNotifications] =
+    await Promise.all([
+      listDailyReports({}),
+      computeWeeklySatisfaction({}),
+      listTasks(),
+      storedNotificationsPromise,
+    ]);
 
   const currentWeekStart = getWeekStart(new Date());
 
@@ -262,6 +304,14 @@ export default async function DashboardPage() {
   const now = Date.now();
   const activeTasks = tasks.filter((task) => task.status !== "完了");
 
+  const tasksById = indexTasksById(tasks);
+  const blockersByTaskId = new Map(
+    activeTasks
+      .filter((task) => task.status !== "棄却")
+      .map((task) => [task.taskId, getBlockingTasks(task, tasksById)] as const)
+      .filter(([, blockers]) => blockers.length > 0),
+  );
+
   const overdueTasks = activeTasks.filter((task) => {
     const due = parseISODate(task.dueDate);
     return due !== null && due < now;
@@ -371,7 +421,9 @@ export default async function DashboardPage() {
     },
   ];
 
-  const notifications: DashboardNotification[] = [];
+  // 保存済みの未読通知（期限アラート・担当変更など）を先頭に、画面表示時の集計結果を続ける
+  const notifications: DashboardNotification[] =
+    storedNotifications.map(toDashboardNotification);
 
   if (overdueTasks.length > 0) {
     const oldestOverdue = [...overdueTasks].sort((a, b) => {
@@ -390,6 +442,18 @@ export default async function DashboardPage() {
     });
   }
 
+  if (blockersByTaskId.size > 0) {
+    const [firstBlockedId, firstBlockers] = Array.from(blockersByTaskId)[0]!;
+    const firstBlocked = tasksById.get(firstBlockedId)!;
+    notifications.push({
+      id: "blocked-tasks",
+      type: "warning",
+      title: "依存タスク待ちでブロック中のタスクがあります",
+      body: `「${firstBlocked.title}」は「${firstBlockers[0].title}」の完了待ちです。ほか含め ${blockersByTaskId.size}件がブロック中です。`,
+      timestampLabel: "ブロック中",
+    });
+  }
+
   if (viewerSlug && myReportsThisWeek.length === 0) {
     notifications.push({
       id: "self-report",
@@ -583,6 +647,7 @@ export default async function DashboardPage() {
             <div className="space-y-3">
               {highlightedTasks.map((task) => {
                 const dueDescriptor = describeTaskDue(task, now);
+                const blockers = blockersByTaskId.get(task.taskId) ?? [];
                 const containerClasses = [
                   "rounded-2xl border px-4 py-4 transition-colors duration-200",
                   taskContainerClass[dueDescriptor.tone],
@@ -604,6 +669,12 @@ export default async function DashboardPage() {
                         {dueDescriptor.label}
                       </span>
                     </div>
+                    {blockers.length > 0 && (
+                      <div className="mt-2 inline-flex items-center gap-1 rounded-full bg-[#fbe8e6] px-3 py-1 text-[11px] font-semibold text-[#c04747]">
+                        ブロック中:{" "}
+                        {blockers.map((blocker) => blocker.title).join("、")}
+                      </div>
+                    )}
                     <div className="mt-2 grid gap-2 text-xs text-[#7f6b5a] sm:grid-cols-2">
                       <div>
                         <span className="font-semibold text-[#ad7a46]">
@@ -691,7 +762,7 @@ export default async function DashboardPage() {
 
       <Card
         title="通知センター"
-        description="Slack投稿失敗やSheets書き込み失敗などのアラートをまとめます。"
+        description="あなた宛ての未読通知と、DR・タスク・満足度のアラートをまとめます。"
       >
         {notifications.length === 0 ? (
           <div className="py-8 text-center text-sm text-[#b59b85]">
@@ -710,7 +781,13 @@ export default async function DashboardPage() {
                 <div className="flex items-center justify-between gap-3">
                   <div className="flex items-center gap-2 text-sm font-semibold">
                     <span>{notificationIcon[item.type]}</span>
-                    <span>{item.title}</span>
+                    {item.link ? (
+                      <Link href={item.link} className="hover:underline">
+                        {item.title}
+                      </Link>
+                    ) : (
+                      <span>{item.title}</span>
+                    )}
                   </div>
                   <span className="text-[11px] text-[#7f6b5a]/70">
                     {item.timestampLabel}
@@ -1,6 +1,117 @@
 import { Card } from "@/components/ui/card";
+import { buttonVariants } from "@/components/ui/button";
+import { DrReminderPreference } from "@/components/settings/dr-reminder-preference";
+import { DR_REMINDER_DEFAULT_TIME } from "@/config/constants";
+import { USER_SLUG_OF_SLACK } from "@/config/departments";
+import { env } from "@/config/env";
+import { resolveUserRole } from "@/config/roles";
+import { listDrReminderOptOuts } from "@/lib/sheets/dr-reminders";
+import { ROLE_LABELS } from "@/lib/roles";
+import { auth } from "@/server/auth";
+import {
+  listSlackConnectionStatuses,
+  type SlackConnectionStatus,
+} from "@/server/slack/user-tokens";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+type PageProps = {
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
+};
+
+const SLACK_RESULT_MESSAGES: Record<
+  string,
+  { tone: "success" | "error"; text: string }
+> = {
+  connected: {
+    tone: "success",
+    text: "Slackと連携しました。以降のDRは本人として投稿されます。",
+  },
+  denied: { tone: "error", text: "Slack連携がキャンセルされました。" },
+  invalid_state: {
+    tone: "error",
+    text: "連携リクエストの有効期限が切れました。もう一度お試しください。",
+  },
+  user_mismatch: {
+    tone: "error",
+    text: "ログイン中のSlackユーザーと異なるアカウントで承認されました。",
+  },
+  slack_login_required: {
+    tone: "error",
+    text: "Slackでログインしたアカウントでのみ連携できます。Slackでログインし直してください。",
+  },
+  error: {
+    tone: "error",
+    text: "Slack連携に失敗しました。時間をおいて再度お試しください。",
+  },
+};
+
+type ConnectionState = SlackConnectionStatus["status"] | "none";
+
+const CONNECTION_LABEL: Record<ConnectionState, string> = {
+  active: "連携済み",
+  expired: "期限切れ",
+  revoked: "失効",
+  none: "未連携",
+};
+
+const CONNECTION_BADGE_CLASS: Record<ConnectionState, string> = {
+  active: "bg-[#f3fbf5] text-[#1d9a57]",
+  expired: "bg-[#fff4da] text-[#ad7a46]",
+  revoked: "bg-[#fbe8e6] text-[#c04747]",
+  none: "bg-[#f5f0ea] text-[#b59b85]",
+};
+
+export default async function SettingsPage({ searchParams }: PageProps) {
+  const session = await auth();
+  const params = (await searchParams) ?? {};
+  const slackResult =
+    typeof params.slack === "string"
+      ? SLACK_RESULT_MESSAGES[params.slack]
+      : undefined;
+
+  let connections: SlackConnectionStatus[] = [];
+  let connectionsError = false;
+  try {
+    connections = await listSlackConnectionStatuses();
+  } catch (error) {
+    console.error("settings.slack_connections.error", error);
+    connectionsError = true;
+  }
+
+  let drReminderOptOuts = new Set<string>();
+  try {
+    drReminderOptOuts = await listDrReminderOptOuts();
+  } catch (error) {
+    console.error("settings.dr_reminder_opt_outs.error", error);
+  }
+  const drReminderTime =
+    env.server.DR_REMINDER_TIME?.trim() || DR_REMINDER_DEFAULT_TIME;
+
+  const connectionBySlackId = new Map(
+    connections.map((connection) => [connection.slackUserId, connection]),
+  );
+  const memberRows = Object.entries(USER_SLUG_OF_SLACK).map(
+    ([slackUserId, userSlug]) => {
+      const status: ConnectionState =
+        connectionBySlackId.get(slackUserId)?.status ?? "none";
+      return {
+        slackUserId,
+        userSlug,
+        role: resolveUserRole({ userSlug, slackUserId }),
+        status,
+        updatedAt: connectionBySlackId.get(slackUserId)?.updatedAt ?? "",
+      };
+    },
+  );
+  const viewerSlackUserId = session?.user?.slackUserId ?? null;
+  const viewerStatus: ConnectionState = viewerSlackUserId
+    ? (connectionBySlackId.get(viewerSlackUserId)?.status ?? "none")
+    : "none";
+  const viewerRole = session?.user?.role ?? "viewer";
+  const viewerSlug = session?.user?.userSlug ?? "";
 
-export default function SettingsPage() {
   return (
     <div className="space-y-6">
       <div>
@@ -10,6 +121,19 @@ export default function SettingsPage() {
         </p>
       </div>
 
+      {slackResult && (
+        <div
+          className={[
+            "rounded-2xl border px-4 py-3 text-sm",
+            slackResult.tone === "success"
+              ? "border-[#a8d6b0] bg-[#f3fbf5] text-[#1d9a57]"
+              : "border-[#f5b5a7] bg-[#fff3f0] text-[#c04747]",
+          ].join(" ")}
+        >
+          {slackResult.text}
+        </div>
+      )}
+
       <div className="grid gap-5 lg:grid-cols-3">
         <Card
           title="Google連携"
@@ -26,24 +150,108 @@ export default function SettingsPage() {
           title="Slack連携"
           description="#00_dailyreport の投稿 / 取り込みを管理します。"
         >
-          <ul className="list-disc space-y-2 pl-5 text-sm text-[#5b4c40] marker:text-[#c89b6d]">
-            <li>ユーザーOAuthで本人投稿を実現</li>
-            <li>Events API の署名検証・再試行を実装予定</li>
-            <li>Slackトークンの保管フローは要確認事項</li>
-          </ul>
+          <div className="space-y-4">
+            <ul className="list-disc space-y-2 pl-5 text-sm text-[#5b4c40] marker:text-[#c89b6d]">
+              <li>ユーザーOAuth（chat:write）で本人投稿を実現</li>
+              <li>Events API は署名検証・再送の重複排除に対応済み</li>
+              <li>トークンは暗号化してシートに保管し、失効時はBot投稿に切り替え</li>
+            </ul>
+            <div className="flex flex-wrap items-center gap-3">
+              <span
+                className={[
+                  "inline-flex rounded-full px-3 py-1 text-xs font-semibold",
+                  CONNECTION_BADGE_CLASS[viewerStatus],
+                ].join(" ")}
+              >
+                あなた: {CONNECTION_LABEL[viewerStatus]}
+              </span>
+              <a
+                href="/api/slack/oauth/install"
+                className={buttonVariants(
+                  viewerStatus === "active" ? "secondary" : "primary",
+                )}
+              >
+                {viewerStatus === "active" ? "再連携する" : "Slackと連携する"}
+              </a>
+            </div>
+            {viewerRole !== "viewer" && viewerSlug && (
+              <DrReminderPreference
+                initialOptedOut={drReminderOptOuts.has(viewerSlug)}
+                sendTime={drReminderTime}
+              />
+            )}
+          </div>
         </Card>
 
         <Card
           title="権限 / 監査"
-          description="管理者 / メンバー / 閲覧者のロールを想定。"
+          description="管理者 / メンバー / 閲覧者のロールで操作を制御します。"
         >
-          <ul className="list-disc space-y-2 pl-5 text-sm text-[#5b4c40] marker:text-[#c89b6d]">
-            <li>更新系APIは監査ログへ記録</li>
-            <li>監査ログのエクスポート機能を後続追加</li>
-            <li>ロールごとの画面制御は設計中</li>
-          </ul>
+          <div className="space-y-4">
+            <ul className="list-disc space-y-2 pl-5 text-sm text-[#5b4c40] marker:text-[#c89b6d]">
+              <li>管理者: 全メンバーのDR・タスクを編集可能</li>
+              <li>メンバー: 自分のDRとタスクを作成し、自分のDRと担当・作成したタスクを編集</li>
+              <li>閲覧者: 参照のみ（更新系APIは403）</li>
+              <li>更新系APIの操作は監査ログに記録（管理者はCSV/JSONでエクスポート可）</li>
+            </ul>
+            <span className="inline-flex rounded-full bg-[#f5f0ea] px-3 py-1 text-xs font-semibold text-[#7f6b5a]">
+              あなたのロール: {ROLE_LABELS[viewerRole]}
+            </span>
+          </div>
         </Card>
       </div>
+
+      <Card
+        title="メンバーのSlack連携状況"
+        description="本人投稿に必要なユーザートークンの保存状況です。未連携のメンバーはBotで投稿されます。"
+        footer={`連携済み ${memberRows.filter((row) => row.status === "active").length} / ${memberRows.length}名`}
+      >
+        {connectionsError ? (
+          <div className="py-6 text-center text-sm text-[#c04747]">
+            連携状況を取得できませんでした。シートへのアクセス権を確認してください。
+          </div>
+        ) : (
+          <div className="overflow-hidden rounded-xl border border-dashed border-[#ead8c4] bg-[#fffaf5]">
+            <table className="min-w-full divide-y divide-[#ead8c4] text-sm">
+              <thead className="bg-[#f9efe3] text-left text-xs uppercase tracking-wide text-[#ad7a46]">
+                <tr>
+                  <th className="px-4 py-3 font-semibold">メンバー</th>
+                  <th className="px-4 py-3 font-semibold">Slack ID</th>
+                  <th className="px-4 py-3 font-semibold">ロール</th>
+                  <th className="px-4 py-3 font-semibold">状態</th>
+                  <th className="px-4 py-3 font-semibold">更新日時</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[#f1e6d8] bg-[#fffdf9] text-[#5b4c40]">
+                {memberRows.map((row) => (
+                  <tr key={row.slackUserId}>
+                    <td className="px-4 py-3 font-medium text-[#3d3128]">
+                      {row.userSlug}
+                    </td>
+                    <td className="px-4 py-3 text-xs">{row.slackUserId}</td>
+                    <td className="px-4 py-3 text-xs">
+                      {ROLE_LABELS[row.role]}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={[
+                          "inline-flex rounded-full px-3 py-1 text-xs font-semibold",
+                          CONNECTION_BADGE_CLASS[row.status],
+                        ].join(" ")}
+                      >
+                        {CONNECTION_LABEL[row.status]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-xs text-[#7f6b5a]">
+                      {row.updatedAt || "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
     </div>
   );
 }
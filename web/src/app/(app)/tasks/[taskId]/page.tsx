@@ -1,21 +1,44 @@
 import { notFound } from "next/navigation";
 import { listTasks } from "@/server/repositories/tasks-repository";
 import { TaskDetailClient } from "@/components/tasks/task-detail-client";
+import { auth } from "@/server/auth";
+import { hasRole } from "@/lib/roles";
+import { canEditTask } from "@/lib/task-permissions";
+import { resolveTaskEditor } from "@/server/session-user";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
 interface TaskDetailPageProps {
-  params: { taskId: string };
+  params: Promise<{ taskId: string }>;
 }
 
 export default async function TaskDetailPage({ params }: TaskDetailPageProps) {
-  const tasks = await listTasks();
-  const task = tasks.find((item) => item.taskId === params.taskId);
+  const { taskId } = await params;
+  const [tasks, session] = await Promise.all([listTasks(), auth()]);
+  const task = tasks.find((item) => item.taskId === taskId);
 
   if (!task) {
     notFound();
   }
 
-  return <TaskDetailClient task={task} />;
+  return (
+    <TaskDetailClient
+      task={task}
+      canEdit={canEditTask(
+        session?.user ? resolveTaskEditor(session.user) : null,
+        task,
+      )}
+      canContribute={hasRole(session?.user?.role, "member")}
+      viewerSlug={session?.user?.userSlug}
+      dependencyCandidates={tasks
+        .filter((item) => item.taskId !== task.taskId)
+        .map(({ taskId, title, projectName, status }) => ({
+          taskId,
+          title,
+          projectName,
+          status,
+        }))}
+    />
+  );
 }
@@ -0,0 +1,52 @@
+import Link from "next/link";
+import { unstable_noStore as noStore } from "next/cache";
+import { Card } from "@/components/ui/card";
+import { buttonVariants } from "@/components/ui/button";
+import { listTasks } from "@/server/repositories/tasks-repository";
+import { auth } from "@/server/auth";
+import { hasRole } from "@/lib/roles";
+import { TasksBoard } from "@/components/tasks/tasks-board";
+import { resolveTaskEditor } from "@/server/session-user";
+
+export const dynamic = "force-dynamic";
+export const revalidate = 0;
+
+export default async function TasksBoardPage() {
+  noStore();
+
+  const [tasks, session] = await Promise.all([listTasks(), auth()]);
+  const canEdit = hasRole(session?.user?.role, "member");
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-[#3d3128]">
+            タスクボード
+          </h1>
+          <p className="mt-1 text-sm text-[#7f6b5a]">
+            状態ごとの列でタスクを並べます。スタンドアップでの進捗確認向けです。
+          </p>
+        </div>
+        <Link href="/tasks" className={buttonVariants("secondary")}>
+          一覧へ戻る
+        </Link>
+      </div>
+
+      <Card
+        title="ボード"
+        description={
+          canEdit
+            ? "担当・作成したカード（管理者はすべて）を別の列へドラッグすると状態を変更できます。移動できない列は薄く表示されます。"
+            : "閲覧者のため、ボードは参照のみ可能です。"
+        }
+        footer={`取得件数: ${tasks.length}`}
+      >
+        <TasksBoard
+          tasks={tasks}
+          editor={session?.user ? resolveTaskEditor(session.user) : null}
+        />
+      </Card>
+    </div>
+  );
+}
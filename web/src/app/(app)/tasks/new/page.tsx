@@ -5,6 +5,9 @@ import { useEffect, useMemo, useState } from "react";
 import type { ChangeEvent, FormEvent } from "react";
 import type { Session } from "next-auth";
 import { Button } from "@/components/ui/button";
+import { TaskRecurrenceField } from "@/components/tasks/task-recurrence-field";
+import { hasRole } from "@/lib/roles";
+import type { TaskRecurrence } from "@/types";
 
 const TASK_STATUS_OPTIONS = [
   "未着手",
@@ -28,6 +31,7 @@ type FormState = {
   doneDate: string;
   detailUrl: string;
   notes: string;
+  recurrence: TaskRecurrence | null;
 };
 
 export default function TaskNewPage() {
@@ -51,6 +55,7 @@ export default function TaskNewPage() {
     doneDate: "",
     detailUrl: "",
     notes: "",
+    recurrence: null,
   });
 
   useEffect(() => {
@@ -122,6 +127,7 @@ export default function TaskNewPage() {
           doneDate: formState.doneDate || undefined,
           detailUrl: formState.detailUrl.trim() || undefined,
           notes: formState.notes.trim() || undefined,
+          recurrence: formState.recurrence ?? undefined,
         }),
       });
 
@@ -155,6 +161,17 @@ export default function TaskNewPage() {
     }
   };
 
+  if (!loadingSession && session && !hasRole(session.user?.role, "member")) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-semibold text-[#3d3128]">新規タスク</h1>
+        <p className="rounded-2xl border border-[#ead8c4] bg-[#fffaf5] px-4 py-3 text-sm text-[#7f6b5a]">
+          閲覧者はタスクを登録できません。必要な場合は管理者にロールの変更を依頼してください。
+        </p>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <header className="space-y-2">
@@ -258,6 +275,19 @@ export default function TaskNewPage() {
           placeholder="https://example.com/task-detail"
         />
 
+        <div className="flex flex-col gap-1 text-sm">
+          <span className="text-xs font-medium text-[#ad7a46]">繰り返し</span>
+          <TaskRecurrenceField
+            value={formState.recurrence}
+            onChange={(recurrence) =>
+              setFormState((prev) => ({ ...prev, recurrence }))
+            }
+          />
+          <p className="text-xs text-[#7f6b5a]">
+            完了にしたとき、または定期実行で日付を迎えたときに、開始日・期限をずらした次回分が自動で登録されます。
+          </p>
+        </div>
+
         <TextareaField
           label="備考"
           name="notes"
@@ -1,15 +1,38 @@
 import Link from "next/link";
+import { redirect } from "next/navigation";
 import { unstable_noStore as noStore } from "next/cache";
 import { Card } from "@/components/ui/card";
 import { buttonVariants } from "@/components/ui/button";
-import { listTasks } from "@/server/repositories/tasks-repository";
-import { TasksGantt } from "@/components/tasks/tasks-gantt";
+import {
+  listTaskSheets,
+  listTasks,
+} from "@/server/repositories/tasks-repository";
+import { auth } from "@/server/auth";
+import { hasRole } from "@/lib/roles";
 import { TasksTable } from "@/components/tasks/tasks-table";
-import type { Task } from "@/types";
+import { TaskViewTabs } from "@/components/tasks/task-view-tabs";
+import { applyTaskListQuery } from "@/server/task-query";
+import { listTaskViewsForUser } from "@/server/task-views";
+import type { TaskViewListResult } from "@/server/task-views";
+import {
+  resolveSessionUser,
+  resolveTaskEditor,
+} from "@/server/session-user";
+import {
+  buildTaskViewHref,
+  normalizeTaskViewQuery,
+  parseTaskViewDisplayMode,
+} from "@/lib/task-views";
+import type { Task, TaskListResult } from "@/types";
+import { taskListQuerySchema } from "@/validation";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
+type PageProps = {
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
+};
+
 const toTimestamp = (value?: string | null): number | null => {
   if (!value) return null;
   const parsed = Date.parse(value);
@@ -35,10 +58,62 @@ const buildTaskSummary = (tasks: Task[]) => {
   return { now, overdueCount, dueSoonCount };
 };
 
-export default async function TasksPage() {
+export default async function TasksPage({ searchParams }: PageProps) {
   noStore();
 
-  const tasks = await listTasks();
+  const [tasks, taskSheetTitles, session, params] = await Promise.all([
+    listTasks(),
+    listTaskSheets(),
+    auth(),
+    searchParams ?? Promise.resolve({}),
+  ]);
+  const canCreate = hasRole(session?.user?.role, "member");
+  const viewerSlug = session?.user
+    ? resolveSessionUser(session.user).userSlug
+    : "";
+
+  // 一覧の条件は URL で持つ（/api/tasks と同じスキーマで解釈する）
+  const raw: Record<string, string> = {};
+  Object.entries(params).forEach(([key, value]) => {
+    if (typeof value === "string") {
+      raw[key] = value;
+    }
+  });
+
+  let taskViews: TaskViewListResult = { views: [], defaultViewId: null };
+  if (viewerSlug) {
+    try {
+      taskViews = await listTaskViewsForUser(viewerSlug);
+    } catch (error) {
+      console.error("tasks.views.load.error", error);
+    }
+  }
+  // 条件なしで開いたときだけ既定ビューへ移る（タブやリセットは display 付きのURLになる）
+  const defaultView = taskViews.views.find(
+    (view) => view.id === taskViews.defaultViewId,
+  );
+  if (defaultView && Object.keys(raw).length === 0) {
+    redirect(buildTaskViewHref(defaultView));
+  }
+  const displayMode = parseTaskViewDisplayMode(raw.display);
+  const parsed = taskListQuerySchema.safeParse(raw);
+  const listQuery = parsed.success
+    ? parsed.data
+    : taskListQuerySchema.parse({});
+  const listErrorMessage = parsed.success
+    ? null
+    : (parsed.error.issues[0]?.message ?? "検索条件が不正です");
+  const listResult: TaskListResult = parsed.success
+    ? applyTaskListQuery(tasks, listQuery)
+    : { items: [], total: 0, nextCursor: null };
+  const ganttTasks =
+    parsed.success && displayMode === "gantt"
+      ? applyTaskListQuery(tasks, {
+          ...listQuery,
+          cursor: undefined,
+          limit: Math.max(tasks.length, 1),
+        }).items
+      : [];
 
   const { overdueCount, dueSoonCount } = buildTaskSummary(tasks);
   const totalCount = tasks.length;
@@ -73,27 +148,52 @@ export default async function TasksPage() {
             Google Sheets上のタスクを一覧化し、期限や状態を確認できます。
           </p>
         </div>
-        <Link
-          href="/tasks/new"
-          className={buttonVariants("secondary")}
-        >
-          新規タスク
-        </Link>
+        <div className="flex gap-2">
+          <Link href="/tasks/board" className={buttonVariants("ghost")}>
+            ボード表示
+          </Link>
+          {canCreate && (
+            <Link
+              href="/tasks/new"
+              className={buttonVariants("secondary")}
+            >
+              新規タスク
+            </Link>
+          )}
+        </div>
       </div>
 
       <Card
-        title="タスク一覧"
-        description="シートのタスクタブと同期します。状態変更は詳細画面で実行します。"
+        title={displayMode === "gantt" ? "ガントチャート" : "タスク一覧"}
+        description={
+          displayMode === "gantt"
+            ? "条件に一致するタスクを開始日・期限で可視化します。表示対象は開始日または期限が設定されているタスクのみです。"
+            : "シートのタスクタブと同期します。チェックしたタスクはまとめて状態や担当者を変更できます。"
+        }
         footer={footerTextParts.join(" | ")}
       >
-        <TasksTable tasks={tasks} />
-      </Card>
-
-      <Card
-        title="ガントチャート"
-        description="同じタスクデータを開始日・期限で可視化します。表示対象は開始日または期限が設定されているタスクのみです。"
-      >
-        <TasksGantt tasks={tasks} />
+        <div className="space-y-4">
+          {viewerSlug && (
+            <TaskViewTabs
+              views={taskViews.views}
+              defaultViewId={taskViews.defaultViewId}
+              viewerSlug={viewerSlug}
+              canShare={canCreate}
+              currentQuery={normalizeTaskViewQuery(new URLSearchParams(raw))}
+              displayMode={displayMode}
+            />
+          )}
+          <TasksTable
+            result={listResult}
+            query={listQuery}
+            allTasks={tasks}
+            errorMessage={listErrorMessage}
+            displayMode={displayMode}
+            ganttTasks={ganttTasks}
+            editor={session?.user ? resolveTaskEditor(session.user) : null}
+            taskSheetTitles={taskSheetTitles}
+          />
+        </div>
       </Card>
       {debugInfo}
     </div>
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { formatInTimeZone } from "date-fns-tz";
+import { DEFAULT_TIMEZONE } from "@/config/constants";
+import { requireRole } from "@/server/authorization";
+import {
+  listAuditLog,
+  toAuditLogCsv,
+  type AuditLogFilters,
+} from "@/server/audit-log";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const guard = await requireRole("admin");
+  if (!guard.ok) {
+    return guard.response;
+  }
+
+  const { searchParams } = request.nextUrl;
+  const pick = (key: string) => searchParams.get(key)?.trim() || undefined;
+  const filters: AuditLogFilters = {
+    action: pick("action"),
+    entityType: pick("entityType"),
+    actor: pick("actor"),
+    entityId: pick("entityId"),
+    from: pick("from"),
+    to: pick("to"),
+  };
+
+  const entries = await listAuditLog(filters);
+  const format = pick("format");
+  const stamp = formatInTimeZone(new Date(), DEFAULT_TIMEZONE, "yyyyMMdd-HHmm");
+
+  if (format === "csv") {
+    // Excelで文字化けしないようBOMを付ける
+    return new NextResponse(`\uFEFF${toAuditLogCsv(entries)}`, {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="audit_log_${stamp}.csv"`,
+      },
+    });
+  }
+
+  if (format === "json") {
+    return new NextResponse(JSON.stringify({ data: entries }, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="audit_log_${stamp}.json"`,
+      },
+    });
+  }
+
+  return NextResponse.json({ data: entries });
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeCronRequest } from "@/server/cron";
+import { runDailyReportReminderJob } from "@/server/jobs/daily-report-reminders";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  const unauthorized = authorizeCronRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const { searchParams } = request.nextUrl;
+  const dryRun = searchParams.get("dryRun") === "1";
+  const force = searchParams.get("force") === "1";
+
+  try {
+    const result = await runDailyReportReminderJob({ dryRun, force });
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    console.error("cron.dr_reminders.error", error);
+    return NextResponse.json(
+      { error: "Failed to run daily report reminders" },
+      { status: 500 },
+    );
+  }
+}
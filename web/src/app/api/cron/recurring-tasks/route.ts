@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeCronRequest } from "@/server/cron";
+import { runRecurringTaskJob } from "@/server/jobs/recurring-tasks";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  const unauthorized = authorizeCronRequest(request);
+  if (unauthorized) {
+    return unauthorized;
+  }
+
+  const dryRun = request.nextUrl.searchParams.get("dryRun") === "1";
+
+  try {
+    const result = await runRecurringTaskJob({ dryRun });
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    console.error("cron.recurring_tasks.error", error);
+    return NextResponse.json(
+      { error: "Failed to run recurring tasks" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getDailyReportById,
+  updateDailyReport,
+} from "@/server/repositories/daily-reports-repository";
+import { dailyReportUpsertSchema } from "@/validation";
+import { requireRole } from "@/server/authorization";
+import {
+  auditActorFromIdentity,
+  getAuditRequestContext,
+  recordAuditLog,
+} from "@/server/audit-log";
+import { resolveSlackUserIdForSlug } from "@/config/departments";
+import { canEditDailyReport } from "@/server/session-user";
+import { getSlackUserAccessToken } from "@/server/slack/user-tokens";
+
+const contentSchema = dailyReportUpsertSchema.pick({
+  satisfactionToday: true,
+  doneToday: true,
+  goodMoreBackground: true,
+  moreNext: true,
+  todoTomorrow: true,
+  wishTomorrow: true,
+  personalNews: true,
+  tags: true,
+});
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const normalizeTags = (value: unknown): unknown => {
+  if (value === undefined) return undefined;
+  const tagsRaw: unknown[] = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? value.split(" ")
+      : [];
+  return Array.from(
+    new Set(
+      tagsRaw
+        .filter((tag: unknown): tag is string => typeof tag === "string")
+        .map((tag) => tag.replace(/^#/, "").trim())
+        .filter(Boolean),
+    ),
+  );
+};
+
+const handleUpdate = async (
+  request: NextRequest,
+  context: { params: Promise<{ reportId: string }> },
+  mode: "replace" | "merge",
+) => {
+  const guard = await requireRole("member");
+  if (!guard.ok) {
+    return guard.response;
+  }
+  const { identity } = guard;
+
+  const { reportId } = await context.params;
+  const existing = await getDailyReportById(reportId);
+  if (!existing) {
+    return NextResponse.json({ error: "Report not found" }, { status: 404 });
+  }
+
+  if (!canEditDailyReport(identity, existing)) {
+    return NextResponse.json(
+      { error: "この日報を編集する権限がありません" },
+      { status: 403 },
+    );
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const input = {
+    ...(mode === "merge"
+      ? {
+          satisfactionToday: existing.satisfactionToday,
+          doneToday: existing.doneToday,
+          goodMoreBackground: existing.goodMoreBackground,
+          moreNext: existing.moreNext,
+          todoTomorrow: existing.todoTomorrow,
+          wishTomorrow: existing.wishTomorrow,
+          personalNews: existing.personalNews,
+          tags: existing.tags,
+        }
+      : {}),
+    ...body,
+  };
+  if (body.tags !== undefined) {
+    input.tags = normalizeTags(body.tags);
+  }
+
+  const parsed = contentSchema.safeParse(input);
+  if (!parsed.success) {
+    const message =
+      parsed.error.issues[0]?.message ?? "入力内容を確認してください";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  // Slackの元投稿は投稿者本人のトークンでしか書き換えられないため、管理者編集時も作成者のトークンを使う。
+  // シートには SlackユーザーID の列がないので、userSlug から作成者を解決する
+  const authorSlackUserId =
+    existing.slackUserId || resolveSlackUserIdForSlug(existing.userSlug) || "";
+  const userToken = await getSlackUserAccessToken(authorSlackUserId);
+
+  const result = await updateDailyReport(existing, parsed.data, {
+    slackUserAccessToken: userToken,
+    slackUserId: authorSlackUserId,
+  });
+
+  await recordAuditLog({
+    actor: auditActorFromIdentity(identity),
+    context: getAuditRequestContext(request),
+    action: "daily_report.update",
+    entityType: "daily_report",
+    entityId: reportId,
+    before: existing,
+    after: result.report,
+  });
+
+  console.info("dr.api.update", {
+    reportId,
+    editor: identity.userSlug,
+    asAdmin: identity.userSlug !== existing.userSlug && identity.role === "admin",
+    slackOk: result.slack?.ok ?? null,
+  });
+
+  return NextResponse.json({
+    data: result.report,
+    slack: result.slack
+      ? {
+          ok: result.slack.ok,
+          ts: result.slack.ts ?? null,
+          usedTokenType: result.slack.usedTokenType,
+          error: result.slack.error ?? null,
+          action: result.slack.action ?? "updated",
+        }
+      : null,
+  });
+};
+
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ reportId: string }> },
+) {
+  return handleUpdate(request, context, "replace");
+}
+
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ reportId: string }> },
+) {
+  return handleUpdate(request, context, "merge");
+}
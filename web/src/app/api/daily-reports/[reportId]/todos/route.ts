@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDailyReportById } from "@/server/repositories/daily-reports-repository";
+import { listTasks } from "@/server/repositories/tasks-repository";
+import { buildDailyReportTodoItems } from "@/lib/daily-report-todos";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ reportId: string }>;
+};
+
+// 「明日やるべきこと」の各行と、タスク化の初期値・作成済みタスクを返す
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const { reportId } = await context.params;
+  const [report, tasks] = await Promise.all([
+    getDailyReportById(reportId),
+    listTasks(),
+  ]);
+
+  if (!report) {
+    return NextResponse.json({ error: "Report not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ data: buildDailyReportTodoItems(report, tasks) });
+}
@@ -1,9 +1,16 @@
 import { NextResponse } from "next/server";
 import { listDailyReports, saveDailyReport } from "@/server/repositories/daily-reports-repository";
 import { env } from "@/config/env";
-import { getReportWeekdayCode, reportDateBy29hRule } from "@/lib/time";
-import { auth } from "@/server/auth";
-import { resolveUserSlug } from "@/config/departments";
+import { parseISO } from "date-fns";
+import { getDailyReportDateRange, getReportWeekdayCode } from "@/lib/time";
+import { getDailyReportBackfillWindowDays } from "@/server/daily-report-backfill";
+import { requireRole } from "@/server/authorization";
+import {
+  auditActorFromIdentity,
+  getAuditRequestContext,
+  recordAuditLog,
+} from "@/server/audit-log";
+import { getSlackUserAccessToken } from "@/server/slack/user-tokens";
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -19,9 +26,9 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
-  const session = await auth();
-  if (!session?.user) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const guard = await requireRole("member");
+  if (!guard.ok) {
+    return guard.response;
   }
 
   const body = await request.json().catch(() => ({}));
@@ -55,38 +62,43 @@ export async function POST(request: Request) {
     );
   }
 
-  const { dateISO } = reportDateBy29hRule();
-  const weekday = getReportWeekdayCode(dateISO);
-
-  const sessionUserName = toStringOrEmpty(session.user.name);
-  const sessionEmail = toStringOrEmpty(session.user.email);
-  const slackUserId = toStringOrEmpty(session.user.slackUserId);
-  const slackTeamId = toStringOrEmpty(session.user.slackTeamId);
-
-  const normalizeSlugCandidate = (input: string): string =>
-    input
-      .trim()
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, "-")
-      .replace(/-+/g, "-")
-      .replace(/^-|-$/g, "");
-
-  const slugFromEmail = sessionEmail
-    ? sessionEmail.split("@")[0]?.toLowerCase() ?? ""
-    : "";
-  const fallbackSlugCandidate = normalizeSlugCandidate(
-    slugFromEmail || sessionUserName,
+  // date 省略時は29時ルールの「今日」。指定時は提出可能範囲内の過去日のみ受け付ける
+  const backfillWindowDays = getDailyReportBackfillWindowDays();
+  const { minDateISO, maxDateISO } = getDailyReportDateRange(
+    new Date(),
+    undefined,
+    backfillWindowDays,
   );
-  const resolvedSlug =
-    resolveUserSlug({
-      slackUserId: slackUserId || undefined,
-      email: sessionEmail || undefined,
-      userSlug: fallbackSlugCandidate || undefined,
-    }) ?? fallbackSlugCandidate;
-  const userSlug = resolvedSlug || "unknown";
+  const requestedDate = toStringOrEmpty(body.date).trim();
+  if (
+    requestedDate &&
+    (!/^\d{4}-\d{2}-\d{2}$/.test(requestedDate) ||
+      Number.isNaN(parseISO(requestedDate).getTime()))
+  ) {
+    return NextResponse.json(
+      { error: "日付は YYYY-MM-DD 形式で指定してください" },
+      { status: 400 },
+    );
+  }
+  if (requestedDate && requestedDate > maxDateISO) {
+    return NextResponse.json(
+      { error: "未来の日付の日報は提出できません" },
+      { status: 400 },
+    );
+  }
+  if (requestedDate && requestedDate < minDateISO) {
+    return NextResponse.json(
+      {
+        error: `${backfillWindowDays}日より前の日報はさかのぼって提出できません`,
+      },
+      { status: 400 },
+    );
+  }
+  const dateISO = requestedDate || maxDateISO;
+  const weekday = getReportWeekdayCode(dateISO);
 
-  const userName = sessionUserName || userSlug || sessionEmail || "Unknown";
-  const email = sessionEmail;
+  const { userSlug, userName, email, slackUserId, slackTeamId } =
+    guard.identity;
 
   const channelId = env.server.SLACK_DAILY_REPORT_CHANNEL_ID.trim();
   if (!channelId) {
@@ -96,13 +108,14 @@ export async function POST(request: Request) {
     );
   }
 
-  const userToken = null;
+  const userToken = await getSlackUserAccessToken(slackUserId);
 
   console.info("dr.api.save.intent", {
     haveUserToken: Boolean(userToken),
     channel: channelId,
     userSlug,
     date: dateISO,
+    backfill: dateISO !== maxDateISO,
   });
 
   const result = await saveDailyReport({
@@ -125,6 +138,16 @@ export async function POST(request: Request) {
     slackUserAccessToken: userToken,
   });
 
+  await recordAuditLog({
+    actor: auditActorFromIdentity(guard.identity),
+    context: getAuditRequestContext(request),
+    action: result.previous ? "daily_report.update" : "daily_report.create",
+    entityType: "daily_report",
+    entityId: result.report.reportId,
+    before: result.previous,
+    after: result.report,
+  });
+
   return NextResponse.json(
     {
       data: result.report,
@@ -134,6 +157,7 @@ export async function POST(request: Request) {
             ts: result.slack.ts ?? null,
             usedTokenType: result.slack.usedTokenType,
             error: result.slack.error ?? null,
+            action: result.slack.action ?? "posted",
           }
         : null,
     },
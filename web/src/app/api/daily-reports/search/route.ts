@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireRole } from "@/server/authorization";
+import { searchDailyReports } from "@/server/daily-report-search";
+import { dailyReportSearchQuerySchema } from "@/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const guard = await requireRole("viewer");
+  if (!guard.ok) {
+    return guard.response;
+  }
+
+  const parsed = dailyReportSearchQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "検索条件が不正です" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await searchDailyReports(parsed.data);
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    console.error("dr.api.search.error", error);
+    return NextResponse.json(
+      { error: "日報を検索できませんでした" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { requireRole } from "@/server/authorization";
+import {
+  markAllNotificationsRead,
+  markNotificationsRead,
+} from "@/server/notifications";
+
+const markReadSchema = z.union([
+  z.object({ all: z.literal(true) }),
+  z.object({ ids: z.array(z.string().min(1)).min(1).max(200) }),
+]);
+
+// { ids: [...] } で指定の通知を、{ all: true } で自分宛ての未読をすべて既読にする
+export async function POST(request: Request) {
+  const guard = await requireRole("viewer");
+  if (!guard.ok) {
+    return guard.response;
+  }
+
+  const json = await request.json().catch(() => null);
+  const parsed = markReadSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "ids または all を指定してください" },
+      { status: 400 },
+    );
+  }
+
+  const { userSlug } = guard.identity;
+  try {
+    const updated =
+      "all" in parsed.data
+        ? await markAllNotificationsRead(userSlug)
+        : await markNotificationsRead(userSlug, parsed.data.ids);
+    return NextResponse.json({ data: { updated } });
+  } catch (error) {
+    console.error("notifications.api.mark_read.error", error);
+    return NextResponse.json(
+      { error: "既読にできませんでした" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "@/server/authorization";
+import { listNotificationsForUser } from "@/server/notifications";
+
+const MAX_LIMIT = 100;
+
+export async function GET(request: Request) {
+  const guard = await requireRole("viewer");
+  if (!guard.ok) {
+    return guard.response;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const limitParam = Number.parseInt(searchParams.get("limit") ?? "", 10);
+  const limit = Number.isFinite(limitParam)
+    ? Math.min(Math.max(limitParam, 1), MAX_LIMIT)
+    : undefined;
+  const unreadOnly = searchParams.get("unread") === "1";
+
+  try {
+    const result = await listNotificationsForUser(guard.identity.userSlug, {
+      limit,
+      unreadOnly,
+    });
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    console.error("notifications.api.list.error", error);
+    return NextResponse.json(
+      { error: "通知を取得できませんでした" },
+      { status: 500 },
+    );
+  }
+}
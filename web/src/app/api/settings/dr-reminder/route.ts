@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  listDrReminderOptOuts,
+  recordDrReminderOptOut,
+} from "@/lib/sheets/dr-reminders";
+import { requireRole } from "@/server/authorization";
+
+const preferenceSchema = z.object({ optedOut: z.boolean() });
+
+export async function GET() {
+  const guard = await requireRole("viewer");
+  if (!guard.ok) {
+    return guard.response;
+  }
+
+  const optOuts = await listDrReminderOptOuts();
+  return NextResponse.json({
+    data: { optedOut: optOuts.has(guard.identity.userSlug) },
+  });
+}
+
+export async function PUT(request: Request) {
+  const guard = await requireRole("member");
+  if (!guard.ok) {
+    return guard.response;
+  }
+
+  const json = await request.json().catch(() => null);
+  const parsed = preferenceSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "optedOut を true / false で指定してください" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    await recordDrReminderOptOut(
+      guard.identity.userSlug,
+      parsed.data.optedOut,
+    );
+  } catch (error) {
+    console.error("settings.dr_reminder.save.error", error);
+    return NextResponse.json(
+      { error: "設定を保存できませんでした" },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json({ data: parsed.data });
+}
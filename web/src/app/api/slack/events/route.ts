@@ -1,6 +1,12 @@
-import { NextResponse } from "next/server";
+import { after, NextResponse } from "next/server";
 import crypto from "crypto";
 import { env } from "@/config/env";
+import type {
+  SlackEventCallbackPayload,
+  SlackEventsPayload,
+  SlackUrlVerificationPayload,
+} from "@/lib/slack/events";
+import { enqueueSlackEvent } from "@/server/slack/event-queue";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -48,18 +54,39 @@ export async function POST(req: Request) {
     return NextResponse.json({ ok: false, error: "bad_signature" }, { status: 401 });
   }
 
-  let payload: any;
+  let payload: SlackEventsPayload;
   try {
-    payload = JSON.parse(raw);
+    payload = JSON.parse(raw) as SlackEventsPayload;
   } catch {
     return NextResponse.json({ ok: false, error: "bad_json" }, { status: 400 });
   }
 
-  if (payload.type === "url_verification" && payload.challenge) {
-    return new NextResponse(payload.challenge, {
-      status: 200,
-      headers: { "Content-Type": "text/plain" },
-    });
+  if (payload.type === "url_verification") {
+    const { challenge } = payload as SlackUrlVerificationPayload;
+    if (challenge) {
+      return new NextResponse(challenge, {
+        status: 200,
+        headers: { "Content-Type": "text/plain" },
+      });
+    }
+  }
+
+  if (payload.type === "event_callback") {
+    const callback = payload as SlackEventCallbackPayload;
+    const retryNum =
+      Number.parseInt(req.headers.get("x-slack-retry-num") ?? "0", 10) || 0;
+    const retryReason = req.headers.get("x-slack-retry-reason");
+
+    if (retryNum > 0) {
+      console.info("slack.events.retry.received", {
+        eventId: callback.event_id,
+        retryNum,
+        retryReason,
+      });
+    }
+
+    // Slack は3秒以内の応答を求めるため、処理はレスポンス返却後に行う
+    after(() => enqueueSlackEvent(callback, { retryNum, retryReason }));
   }
 
   return NextResponse.json({ ok: true });
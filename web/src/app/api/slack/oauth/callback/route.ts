@@ -0,0 +1,97 @@
+import { WebClient } from "@slack/web-api";
+import { NextRequest, NextResponse } from "next/server";
+import { env } from "@/config/env";
+import { auth } from "@/server/auth";
+import {
+  SLACK_OAUTH_CALLBACK_PATH,
+  SLACK_OAUTH_STATE_COOKIE,
+  storeSlackUserInstall,
+} from "@/server/slack/user-tokens";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const redirectToSettings = (request: NextRequest, result: string) => {
+  const url = new URL("/settings", request.nextUrl.origin);
+  url.searchParams.set("slack", result);
+  const response = NextResponse.redirect(url);
+  response.cookies.delete({
+    name: SLACK_OAUTH_STATE_COOKIE,
+    path: "/api/slack/oauth",
+  });
+  return response;
+};
+
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  if (searchParams.get("error")) {
+    return redirectToSettings(request, "denied");
+  }
+
+  const code = searchParams.get("code");
+  const state = searchParams.get("state");
+  const expectedState = request.cookies.get(SLACK_OAUTH_STATE_COOKIE)?.value;
+  if (!code || !state || !expectedState || state !== expectedState) {
+    console.warn("slack.oauth.callback.invalid_state", {
+      hasCode: Boolean(code),
+      hasState: Boolean(state),
+    });
+    return redirectToSettings(request, "invalid_state");
+  }
+
+  try {
+    const response = await new WebClient().oauth.v2.access({
+      client_id: env.server.SLACK_CLIENT_ID,
+      client_secret: env.server.SLACK_CLIENT_SECRET,
+      code,
+      redirect_uri: new URL(
+        SLACK_OAUTH_CALLBACK_PATH,
+        request.nextUrl.origin,
+      ).toString(),
+    });
+
+    const authedUser = response.authed_user;
+    if (!response.ok || !authedUser?.id || !authedUser.access_token) {
+      console.error("slack.oauth.callback.exchange_failed", {
+        error: response.error ?? null,
+      });
+      return redirectToSettings(request, "error");
+    }
+
+    // ログイン中の本人以外のトークンは保存しない。本人を確認できない場合も保存しない
+    if (!session.user.slackUserId) {
+      console.warn("slack.oauth.callback.session_without_slack_user", {
+        authedUserId: authedUser.id,
+      });
+      return redirectToSettings(request, "slack_login_required");
+    }
+    if (session.user.slackUserId !== authedUser.id) {
+      console.warn("slack.oauth.callback.user_mismatch", {
+        sessionSlackUserId: session.user.slackUserId,
+        authedUserId: authedUser.id,
+      });
+      return redirectToSettings(request, "user_mismatch");
+    }
+
+    await storeSlackUserInstall({
+      slackUserId: authedUser.id,
+      slackTeamId: response.team?.id ?? session.user.slackTeamId ?? "",
+      accessToken: authedUser.access_token,
+      refreshToken: authedUser.refresh_token,
+      scope: authedUser.scope ?? "",
+      expiresInSeconds: authedUser.expires_in,
+    });
+
+    return redirectToSettings(request, "connected");
+  } catch (error) {
+    console.error("slack.oauth.callback.error", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return redirectToSettings(request, "error");
+  }
+}
@@ -0,0 +1,50 @@
+import { randomBytes } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { env } from "@/config/env";
+import { isSecretEncryptionConfigured } from "@/lib/secrets";
+import { auth } from "@/server/auth";
+import {
+  SLACK_OAUTH_CALLBACK_PATH,
+  SLACK_OAUTH_STATE_COOKIE,
+  SLACK_USER_SCOPES,
+} from "@/server/slack/user-tokens";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!isSecretEncryptionConfigured()) {
+    return NextResponse.json(
+      { error: "SLACK_TOKEN_ENCRYPTION_KEY が未設定のため連携できません。" },
+      { status: 500 },
+    );
+  }
+
+  const state = randomBytes(16).toString("hex");
+  const authorizeUrl = new URL("https://slack.com/oauth/v2/authorize");
+  authorizeUrl.searchParams.set("client_id", env.server.SLACK_CLIENT_ID);
+  authorizeUrl.searchParams.set("user_scope", SLACK_USER_SCOPES.join(","));
+  authorizeUrl.searchParams.set(
+    "redirect_uri",
+    new URL(SLACK_OAUTH_CALLBACK_PATH, request.nextUrl.origin).toString(),
+  );
+  authorizeUrl.searchParams.set("state", state);
+  if (session.user.slackTeamId) {
+    authorizeUrl.searchParams.set("team", session.user.slackTeamId);
+  }
+
+  const response = NextResponse.redirect(authorizeUrl);
+  response.cookies.set(SLACK_OAUTH_STATE_COOKIE, state, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: 10 * 60,
+    path: "/api/slack/oauth",
+  });
+  return response;
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "@/server/authorization";
+import { deleteTaskView, updateTaskView } from "@/server/task-views";
+import { hasRole } from "@/lib/roles";
+import { taskViewUpsertSchema } from "@/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ viewId: string }>;
+};
+
+export async function PATCH(request: Request, context: RouteContext) {
+  const guard = await requireRole("viewer");
+  if (!guard.ok) {
+    return guard.response;
+  }
+  const { identity } = guard;
+  const { viewId } = await context.params;
+
+  const json = await request.json().catch(() => null);
+  const parsed = taskViewUpsertSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "ビューの内容が不正です" },
+      { status: 400 },
+    );
+  }
+  if (parsed.data.visibility === "team" && !hasRole(identity.role, "member")) {
+    return NextResponse.json(
+      { error: "チームへの共有はメンバー以上のみ可能です" },
+      { status: 403 },
+    );
+  }
+
+  const result = await updateTaskView(identity.userSlug, viewId, parsed.data);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  return NextResponse.json({ data: result.view });
+}
+
+export async function DELETE(_request: Request, context: RouteContext) {
+  const guard = await requireRole("viewer");
+  if (!guard.ok) {
+    return guard.response;
+  }
+  const { viewId } = await context.params;
+
+  const result = await deleteTaskView(guard.identity.userSlug, viewId);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  return NextResponse.json({ data: result.view });
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "@/server/authorization";
+import { setDefaultTaskView } from "@/server/task-views";
+import { taskViewDefaultSchema } from "@/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function PUT(request: Request) {
+  const guard = await requireRole("viewer");
+  if (!guard.ok) {
+    return guard.response;
+  }
+
+  const json = await request.json().catch(() => null);
+  const parsed = taskViewDefaultSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "viewId（解除する場合は null）を指定してください" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await setDefaultTaskView(
+      guard.identity.userSlug,
+      parsed.data.viewId,
+    );
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 404 });
+    }
+  } catch (error) {
+    console.error("task_views.default.save.error", error);
+    return NextResponse.json(
+      { error: "既定のビューを保存できませんでした" },
+      { status: 500 },
+    );
+  }
+
+  return NextResponse.json({ data: parsed.data });
+}
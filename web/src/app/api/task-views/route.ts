@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { requireRole } from "@/server/authorization";
+import { createTaskView, listTaskViewsForUser } from "@/server/task-views";
+import { hasRole } from "@/lib/roles";
+import { taskViewUpsertSchema } from "@/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  const guard = await requireRole("viewer");
+  if (!guard.ok) {
+    return guard.response;
+  }
+
+  const result = await listTaskViewsForUser(guard.identity.userSlug);
+  return NextResponse.json({ data: result });
+}
+
+export async function POST(request: Request) {
+  const guard = await requireRole("viewer");
+  if (!guard.ok) {
+    return guard.response;
+  }
+  const { identity } = guard;
+
+  const json = await request.json().catch(() => null);
+  const parsed = taskViewUpsertSchema.safeParse(json);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "ビューの内容が不正です" },
+      { status: 400 },
+    );
+  }
+  // 閲覧者は自分用のビューのみ作成できる
+  if (parsed.data.visibility === "team" && !hasRole(identity.role, "member")) {
+    return NextResponse.json(
+      { error: "チームへの共有はメンバー以上のみ可能です" },
+      { status: 403 },
+    );
+  }
+
+  try {
+    const view = await createTaskView(identity.userSlug, parsed.data);
+    return NextResponse.json({ data: view }, { status: 201 });
+  } catch (error) {
+    console.error("task_views.create.error", error);
+    return NextResponse.json(
+      { error: "ビューを保存できませんでした" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteTaskChecklistItem,
+  listTasks,
+  updateTaskChecklistItem,
+} from "@/server/repositories/tasks-repository";
+import { requireRole } from "@/server/authorization";
+import { taskChecklistItemUpdateSchema } from "@/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ taskId: string; itemId: string }>;
+};
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const guard = await requireRole("member");
+  if (!guard.ok) {
+    return guard.response;
+  }
+  const { identity } = guard;
+
+  const { taskId, itemId } = await context.params;
+  const parsed = taskChecklistItemUpdateSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "チェックリストの項目が不正です" },
+      { status: 400 },
+    );
+  }
+
+  const tasks = await listTasks();
+  const task = tasks.find((item) => item.taskId === taskId);
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  const item = await updateTaskChecklistItem(task, itemId, parsed.data, {
+    actorId: identity.userSlug,
+    actorName: identity.userName,
+  });
+  if (!item) {
+    return NextResponse.json(
+      { error: "Checklist item not found" },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json({ data: item });
+}
+
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const guard = await requireRole("member");
+  if (!guard.ok) {
+    return guard.response;
+  }
+  const { identity } = guard;
+
+  const { taskId, itemId } = await context.params;
+  const tasks = await listTasks();
+  const task = tasks.find((item) => item.taskId === taskId);
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  const item = await deleteTaskChecklistItem(task, itemId, {
+    actorId: identity.userSlug,
+    actorName: identity.userName,
+  });
+  if (!item) {
+    return NextResponse.json(
+      { error: "Checklist item not found" },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json({ data: item });
+}
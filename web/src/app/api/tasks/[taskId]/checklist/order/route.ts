@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  listTasks,
+  reorderTaskChecklist,
+} from "@/server/repositories/tasks-repository";
+import { requireRole } from "@/server/authorization";
+import { taskChecklistOrderSchema } from "@/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ taskId: string }> },
+) {
+  const guard = await requireRole("member");
+  if (!guard.ok) {
+    return guard.response;
+  }
+
+  const { taskId } = await context.params;
+  const parsed = taskChecklistOrderSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "itemIds に並べ替え後の項目IDを指定してください" },
+      { status: 400 },
+    );
+  }
+
+  const tasks = await listTasks();
+  const task = tasks.find((item) => item.taskId === taskId);
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  const checklist = await reorderTaskChecklist(task, parsed.data.itemIds);
+  return NextResponse.json({ data: checklist });
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  addTaskChecklistItem,
+  listTasks,
+} from "@/server/repositories/tasks-repository";
+import { requireRole } from "@/server/authorization";
+import { TASK_CHECKLIST_MAX_ITEMS } from "@/lib/task-checklist";
+import { taskChecklistItemCreateSchema } from "@/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ taskId: string }>;
+};
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const { taskId } = await context.params;
+  const tasks = await listTasks();
+  const task = tasks.find((item) => item.taskId === taskId);
+
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ data: task.checklist ?? [] });
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  const guard = await requireRole("member");
+  if (!guard.ok) {
+    return guard.response;
+  }
+  const { identity } = guard;
+
+  const { taskId } = await context.params;
+  const parsed = taskChecklistItemCreateSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "チェックリストの項目が不正です" },
+      { status: 400 },
+    );
+  }
+
+  const tasks = await listTasks();
+  const task = tasks.find((item) => item.taskId === taskId);
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+  if ((task.checklist ?? []).length >= TASK_CHECKLIST_MAX_ITEMS) {
+    return NextResponse.json(
+      { error: `チェックリストは${TASK_CHECKLIST_MAX_ITEMS}項目までです` },
+      { status: 400 },
+    );
+  }
+
+  const item = await addTaskChecklistItem(task, parsed.data, {
+    actorId: identity.userSlug,
+    actorName: identity.userName,
+  });
+
+  return NextResponse.json({ data: item }, { status: 201 });
+}
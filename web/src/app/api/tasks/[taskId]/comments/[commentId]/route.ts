@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  deleteTaskComment,
+  editTaskComment,
+  listTasks,
+} from "@/server/repositories/tasks-repository";
+import { requireRole } from "@/server/authorization";
+import {
+  auditActorFromIdentity,
+  getAuditRequestContext,
+  recordAuditLog,
+} from "@/server/audit-log";
+import { notifyCommentMentions } from "@/server/notifications";
+import type { SessionUserIdentity } from "@/server/session-user";
+import {
+  buildTaskComments,
+  extractMentionedSlugs,
+} from "@/lib/task-comments";
+import { taskCommentBodySchema } from "@/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteContext = {
+  params: Promise<{ taskId: string; commentId: string }>;
+};
+
+// 対象コメントを探し、投稿者本人かどうかを確認する
+const loadOwnComment = async (
+  context: RouteContext,
+  identity: SessionUserIdentity,
+) => {
+  const { taskId, commentId } = await context.params;
+  const tasks = await listTasks();
+  const task = tasks.find((item) => item.taskId === taskId);
+  if (!task) {
+    return {
+      error: NextResponse.json({ error: "Task not found" }, { status: 404 }),
+    } as const;
+  }
+
+  const comment = buildTaskComments(task.history).find(
+    (item) => item.id === commentId,
+  );
+  if (!comment || comment.deletedAt) {
+    return {
+      error: NextResponse.json(
+        { error: "Comment not found" },
+        { status: 404 },
+      ),
+    } as const;
+  }
+  if (comment.authorId !== identity.userSlug) {
+    return {
+      error: NextResponse.json(
+        { error: "自分のコメントのみ編集・削除できます" },
+        { status: 403 },
+      ),
+    } as const;
+  }
+
+  return { task, comment } as const;
+};
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  const guard = await requireRole("member");
+  if (!guard.ok) {
+    return guard.response;
+  }
+  const { identity } = guard;
+
+  const parsed = taskCommentBodySchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "コメントが不正です" },
+      { status: 400 },
+    );
+  }
+
+  const loaded = await loadOwnComment(context, identity);
+  if ("error" in loaded) {
+    return loaded.error;
+  }
+  const { task, comment: previous } = loaded;
+
+  const comment = await editTaskComment(task, previous.id, parsed.data.body, {
+    actorId: identity.userSlug,
+    actorName: identity.userName,
+  });
+
+  await recordAuditLog({
+    actor: auditActorFromIdentity(identity),
+    context: getAuditRequestContext(request),
+    action: "task_comment.update",
+    entityType: "task_comment",
+    entityId: comment.id,
+    before: previous,
+    after: comment,
+  });
+  // 編集で新たに名指しされたメンバーにだけ通知する
+  const previousMentions = new Set(extractMentionedSlugs(previous.body));
+  await notifyCommentMentions(
+    task,
+    comment,
+    extractMentionedSlugs(comment.body).filter(
+      (slug) => !previousMentions.has(slug),
+    ),
+    identity,
+  );
+
+  return NextResponse.json({ data: comment });
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const guard = await requireRole("member");
+  if (!guard.ok) {
+    return guard.response;
+  }
+  const { identity } = guard;
+
+  const loaded = await loadOwnComment(context, identity);
+  if ("error" in loaded) {
+    return loaded.error;
+  }
+  const { task, comment: previous } = loaded;
+
+  const comment = await deleteTaskComment(task, previous.id, {
+    actorId: identity.userSlug,
+    actorName: identity.userName,
+  });
+
+  await recordAuditLog({
+    actor: auditActorFromIdentity(identity),
+    context: getAuditRequestContext(request),
+    action: "task_comment.delete",
+    entityType: "task_comment",
+    entityId: comment.id,
+    before: previous,
+    after: comment,
+  });
+
+  return NextResponse.json({ data: comment });
+}
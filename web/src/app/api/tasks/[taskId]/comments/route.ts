@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  addTaskComment,
+  listTasks,
+} from "@/server/repositories/tasks-repository";
+import { requireRole } from "@/server/authorization";
+import {
+  auditActorFromIdentity,
+  getAuditRequestContext,
+  recordAuditLog,
+} from "@/server/audit-log";
+import { notifyCommentMentions } from "@/server/notifications";
+import {
+  buildTaskComments,
+  extractMentionedSlugs,
+} from "@/lib/task-comments";
+import { taskCommentBodySchema } from "@/validation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _request: NextRequest,
+  context: { params: Promise<{ taskId: string }> },
+) {
+  const { taskId } = await context.params;
+  const tasks = await listTasks();
+  const task = tasks.find((item) => item.taskId === taskId);
+
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ data: buildTaskComments(task.history) });
+}
+
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ taskId: string }> },
+) {
+  const guard = await requireRole("member");
+  if (!guard.ok) {
+    return guard.response;
+  }
+  const { identity } = guard;
+
+  const { taskId } = await context.params;
+  const parsed = taskCommentBodySchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "コメントが不正です" },
+      { status: 400 },
+    );
+  }
+
+  const tasks = await listTasks();
+  const task = tasks.find((item) => item.taskId === taskId);
+  if (!task) {
+    return NextResponse.json({ error: "Task not found" }, { status: 404 });
+  }
+
+  const comment = await addTaskComment(task, parsed.data.body, {
+    actorId: identity.userSlug,
+    actorName: identity.userName,
+  });
+
+  await recordAuditLog({
+    actor: auditActorFromIdentity(identity),
+    context: getAuditRequestContext(request),
+    action: "task_comment.create",
+    entityType: "task_comment",
+    entityId: comment.id,
+    before: null,
+    after: comment,
+  });
+  await notifyCommentMentions(
+    task,
+    comment,
+    extractMentionedSlugs(comment.body),
+    identity,
+  );
+
+  return NextResponse.json({ data: comment }, { status: 201 });
+}
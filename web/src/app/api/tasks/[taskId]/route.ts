@@ -6,12 +6,50 @@ import {
 } from "@/server/repositories/tasks-repository";
 import { taskUpsertSchema } from "@/validation";
 import { z } from "zod";
-import type { TaskUpsertInput } from "@/types";
-import { auth } from "@/server/auth";
+import type { Task, TaskUpsertInput } from "@/types";
+import { requireRole } from "@/server/authorization";
+import { resolveTaskEditor } from "@/server/session-user";
+import {
+  auditActorFromIdentity,
+  getAuditRequestContext,
+  recordAuditLog,
+} from "@/server/audit-log";
+import { notifyTaskAssigned } from "@/server/notifications";
+import {
+  canTransitionTaskStatus,
+  getAllowedNextStatuses,
+  resolveDoneDateForStatus,
+  statusRequiresReason,
+} from "@/lib/task-status";
+import { validateDependsOn } from "@/lib/task-dependencies";
+import {
+  canEditTask,
+  TASK_EDIT_FORBIDDEN_MESSAGE,
+} from "@/lib/task-permissions";
+import {
+  describeTaskRecurrence,
+  formatTaskRecurrence,
+} from "@/lib/task-recurrence";
+import { createNextOccurrence } from "@/server/task-recurrence";
+
+const patchSchema = taskUpsertSchema.partial().merge(
+  z.object({
+    taskId: z.string().min(1),
+    statusReason: z.string().trim().max(1000).optional(),
+    // 画面で読み込んだ時点の updatedAt。送られてきた場合は楽観ロックに使う
+    expectedUpdatedAt: z.string().optional(),
+  }),
+);
 
-const patchSchema = taskUpsertSchema
-  .partial()
-  .merge(z.object({ taskId: z.string().min(1) }));
+// シートから読み戻した値は表記が揺れることがあるため、日時として比較する
+const isSameTimestamp = (left: string, right: string) => {
+  const leftParsed = Date.parse(left);
+  const rightParsed = Date.parse(right);
+  if (Number.isNaN(leftParsed) || Number.isNaN(rightParsed)) {
+    return left.trim() === right.trim();
+  }
+  return leftParsed === rightParsed;
+};
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -35,14 +73,18 @@ export async function PATCH(
   request: NextRequest,
   context: { params: Promise<{ taskId: string }> },
 ) {
-  const session = await auth();
-  if (!session?.user) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const guard = await requireRole("member");
+  if (!guard.ok) {
+    return guard.response;
   }
+  const { session, identity } = guard;
 
   const { taskId } = await context.params;
   const body = await request.json();
-  const payload = patchSchema.parse({ ...body, taskId });
+  const { statusReason, expectedUpdatedAt, ...payload } = patchSchema.parse({
+    ...body,
+    taskId,
+  });
 
   const tasks = await listTasks();
   const existingTask = tasks.find((item) => item.taskId === taskId);
@@ -51,6 +93,57 @@ export async function PATCH(
     return NextResponse.json({ error: "Task not found" }, { status: 404 });
   }
 
+  if (!canEditTask(resolveTaskEditor(session.user), existingTask)) {
+    return NextResponse.json(
+      { error: TASK_EDIT_FORBIDDEN_MESSAGE },
+      { status: 403 },
+    );
+  }
+
+  if (
+    expectedUpdatedAt !== undefined &&
+    !isSameTimestamp(expectedUpdatedAt, existingTask.updatedAt)
+  ) {
+    return NextResponse.json(
+      {
+        error: "他のメンバーが先にこのタスクを更新しました",
+        current: existingTask,
+      },
+      { status: 409 },
+    );
+  }
+
+  const nextStatus = payload.status ?? existingTask.status;
+  const statusChanged = nextStatus !== existingTask.status;
+  if (!canTransitionTaskStatus(existingTask.status, nextStatus)) {
+    const allowedStatuses = getAllowedNextStatuses(existingTask.status);
+    return NextResponse.json(
+      {
+        error: `${existingTask.status} から ${nextStatus} には変更できません`,
+        allowedStatuses,
+      },
+      { status: 409 },
+    );
+  }
+  if (statusChanged && statusRequiresReason(nextStatus) && !statusReason) {
+    return NextResponse.json(
+      { error: `${nextStatus} にするには理由を入力してください` },
+      { status: 400 },
+    );
+  }
+
+  let dependsOn = existingTask.dependsOn ?? [];
+  if (payload.dependsOn !== undefined) {
+    const dependencyCheck = validateDependsOn(tasks, taskId, payload.dependsOn);
+    if (!dependencyCheck.ok) {
+      return NextResponse.json(
+        { error: dependencyCheck.error },
+        { status: 400 },
+      );
+    }
+    dependsOn = dependencyCheck.dependsOn;
+  }
+
   const trimOrUndefined = (
     value: string | undefined,
     fallback: string | undefined,
@@ -81,9 +174,20 @@ export async function PATCH(
     doneDate: trimOrUndefined(payload.doneDate, existingTask.doneDate),
     detailUrl: trimOrUndefined(payload.detailUrl, existingTask.detailUrl),
     notes: trimOrUndefined(payload.notes, existingTask.notes),
+    dependsOn,
+    recurrence:
+      payload.recurrence === undefined
+        ? existingTask.recurrence
+        : (payload.recurrence ?? undefined),
     createdAt: existingTask.createdAt,
     history: existingTask.history,
   };
+  if (statusChanged) {
+    taskPayload.doneDate = resolveDoneDateForStatus(
+      nextStatus,
+      taskPayload.doneDate,
+    );
+  }
 
   const actorId =
     session.user.id ??
@@ -109,10 +213,11 @@ export async function PATCH(
     });
   };
 
-  if (taskPayload.status !== existingTask.status) {
+  if (statusChanged) {
+    const reason = statusReason ? `（理由: ${statusReason}）` : "";
     registerChange(
       "status_change",
-      `状態を ${existingTask.status} から ${taskPayload.status} に変更`,
+      `状態を ${existingTask.status} から ${taskPayload.status} に変更${reason}`,
     );
   }
 
@@ -134,6 +239,15 @@ export async function PATCH(
     registerChange("update", `終了日を ${before} から ${after} に変更`);
   }
 
+  const assigneeChanged =
+    taskPayload.assigneeName !== existingTask.assigneeName;
+  if (assigneeChanged) {
+    registerChange(
+      "update",
+      `担当者を ${existingTask.assigneeName || "未設定"} から ${taskPayload.assigneeName} に変更`,
+    );
+  }
+
   if (taskPayload.priority !== existingTask.priority) {
     registerChange(
       "update",
@@ -147,11 +261,61 @@ export async function PATCH(
     registerChange("update", `詳細URLを ${before} から ${after} に更新`);
   }
 
+  const formatDependsOn = (ids: string[] | undefined) =>
+    ids && ids.length > 0 ? ids.join(", ") : "なし";
+  if (
+    formatDependsOn(taskPayload.dependsOn) !==
+    formatDependsOn(existingTask.dependsOn)
+  ) {
+    registerChange(
+      "update",
+      `依存タスクを ${formatDependsOn(existingTask.dependsOn)} から ${formatDependsOn(taskPayload.dependsOn)} に変更`,
+    );
+  }
+
+  if (
+    formatTaskRecurrence(taskPayload.recurrence) !==
+    formatTaskRecurrence(existingTask.recurrence)
+  ) {
+    const describe = (recurrence: Task["recurrence"]) =>
+      recurrence ? describeTaskRecurrence(recurrence) : "なし";
+    registerChange(
+      "update",
+      `繰り返しを ${describe(existingTask.recurrence)} から ${describe(taskPayload.recurrence)} に変更`,
+    );
+  }
+
   if ((taskPayload.notes ?? "") !== (existingTask.notes ?? "")) {
-    registerChange("comment", "備考を更新しました。");
+    registerChange("update", "備考を更新しました。");
   }
 
   const updatedTask = await saveTask(taskPayload, { historyEvents });
 
+  await recordAuditLog({
+    actor: auditActorFromIdentity(identity),
+    context: getAuditRequestContext(request),
+    action: "task.update",
+    entityType: "task",
+    entityId: taskId,
+    before: existingTask,
+    after: updatedTask,
+  });
+  if (assigneeChanged) {
+    await notifyTaskAssigned(updatedTask, identity);
+  }
+  // 定期タスクを完了にしたら次回分を作る。失敗しても更新自体は成功として返す
+  if (statusChanged && updatedTask.status === "完了") {
+    try {
+      await createNextOccurrence(
+        updatedTask,
+        tasks.map((task) => (task.taskId === taskId ? updatedTask : task)),
+        getAuditRequestContext(request),
+        updatedTask.doneDate?.slice(0, 10),
+      );
+    } catch (error) {
+      console.error("tasks.recurrence.generate.error", { taskId, error });
+    }
+  }
+
   return NextResponse.json({ data: updatedTask });
 }
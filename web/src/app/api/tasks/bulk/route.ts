@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  listTasks,
+  saveTasksInBulk,
+} from "@/server/repositories/tasks-repository";
+import { requireRole } from "@/server/authorization";
+import { resolveTaskEditor } from "@/server/session-user";
+import {
+  auditActorFromIdentity,
+  getAuditRequestContext,
+  recordAuditLogs,
+} from "@/server/audit-log";
+import { notifyTaskAssigned } from "@/server/notifications";
+import { createNextOccurrence } from "@/server/task-recurrence";
+import { applyTaskBulkAction } from "@/lib/task-bulk";
+import {
+  canEditTask,
+  TASK_EDIT_FORBIDDEN_MESSAGE,
+} from "@/lib/task-permissions";
+import { taskBulkSchema } from "@/validation";
+import type { Task, TaskBulkResult } from "@/types";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(request: NextRequest) {
+  const guard = await requireRole("member");
+  if (!guard.ok) {
+    return guard.response;
+  }
+  const { session, identity } = guard;
+  const editor = resolveTaskEditor(session.user);
+
+  const parsed = taskBulkSchema.safeParse(
+    await request.json().catch(() => null),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "一括操作の内容が不正です" },
+      { status: 400 },
+    );
+  }
+  const { taskIds, action } = parsed.data;
+
+  const tasks = await listTasks();
+  const tasksById = new Map(tasks.map((task) => [task.taskId, task]));
+
+  // 検証で弾いたものと変更のないものは書き込まずに結果だけ返す
+  const resultById = new Map<string, TaskBulkResult>();
+  const updates: Parameters<typeof saveTasksInBulk>[0] = [];
+  for (const taskId of taskIds) {
+    const task = tasksById.get(taskId);
+    if (!task) {
+      resultById.set(taskId, { taskId, ok: false, error: "Task not found" });
+      continue;
+    }
+    if (!canEditTask(editor, task)) {
+      resultById.set(taskId, {
+        taskId,
+        ok: false,
+        error: TASK_EDIT_FORBIDDEN_MESSAGE,
+      });
+      continue;
+    }
+    const change = applyTaskBulkAction(task, action);
+    if (!change.ok) {
+      resultById.set(taskId, { taskId, ok: false, error: change.error });
+      continue;
+    }
+    if (change.changes.length === 0) {
+      resultById.set(taskId, { taskId, ok: true });
+      continue;
+    }
+    updates.push({
+      task: change.task,
+      targetSheetTitle: change.targetSheetTitle,
+      historyEvent: {
+        type: action.type === "status" ? "status_change" : "update",
+        details: change.changes.join("、"),
+        actorId: identity.userSlug,
+        actorName: identity.userName,
+      },
+    });
+  }
+
+  let savedTasks: Task[] = [];
+  if (updates.length > 0) {
+    try {
+      const saveResults = await saveTasksInBulk(updates);
+      saveResults.forEach((result) => {
+        resultById.set(
+          result.taskId,
+          result.ok
+            ? { taskId: result.taskId, ok: true }
+            : { taskId: result.taskId, ok: false, error: result.error },
+        );
+      });
+      savedTasks = saveResults.flatMap((result) =>
+        result.ok ? [result.task] : [],
+      );
+    } catch (error) {
+      // batchUpdate は全件まとめて失敗するので、書き込み対象すべてを失敗として返す
+      console.error("tasks.bulk.save.error", { error });
+      updates.forEach(({ task }) => {
+        resultById.set(task.taskId, {
+          taskId: task.taskId,
+          ok: false,
+          error: "シートへの書き込みに失敗しました",
+        });
+      });
+    }
+  }
+
+  const auditContext = getAuditRequestContext(request);
+  await recordAuditLogs(
+    savedTasks.map((task) => ({
+      actor: auditActorFromIdentity(identity),
+      context: auditContext,
+      action: "task.update" as const,
+      entityType: "task" as const,
+      entityId: task.taskId,
+      before: tasksById.get(task.taskId) ?? null,
+      after: task,
+    })),
+  );
+
+  if (action.type === "assignee") {
+    for (const task of savedTasks) {
+      await notifyTaskAssigned(task, identity);
+    }
+  }
+  // 個別更新と同じく、定期タスクを完了にしたら次回分を作る
+  if (action.type === "status" && action.status === "完了") {
+    const savedById = new Map(savedTasks.map((task) => [task.taskId, task]));
+    const latestTasks = tasks.map((task) => savedById.get(task.taskId) ?? task);
+    for (const task of savedTasks) {
+      try {
+        await createNextOccurrence(
+          task,
+          latestTasks,
+          auditContext,
+          task.doneDate?.slice(0, 10),
+        );
+      } catch (error) {
+        console.error("tasks.recurrence.generate.error", {
+          taskId: task.taskId,
+          error,
+        });
+      }
+    }
+  }
+
+  return NextResponse.json({
+    data: {
+      results: taskIds.map(
+        (taskId) =>
+          resultById.get(taskId) ?? {
+            taskId,
+            ok: false,
+            error: "処理できませんでした",
+          },
+      ),
+    },
+  });
+}
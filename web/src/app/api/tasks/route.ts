@@ -1,21 +1,79 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { listTasks, saveTask, TaskHistoryEventInput } from "@/server/repositories/tasks-repository";
-import { taskUpsertSchema } from "@/validation";
-import { auth } from "@/server/auth";
+import { taskListQuerySchema, taskUpsertSchema } from "@/validation";
+import { requireRole } from "@/server/authorization";
+import {
+  auditActorFromIdentity,
+  getAuditRequestContext,
+  recordAuditLog,
+} from "@/server/audit-log";
+import { notifyTaskAssigned } from "@/server/notifications";
+import { validateDependsOn } from "@/lib/task-dependencies";
+import { queryTasks } from "@/server/task-query";
+import { normalizeTodoLine } from "@/lib/daily-report-todos";
 
-export async function GET() {
-  const tasks = await listTasks();
-  return NextResponse.json({ data: tasks });
+export async function GET(request: NextRequest) {
+  const parsed = taskListQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams),
+  );
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "検索条件が不正です" },
+      { status: 400 },
+    );
+  }
+
+  const result = await queryTasks(parsed.data);
+  return NextResponse.json({
+    data: result.items,
+    total: result.total,
+    nextCursor: result.nextCursor,
+  });
 }
 
 export async function POST(request: Request) {
-  const session = await auth();
-  if (!session?.user) {
-    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const guard = await requireRole("member");
+  if (!guard.ok) {
+    return guard.response;
   }
+  const { session, identity } = guard;
 
   const body = await request.json();
   const payload = taskUpsertSchema.parse(body);
+
+  // 同じ日報の同じ行から二重にタスクを作らない
+  if (payload.sourceReportId && payload.sourceReportLine) {
+    const lineKey = normalizeTodoLine(payload.sourceReportLine);
+    const existing = (await listTasks()).find(
+      (task) =>
+        task.sourceReportId === payload.sourceReportId &&
+        normalizeTodoLine(task.sourceReportLine ?? "") === lineKey,
+    );
+    if (existing) {
+      return NextResponse.json(
+        { error: "この行はすでにタスクになっています", current: existing },
+        { status: 409 },
+      );
+    }
+  }
+
+  let dependsOn: string[] = [];
+  if (payload.dependsOn?.length) {
+    // 新規タスクはまだ誰からも依存されていないため、ここでは存在確認が主になる
+    const dependencyCheck = validateDependsOn(
+      await listTasks(),
+      payload.taskId ?? "",
+      payload.dependsOn,
+    );
+    if (!dependencyCheck.ok) {
+      return NextResponse.json(
+        { error: dependencyCheck.error },
+        { status: 400 },
+      );
+    }
+    dependsOn = dependencyCheck.dependsOn;
+  }
+
   const sanitizedPayload = {
     ...payload,
     projectName: payload.projectName.trim(),
@@ -26,6 +84,8 @@ export async function POST(request: Request) {
     startDate: payload.startDate?.trim() || undefined,
     dueDate: payload.dueDate?.trim() || undefined,
     doneDate: payload.doneDate?.trim() || undefined,
+    dependsOn,
+    recurrence: payload.recurrence ?? undefined,
   };
   const actorId =
     session.user.id ??
@@ -42,10 +102,23 @@ export async function POST(request: Request) {
     type: "update",
     actorId,
     actorName,
-    details: "タスクを登録しました。",
+    details: payload.sourceReportId
+      ? `デイリーレポート（${payload.sourceReportId}）の「明日やるべきこと」からタスクを登録しました。`
+      : "タスクを登録しました。",
   };
 
   const task = await saveTask(sanitizedPayload, { historyEvents: [historyEvent] });
 
+  await recordAuditLog({
+    actor: auditActorFromIdentity(identity),
+    context: getAuditRequestContext(request),
+    action: "task.create",
+    entityType: "task",
+    entityId: task.taskId,
+    before: null,
+    after: task,
+  });
+  await notifyTaskAssigned(task, identity);
+
   return NextResponse.json({ data: task }, { status: 201 });
 }
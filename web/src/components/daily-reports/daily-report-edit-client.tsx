@@ -0,0 +1,152 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import type { ChangeEvent, FormEvent } from "react";
+import type { DailyReport } from "@/types";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  DailyReportFormFields,
+  toDailyReportFormState,
+  toDailyReportPayload,
+  type DailyReportFormState,
+} from "@/components/daily-reports/daily-report-form-fields";
+
+interface DailyReportEditClientProps {
+  report: DailyReport;
+}
+
+export const DailyReportEditClient = ({
+  report,
+}: DailyReportEditClientProps) => {
+  const router = useRouter();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [statusType, setStatusType] = useState<"idle" | "success" | "error">(
+    "idle",
+  );
+  const [formState, setFormState] = useState<DailyReportFormState>(() =>
+    toDailyReportFormState(report),
+  );
+
+  const handleChange = (
+    event: ChangeEvent<HTMLTextAreaElement | HTMLInputElement>,
+  ) => {
+    const { name, value } = event.target;
+    setFormState((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleCancel = () => {
+    setFormState(toDailyReportFormState(report));
+    setIsEditing(false);
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setStatusMessage(null);
+    setStatusType("idle");
+
+    startTransition(async () => {
+      try {
+        const response = await fetch(
+          `/api/daily-reports/${encodeURIComponent(report.reportId)}`,
+          {
+            method: "PUT",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify(toDailyReportPayload(formState)),
+          },
+        );
+
+        const result = await response.json().catch(() => ({}));
+        if (!response.ok) {
+          throw new Error(
+            typeof result?.error === "string"
+              ? result.error
+              : "日報の更新に失敗しました",
+          );
+        }
+
+        const slack = result?.slack as { ok: boolean; error?: string } | null;
+        if (slack && !slack.ok) {
+          setStatusMessage(
+            `日報を更新しましたが、Slackの投稿は更新できませんでした（${slack.error ?? "unknown"}）。`,
+          );
+          setStatusType("error");
+        } else {
+          setStatusMessage(
+            slack
+              ? "日報を更新し、Slackの投稿も書き換えました。"
+              : "日報を更新しました。",
+          );
+          setStatusType("success");
+        }
+        setIsEditing(false);
+        router.refresh();
+      } catch (error) {
+        console.error("daily-reports.edit.submit.error", error);
+        setStatusMessage((error as Error).message);
+        setStatusType("error");
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-sm font-semibold text-[#ad7a46]">日報を編集</h2>
+            <p className="text-xs text-[#7f6b5a]">
+              保存するとシートを更新し、Slackに投稿済みの場合はそのメッセージも書き換えます。
+            </p>
+          </div>
+          {!isEditing && (
+            <Button
+              type="button"
+              variant="secondary"
+              onClick={() => setIsEditing(true)}
+            >
+              編集する
+            </Button>
+          )}
+        </div>
+
+        {isEditing && (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <DailyReportFormFields
+              formState={formState}
+              onChange={handleChange}
+            />
+            <div className="flex items-center gap-4">
+              <Button type="submit" disabled={isPending}>
+                {isPending ? "保存中..." : "変更を保存"}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={handleCancel}
+                disabled={isPending}
+              >
+                キャンセル
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {statusMessage && (
+          <p
+            className={`text-sm ${
+              statusType === "success" ? "text-emerald-600" : "text-rose-600"
+            }`}
+          >
+            {statusMessage}
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+};
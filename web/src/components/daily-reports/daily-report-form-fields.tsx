@@ -0,0 +1,154 @@
+"use client";
+
+import type { ChangeEvent } from "react";
+import type { DailyReport } from "@/types";
+
+export type DailyReportFormState = {
+  satisfactionToday: string;
+  doneToday: string;
+  goodMoreBackground: string;
+  moreNext: string;
+  todoTomorrow: string;
+  wishTomorrow: string;
+  personalNews: string;
+  tags: string;
+};
+
+export const EMPTY_DAILY_REPORT_FORM: DailyReportFormState = {
+  satisfactionToday: "",
+  doneToday: "",
+  goodMoreBackground: "",
+  moreNext: "",
+  todoTomorrow: "",
+  wishTomorrow: "",
+  personalNews: "",
+  tags: "",
+};
+
+export const toDailyReportFormState = (
+  report: DailyReport,
+): DailyReportFormState => ({
+  satisfactionToday: report.satisfactionToday,
+  doneToday: report.doneToday,
+  goodMoreBackground: report.goodMoreBackground,
+  moreNext: report.moreNext,
+  todoTomorrow: report.todoTomorrow,
+  wishTomorrow: report.wishTomorrow,
+  personalNews: report.personalNews,
+  tags: report.tags.map((tag) => `#${tag}`).join(" "),
+});
+
+export const toDailyReportPayload = (formState: DailyReportFormState) => ({
+  satisfactionToday: formState.satisfactionToday,
+  doneToday: formState.doneToday,
+  goodMoreBackground: formState.goodMoreBackground,
+  moreNext: formState.moreNext,
+  todoTomorrow: formState.todoTomorrow,
+  wishTomorrow: formState.wishTomorrow,
+  personalNews: formState.personalNews,
+  tags: formState.tags
+    .split(" ")
+    .map((tag) => tag.replace(/^#/, "").trim())
+    .filter(Boolean),
+});
+
+interface DailyReportFormFieldsProps {
+  formState: DailyReportFormState;
+  onChange: (
+    event: ChangeEvent<HTMLTextAreaElement | HTMLInputElement>,
+  ) => void;
+}
+
+export const DailyReportFormFields = ({
+  formState,
+  onChange,
+}: DailyReportFormFieldsProps) => (
+  <div className="grid gap-4 md:grid-cols-2">
+    <TextareaField
+      id="satisfactionToday"
+      label="昨日の3,4,5を踏まえて今日の満足度"
+      value={formState.satisfactionToday}
+      onChange={onChange}
+    />
+    <TextareaField
+      id="doneToday"
+      label="今日やったこと（Done）"
+      value={formState.doneToday}
+      onChange={onChange}
+      required
+    />
+    <TextareaField
+      id="goodMoreBackground"
+      label="今日のGood / More とその背景"
+      value={formState.goodMoreBackground}
+      onChange={onChange}
+    />
+    <TextareaField
+      id="moreNext"
+      label="今日のMore Next"
+      value={formState.moreNext}
+      onChange={onChange}
+    />
+    <TextareaField
+      id="todoTomorrow"
+      label="明日やるべきこと（タスク）"
+      value={formState.todoTomorrow}
+      onChange={onChange}
+    />
+    <TextareaField
+      id="wishTomorrow"
+      label="明日やりたいこと（非タスク）"
+      value={formState.wishTomorrow}
+      onChange={onChange}
+    />
+    <TextareaField
+      id="personalNews"
+      label="個人的ニュース"
+      value={formState.personalNews}
+      onChange={onChange}
+    />
+    <div className="flex flex-col gap-1 text-sm">
+      <label className="text-xs font-medium text-[#ad7a46]" htmlFor="tags">
+        タグ（スペース区切り）
+      </label>
+      <input
+        id="tags"
+        name="tags"
+        type="text"
+        value={formState.tags}
+        onChange={onChange}
+        placeholder="#sales #cs"
+        className="rounded-xl border border-[#ead8c4] bg-white px-3 py-2 text-[#3d3128] shadow-inner focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]"
+      />
+    </div>
+  </div>
+);
+
+const TextareaField = ({
+  id,
+  label,
+  value,
+  onChange,
+  required,
+}: {
+  id: string;
+  label: string;
+  value: string;
+  onChange: (event: ChangeEvent<HTMLTextAreaElement | HTMLInputElement>) => void;
+  required?: boolean;
+}) => (
+  <div className="flex flex-col gap-1 text-sm">
+    <label className="text-xs font-medium text-[#ad7a46]" htmlFor={id}>
+      {label}
+    </label>
+    <textarea
+      id={id}
+      name={id}
+      value={value}
+      onChange={onChange}
+      rows={5}
+      required={required}
+      className="rounded-xl border border-[#ead8c4] bg-white px-3 py-2 text-[#3d3128] shadow-inner focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]"
+    />
+  </div>
+);
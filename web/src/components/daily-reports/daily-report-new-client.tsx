@@ -0,0 +1,302 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { ChangeEvent, FormEvent } from "react";
+import type { Session } from "next-auth";
+import type { DailyReport, DailyReportTodoItem } from "@/types";
+import {
+  getDailyReportDateRange,
+  getReportWeekdayCode,
+  reportDateBy29hRule,
+} from "@/lib/time";
+import { hasRole } from "@/lib/roles";
+import { Button } from "@/components/ui/button";
+import {
+  DailyReportFormFields,
+  EMPTY_DAILY_REPORT_FORM,
+  toDailyReportPayload,
+  type DailyReportFormState,
+} from "@/components/daily-reports/daily-report-form-fields";
+import { DailyReportTodoTasks } from "@/components/daily-reports/daily-report-todo-tasks";
+
+type PostedTodos = {
+  report: DailyReport;
+  items: DailyReportTodoItem[];
+};
+
+type AutoMeta = {
+  date: string;
+  weekday: string;
+  name: string;
+  email: string;
+  slackUserId?: string;
+  slackTeamId?: string;
+  channelId: string;
+};
+
+interface DailyReportNewClientProps {
+  // 何日前までさかのぼって提出できるか（DR_BACKFILL_WINDOW_DAYS）
+  backfillWindowDays: number;
+}
+
+export const DailyReportNewClient = ({
+  backfillWindowDays,
+}: DailyReportNewClientProps) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [status, setStatus] = useState<"idle" | "success" | "error">("idle");
+  // 投稿直後に「明日やるべきこと」をタスクにできるよう、行の一覧を取っておく
+  const [postedTodos, setPostedTodos] = useState<PostedTodos | null>(null);
+
+  const [formState, setFormState] = useState<DailyReportFormState>(
+    EMPTY_DAILY_REPORT_FORM,
+  );
+
+  useEffect(() => {
+    let isMounted = true;
+    const loadSession = async () => {
+      try {
+        const response = await fetch("/api/auth/session", { cache: "no-store" });
+        const data = response.ok ? await response.json() : null;
+        if (isMounted) {
+          setSession(data);
+        }
+      } catch (error) {
+        console.error("daily-reports.session.fetch.error", error);
+      } finally {
+        if (isMounted) {
+          setLoading(false);
+        }
+      }
+    };
+    loadSession();
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  const dateRange = useMemo(
+    () => getDailyReportDateRange(new Date(), undefined, backfillWindowDays),
+    [backfillWindowDays],
+  );
+  const [selectedDate, setSelectedDate] = useState(dateRange.maxDateISO);
+
+  const currentDate = useMemo(() => {
+    const { dateISO, isPreviousDay } = reportDateBy29hRule();
+    const iso = selectedDate || dateISO;
+    const weekday = getReportWeekdayCode(iso);
+    return {
+      iso,
+      weekday,
+      isPreviousDay: isPreviousDay && iso === dateISO,
+      isBackfill: iso !== dateISO,
+    };
+  }, [selectedDate]);
+
+  const autoMeta = useMemo<AutoMeta>(() => {
+    const slackUserId =
+      typeof session?.user?.slackUserId === "string"
+        ? session.user.slackUserId
+        : undefined;
+    const slackTeamId =
+      typeof session?.user?.slackTeamId === "string"
+        ? session.user.slackTeamId
+        : undefined;
+
+    return {
+      date: currentDate.iso,
+      weekday: currentDate.weekday,
+      name: session?.user?.name ?? "",
+      email: session?.user?.email ?? "",
+      slackUserId,
+      slackTeamId,
+      channelId: "C0957N7D0MP",
+    };
+  }, [session, currentDate]);
+
+  const handleChange = (event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = event.target;
+    setFormState((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setMessage(null);
+    setStatus("idle");
+    setPostedTodos(null);
+
+    try {
+      const response = await fetch("/api/daily-reports", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...toDailyReportPayload(formState),
+          date: currentDate.iso,
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        const errorMessage = result?.error || "送信に失敗しました";
+        throw new Error(errorMessage);
+      }
+
+      setMessage("デイリーレポートを送信しました。Slack投稿はサーバ側で実行されます。");
+      setStatus("success");
+      setFormState(EMPTY_DAILY_REPORT_FORM);
+      setSelectedDate(dateRange.maxDateISO);
+
+      const report: DailyReport = result.data;
+      try {
+        const todosResponse = await fetch(
+          `/api/daily-reports/${encodeURIComponent(report.reportId)}/todos`,
+          { cache: "no-store" },
+        );
+        const todos = todosResponse.ok ? await todosResponse.json() : null;
+        if (todos?.data?.length) {
+          setPostedTodos({ report, items: todos.data });
+        }
+      } catch (error) {
+        // 日報の送信自体は成功しているので、タスク化の案内を出さないだけにする
+        console.error("daily-reports.todos.fetch.error", error);
+      }
+    } catch (error) {
+      console.error("daily-reports.submit.error", error);
+      setMessage((error as Error).message);
+      setStatus("error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="space-y-6">セッション情報を取得しています…</div>;
+  }
+
+  if (session && !hasRole(session.user?.role, "member")) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-2xl font-semibold text-[#3d3128]">デイリーレポートを投稿</h1>
+        <p className="rounded-2xl border border-[#ead8c4] bg-[#fffaf5] px-4 py-3 text-sm text-[#7f6b5a]">
+          閲覧者はデイリーレポートを投稿できません。必要な場合は管理者にロールの変更を依頼してください。
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-semibold text-[#3d3128]">デイリーレポートを投稿</h1>
+        <p className="mt-1 text-sm text-[#7f6b5a]">
+          Slackへ本人として投稿し、Google Sheetsに保存されます。文章項目のみ入力してください。
+        </p>
+      </div>
+
+      <section className="rounded-2xl border border-[#ead8c4] bg-[#fffaf5] px-6 py-5 shadow-[0_12px_30px_-24px_rgba(173,122,70,0.65)]">
+        <h2 className="text-sm font-semibold text-[#ad7a46]">自動取得メタ情報（送信されません）</h2>
+        <dl className="mt-3 grid gap-4 text-sm text-[#5b4c40] md:grid-cols-2">
+          <div>
+            <dt className="font-medium text-[#7f6b5a]">対象日</dt>
+            <dd>
+              {autoMeta.date}
+              {currentDate.isPreviousDay ? "（前日扱い）" : ""}
+              {currentDate.isBackfill ? "（後から提出）" : ""}
+            </dd>
+          </div>
+          <div>
+            <dt className="font-medium text-[#7f6b5a]">曜日</dt>
+            <dd>{autoMeta.weekday}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-[#7f6b5a]">ユーザー名</dt>
+            <dd>{autoMeta.name || "-"}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-[#7f6b5a]">メールアドレス</dt>
+            <dd>{autoMeta.email || "-"}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-[#7f6b5a]">Slack ユーザーID</dt>
+            <dd>{autoMeta.slackUserId ?? "-"}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-[#7f6b5a]">Slack チームID</dt>
+            <dd>{autoMeta.slackTeamId ?? "-"}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-[#7f6b5a]">投稿チャンネル</dt>
+            <dd>{autoMeta.channelId}</dd>
+          </div>
+        </dl>
+      </section>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="flex flex-col gap-1 text-sm md:w-64">
+          <label className="text-xs font-medium text-[#ad7a46]" htmlFor="date">
+            対象日（過去{backfillWindowDays}日までさかのぼれます）
+          </label>
+          <input
+            id="date"
+            name="date"
+            type="date"
+            value={selectedDate}
+            min={dateRange.minDateISO}
+            max={dateRange.maxDateISO}
+            onChange={(event) => setSelectedDate(event.target.value)}
+            required
+            className="rounded-xl border border-[#ead8c4] bg-white px-3 py-2 text-[#3d3128] shadow-inner focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]"
+          />
+          {currentDate.isBackfill && (
+            <p className="text-xs text-[#c04747]">
+              {currentDate.iso} 分として後から提出します。Slackにも遅れて提出した旨が表示されます。
+            </p>
+          )}
+        </div>
+
+        <DailyReportFormFields formState={formState} onChange={handleChange} />
+
+        <div className="flex items-center gap-4">
+          <Button type="submit" disabled={submitting}>
+            {submitting ? "送信中..." : "Slackへ投稿して保存"}
+          </Button>
+          {message && (
+            <span
+              className={`text-sm ${
+                status === "success" ? "text-emerald-600" : "text-rose-600"
+              }`}
+            >
+              {message}
+            </span>
+          )}
+        </div>
+      </form>
+
+      {postedTodos && (
+        <section className="space-y-3 rounded-2xl border border-[#ead8c4] bg-[#fffaf5] px-6 py-5">
+          <div>
+            <h2 className="text-sm font-semibold text-[#ad7a46]">
+              明日やるべきことをタスクにする
+            </h2>
+            <p className="mt-1 text-xs text-[#7f6b5a]">
+              送信した日報の各行をそのままタスクとして登録できます。後から日報の詳細画面でも登録できます。
+            </p>
+          </div>
+          <DailyReportTodoTasks
+            key={postedTodos.report.reportId}
+            reportId={postedTodos.report.reportId}
+            assigneeName={postedTodos.report.userName}
+            initialItems={postedTodos.items}
+            canCreate
+          />
+        </section>
+      )}
+    </div>
+  );
+};
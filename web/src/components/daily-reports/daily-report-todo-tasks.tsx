@@ -0,0 +1,210 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import type {
+  DailyReportTodoItem,
+  DailyReportTodoSuggestion,
+  Task,
+} from "@/types";
+
+interface DailyReportTodoTasksProps {
+  reportId: string;
+  // タスクの担当者（日報の投稿者）
+  assigneeName: string;
+  initialItems: DailyReportTodoItem[];
+  canCreate?: boolean;
+}
+
+const PRIORITY_OPTIONS: Task["priority"][] = ["高", "中", "低"];
+
+const inputClass =
+  "rounded-xl border border-[#ead8c4] bg-white px-3 py-1.5 text-xs text-[#3d3128] shadow-inner focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]";
+
+export const DailyReportTodoTasks = ({
+  reportId,
+  assigneeName,
+  initialItems,
+  canCreate = false,
+}: DailyReportTodoTasksProps) => {
+  const [items, setItems] = useState<DailyReportTodoItem[]>(initialItems);
+  const [drafts, setDrafts] = useState<DailyReportTodoSuggestion[]>(() =>
+    initialItems.map((item) => item.suggestion),
+  );
+  const [savingIndex, setSavingIndex] = useState<number | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const updateDraft = (
+    index: number,
+    changes: Partial<DailyReportTodoSuggestion>,
+  ) => {
+    setDrafts((prev) =>
+      prev.map((draft, current) =>
+        current === index ? { ...draft, ...changes } : draft,
+      ),
+    );
+  };
+
+  const handleCreate = async (index: number) => {
+    const item = items[index];
+    const draft = drafts[index];
+    if (!item || !draft || !draft.title.trim() || !draft.projectName.trim()) {
+      return;
+    }
+    setSavingIndex(index);
+    setErrorMessage(null);
+
+    try {
+      const response = await fetch("/api/tasks", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          projectName: draft.projectName.trim(),
+          title: draft.title.trim(),
+          assigneeName,
+          status: "未着手",
+          priority: draft.priority,
+          dueDate: draft.dueDate || undefined,
+          sourceReportId: reportId,
+          sourceReportLine: item.line,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      // 別の画面で先に作られていた場合も、そのタスクに紐づけて表示する
+      const task: Task | undefined =
+        response.status === 409 ? data.current : data.data;
+      if (!task || (!response.ok && response.status !== 409)) {
+        setErrorMessage(
+          typeof data.error === "string"
+            ? data.error
+            : "タスクを作成できませんでした。",
+        );
+        return;
+      }
+      setItems((prev) =>
+        prev.map((current, currentIndex) =>
+          currentIndex === index
+            ? {
+                ...current,
+                task: {
+                  taskId: task.taskId,
+                  title: task.title,
+                  status: task.status,
+                },
+              }
+            : current,
+        ),
+      );
+    } catch (error) {
+      console.error("daily-reports.todo.create.error", error);
+      setErrorMessage("タスクを作成できませんでした。");
+    } finally {
+      setSavingIndex(null);
+    }
+  };
+
+  if (items.length === 0) {
+    return (
+      <p className="text-xs text-[#b59b85]">
+        「明日やるべきこと」に行がありません。
+      </p>
+    );
+  }
+
+  const createdCount = items.filter((item) => item.task).length;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <p className="text-xs text-[#7f6b5a]">
+        {items.length}行中 {createdCount}行がタスクになっています。
+      </p>
+      <ul className="space-y-2">
+        {items.map((item, index) => {
+          const draft = drafts[index] ?? item.suggestion;
+          return (
+            <li
+              key={`${index}-${item.line}`}
+              className="space-y-2 rounded-xl border border-[#ead8c4] bg-white px-3 py-2"
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-[#3d3128]">{item.line}</span>
+                {item.task && (
+                  <span className="flex items-center gap-2 text-xs">
+                    <span className="inline-flex rounded-full bg-[#fff0de] px-3 py-1 font-semibold text-[#ad7a46]">
+                      {item.task.status}
+                    </span>
+                    <Link
+                      href={`/tasks/${item.task.taskId}`}
+                      className="font-semibold text-[#ad7a46] underline-offset-4 hover:underline"
+                    >
+                      タスクを開く
+                    </Link>
+                  </span>
+                )}
+              </div>
+              {!item.task && canCreate && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    aria-label="タスク名"
+                    value={draft.title}
+                    onChange={(event) =>
+                      updateDraft(index, { title: event.target.value })
+                    }
+                    className={`${inputClass} min-w-[200px] flex-1`}
+                  />
+                  <input
+                    aria-label="プロジェクト"
+                    value={draft.projectName}
+                    onChange={(event) =>
+                      updateDraft(index, { projectName: event.target.value })
+                    }
+                    placeholder="プロジェクト（必須）"
+                    className={`${inputClass} w-40`}
+                  />
+                  <select
+                    aria-label="優先度"
+                    value={draft.priority}
+                    onChange={(event) =>
+                      updateDraft(index, {
+                        priority: event.target.value as Task["priority"],
+                      })
+                    }
+                    className={inputClass}
+                  >
+                    {PRIORITY_OPTIONS.map((priority) => (
+                      <option key={priority} value={priority}>
+                        {priority}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="date"
+                    aria-label="期限"
+                    value={draft.dueDate}
+                    onChange={(event) =>
+                      updateDraft(index, { dueDate: event.target.value })
+                    }
+                    className={inputClass}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleCreate(index)}
+                    disabled={
+                      savingIndex !== null ||
+                      !draft.title.trim() ||
+                      !draft.projectName.trim()
+                    }
+                    className="rounded-full bg-[#ad7a46] px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-[#94663a] disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    {savingIndex === index ? "作成中..." : "タスクにする"}
+                  </button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {errorMessage && <p className="text-xs text-rose-600">{errorMessage}</p>}
+    </div>
+  );
+};
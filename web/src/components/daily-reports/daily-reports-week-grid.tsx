@@ -0,0 +1,191 @@
+import Link from "next/link";
+import {
+  DEPARTMENT_OF_USER,
+  resolveDepartment,
+  resolveUserSlug,
+} from "@/config/departments";
+import { getReportWeekdayCode } from "@/lib/time";
+import type { DailyReport } from "@/types";
+
+const WEEKDAY_LABEL: Record<DailyReport["weekday"], string> = {
+  Mon: "月",
+  Tue: "火",
+  Wed: "水",
+  Thu: "木",
+  Fri: "金",
+  Sat: "土",
+  Sun: "日",
+};
+
+type DailyReportsWeekGridProps = {
+  reports: DailyReport[];
+  weekDates: string[]; // 月〜日の YYYY-MM-DD
+  today: string; // 29時ルール上の今日
+};
+
+type MemberRow = {
+  userSlug: string;
+  userName: string;
+  department: string;
+  reportsByDate: Map<string, DailyReport>;
+};
+
+const isWeekend = (weekday: DailyReport["weekday"]) =>
+  weekday === "Sat" || weekday === "Sun";
+
+const buildMemberRows = (reports: DailyReport[]): MemberRow[] => {
+  const rows = new Map<string, MemberRow>();
+  const ensureRow = (userSlug: string, userName?: string) => {
+    const existing = rows.get(userSlug);
+    if (existing) {
+      if (userName && existing.userName === userSlug) {
+        existing.userName = userName;
+      }
+      return existing;
+    }
+    const row: MemberRow = {
+      userSlug,
+      userName: userName || userSlug,
+      department: DEPARTMENT_OF_USER[userSlug] ?? "Unassigned",
+      reportsByDate: new Map(),
+    };
+    rows.set(userSlug, row);
+    return row;
+  };
+
+  // 名簿のメンバーは提出がなくても行を出す（未提出を見落とさないため）
+  Object.keys(DEPARTMENT_OF_USER).forEach((userSlug) => ensureRow(userSlug));
+
+  reports.forEach((report) => {
+    const identity = {
+      userSlug: report.userSlug,
+      slackUserId: report.slackUserId,
+      email: report.email,
+    };
+    const userSlug = resolveUserSlug(identity) ?? report.userSlug;
+    const row = ensureRow(userSlug, report.userName);
+    row.department = resolveDepartment(identity) ?? row.department;
+    row.reportsByDate.set(report.date, report);
+  });
+
+  return Array.from(rows.values()).sort(
+    (a, b) =>
+      a.department.localeCompare(b.department) ||
+      a.userSlug.localeCompare(b.userSlug),
+  );
+};
+
+const extractScore = (value: string): string | null => {
+  const match = value.match(/-?\d+(?:\.\d+)?/);
+  return match ? match[0] : null;
+};
+
+export const DailyReportsWeekGrid = ({
+  reports,
+  weekDates,
+  today,
+}: DailyReportsWeekGridProps) => {
+  const members = buildMemberRows(reports);
+  const columns = weekDates.map((date) => {
+    const weekday = getReportWeekdayCode(date);
+    return { date, weekday, weekend: isWeekend(weekday) };
+  });
+  // 未提出として数えるのは今日までの平日のみ
+  const expectedDates = columns
+    .filter((column) => !column.weekend && column.date <= today)
+    .map((column) => column.date);
+
+  return (
+    <div className="overflow-x-auto rounded-xl border border-dashed border-[#ead8c4] bg-[#fffaf5]">
+      <table className="min-w-full divide-y divide-[#ead8c4] text-sm">
+        <thead className="bg-[#f9efe3] text-xs text-[#ad7a46]">
+          <tr>
+            <th className="px-4 py-3 text-left font-semibold">メンバー</th>
+            {columns.map((column) => (
+              <th
+                key={column.date}
+                className={[
+                  "px-2 py-3 text-center font-semibold",
+                  column.date === today ? "bg-[#f1e6d8]" : "",
+                  column.weekend ? "text-[#b59b85]" : "",
+                ].join(" ")}
+              >
+                <Link
+                  href={`/daily-reports/date/${column.date}`}
+                  className="underline-offset-4 hover:underline"
+                >
+                  <div>{WEEKDAY_LABEL[column.weekday]}</div>
+                  <div className="text-[11px] font-normal">
+                    {column.date.slice(5)}
+                  </div>
+                </Link>
+              </th>
+            ))}
+            <th className="px-4 py-3 text-right font-semibold">提出</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-[#f1e6d8] bg-[#fffdf9] text-[#5b4c40]">
+          {members.map((member) => {
+            const missedCount = expectedDates.filter(
+              (date) => !member.reportsByDate.has(date),
+            ).length;
+            return (
+              <tr key={member.userSlug}>
+                <td className="px-4 py-2">
+                  <div className="font-medium text-[#3d3128]">
+                    {member.userName}
+                  </div>
+                  <div className="text-[11px] text-[#b59b85]">
+                    {member.department}
+                  </div>
+                </td>
+                {columns.map((column) => {
+                  const report = member.reportsByDate.get(column.date);
+                  if (report) {
+                    const score = extractScore(report.satisfactionToday);
+                    return (
+                      <td key={column.date} className="px-2 py-2 text-center">
+                        <Link
+                          href={`/daily-reports/${report.reportId}`}
+                          title={`${member.userName} ${column.date}`}
+                          className="inline-flex min-w-[2.5rem] items-center justify-center rounded-full bg-[#f3fbf5] px-2 py-1 text-xs font-semibold text-[#1d9a57] hover:bg-[#e3f5e8]"
+                        >
+                          {score ?? "✓"}
+                        </Link>
+                      </td>
+                    );
+                  }
+                  const missed =
+                    !column.weekend && column.date <= today;
+                  return (
+                    <td key={column.date} className="px-2 py-2 text-center">
+                      <span
+                        title={missed ? "未提出" : undefined}
+                        className={[
+                          "inline-flex min-w-[2.5rem] items-center justify-center rounded-full px-2 py-1 text-xs",
+                          missed
+                            ? "bg-[#fbe8e6] font-semibold text-[#c04747]"
+                            : "text-[#d8c7b5]",
+                        ].join(" ")}
+                      >
+                        {missed ? "未" : "—"}
+                      </span>
+                    </td>
+                  );
+                })}
+                <td
+                  className={[
+                    "px-4 py-2 text-right text-xs font-semibold",
+                    missedCount > 0 ? "text-[#c04747]" : "text-[#7f6b5a]",
+                  ].join(" ")}
+                >
+                  {expectedDates.length - missedCount} / {expectedDates.length}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
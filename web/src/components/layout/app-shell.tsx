@@ -2,14 +2,19 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
+import { useSession } from "next-auth/react";
 import { ReactNode, useEffect, useState } from "react";
 import { APP_NAME } from "@/config/constants";
+import { hasRole, ROLE_LABELS } from "@/lib/roles";
+import type { UserRole } from "@/types";
+import { NotificationBell } from "@/components/layout/notification-bell";
 
-const NAV_ITEMS = [
+const NAV_ITEMS: Array<{ href: string; label: string; minRole?: UserRole }> = [
   { href: "/dashboard", label: "ダッシュボード" },
   { href: "/daily-reports", label: "デイリーレポート" },
-  { href: "/daily-reports/new", label: "DR投稿" },
+  { href: "/daily-reports/new", label: "DR投稿", minRole: "member" },
   { href: "/tasks", label: "タスク" },
+  { href: "/audit-log", label: "監査ログ", minRole: "admin" },
   { href: "/settings", label: "設定" },
 ];
 
@@ -19,6 +24,8 @@ interface AppShellProps {
 
 export const AppShell = ({ children }: AppShellProps) => {
   const pathname = usePathname();
+  const { data: session } = useSession();
+  const role = session?.user?.role ?? "viewer";
   const [isMobileNavOpen, setIsMobileNavOpen] = useState(false);
 
   useEffect(() => {
@@ -26,7 +33,9 @@ export const AppShell = ({ children }: AppShellProps) => {
   }, [pathname]);
 
   const renderNavItems = () =>
-    NAV_ITEMS.map((item) => {
+    NAV_ITEMS.filter(
+      (item) => !item.minRole || hasRole(role, item.minRole),
+    ).map((item) => {
       const isActive =
         pathname === item.href || pathname.startsWith(`${item.href}/`);
       return (
@@ -112,9 +121,17 @@ export const AppShell = ({ children }: AppShellProps) => {
               <span>Asia/Taipei (UTC+8)</span>
             </div>
           </div>
-          <span className="rounded-full bg-[#f1e6d8] px-3 py-1 text-xs font-semibold text-[#ad7a46]">
-            β 開発中
-          </span>
+          <div className="flex items-center gap-2">
+            {session?.user && <NotificationBell pathname={pathname} />}
+            {session?.user && (
+              <span className="rounded-full border border-[#ead8c4] bg-white/80 px-3 py-1 text-xs font-semibold text-[#7f6b5a]">
+                {ROLE_LABELS[role]}
+              </span>
+            )}
+            <span className="rounded-full bg-[#f1e6d8] px-3 py-1 text-xs font-semibold text-[#ad7a46]">
+              β 開発中
+            </span>
+          </div>
         </header>
 
         <section className="relative flex-1 px-4 py-10 md:px-8">
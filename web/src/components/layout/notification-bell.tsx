@@ -0,0 +1,189 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { formatInTimeZone } from "date-fns-tz";
+import { DEFAULT_TIMEZONE } from "@/config/constants";
+import type { AppNotification, AppNotificationType } from "@/types";
+
+const POLL_INTERVAL_MS = 60_000;
+
+const TYPE_LABELS: Record<AppNotificationType, string> = {
+  task_deadline: "期限",
+  task_assigned: "担当",
+  comment_mention: "メンション",
+  dr_reminder: "DR",
+};
+
+const formatCreatedAt = (value: string): string => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? ""
+    : formatInTimeZone(date, DEFAULT_TIMEZONE, "MM/dd HH:mm");
+};
+
+interface NotificationBellProps {
+  pathname: string;
+}
+
+export const NotificationBell = ({ pathname }: NotificationBellProps) => {
+  const router = useRouter();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [items, setItems] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const [loadError, setLoadError] = useState(false);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const response = await fetch("/api/notifications?limit=20", {
+        cache: "no-store",
+      });
+      if (!response.ok) {
+        throw new Error(`status ${response.status}`);
+      }
+      const json = (await response.json()) as {
+        data: { items: AppNotification[]; unreadCount: number };
+      };
+      setItems(json.data.items);
+      setUnreadCount(json.data.unreadCount);
+      setLoadError(false);
+    } catch (error) {
+      console.error("notifications.bell.load.error", error);
+      setLoadError(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadNotifications();
+    const timer = window.setInterval(() => {
+      void loadNotifications();
+    }, POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [loadNotifications, pathname]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const markRead = async (body: { ids: string[] } | { all: true }) => {
+    const readAt = new Date().toISOString();
+    const ids = "ids" in body ? new Set(body.ids) : null;
+    setItems((prev) =>
+      prev.map((item) =>
+        !item.readAt && (!ids || ids.has(item.id)) ? { ...item, readAt } : item,
+      ),
+    );
+    setUnreadCount((prev) => (ids ? Math.max(prev - ids.size, 0) : 0));
+
+    try {
+      const response = await fetch("/api/notifications/read", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        throw new Error(`status ${response.status}`);
+      }
+    } catch (error) {
+      console.error("notifications.bell.mark_read.error", error);
+      void loadNotifications();
+    }
+  };
+
+  const handleSelect = (notification: AppNotification) => {
+    setIsOpen(false);
+    if (!notification.readAt) {
+      void markRead({ ids: [notification.id] });
+    }
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        className="relative inline-flex h-9 w-9 items-center justify-center rounded-full border border-[#ead8c4] bg-white/80 text-base shadow-sm transition-colors duration-200 hover:border-[#c89b6d]"
+        aria-label={`通知（未読 ${unreadCount} 件）`}
+        aria-expanded={isOpen}
+        onClick={() => setIsOpen((prev) => !prev)}
+      >
+        <span aria-hidden>🔔</span>
+        {unreadCount > 0 && (
+          <span className="absolute -right-1 -top-1 inline-flex min-w-[1.25rem] items-center justify-center rounded-full bg-[#c04747] px-1 text-[10px] font-semibold leading-5 text-white">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-50 mt-2 w-80 overflow-hidden rounded-2xl border border-[#ead8c4] bg-[#fffaf5] shadow-xl">
+          <div className="flex items-center justify-between border-b border-[#ead8c4] px-4 py-3">
+            <span className="text-sm font-semibold text-[#3d3128]">通知</span>
+            <button
+              type="button"
+              className="text-xs font-semibold text-[#ad7a46] disabled:text-[#b59b85]"
+              disabled={unreadCount === 0}
+              onClick={() => void markRead({ all: true })}
+            >
+              すべて既読にする
+            </button>
+          </div>
+          <ul className="max-h-96 divide-y divide-[#f1e6d8] overflow-y-auto">
+            {loadError && items.length === 0 ? (
+              <li className="px-4 py-6 text-center text-xs text-[#c04747]">
+                通知を取得できませんでした
+              </li>
+            ) : items.length === 0 ? (
+              <li className="px-4 py-6 text-center text-xs text-[#b59b85]">
+                通知はありません
+              </li>
+            ) : (
+              items.map((item) => (
+                <li key={item.id}>
+                  <button
+                    type="button"
+                    className={[
+                      "w-full px-4 py-3 text-left transition-colors duration-200 hover:bg-[#f9efe3]",
+                      item.readAt ? "opacity-70" : "bg-white",
+                    ].join(" ")}
+                    onClick={() => handleSelect(item)}
+                  >
+                    <div className="flex items-center gap-2 text-[11px] text-[#b59b85]">
+                      {!item.readAt && (
+                        <span className="inline-flex h-2 w-2 rounded-full bg-[#c89b6d]" />
+                      )}
+                      <span className="rounded-full bg-[#f1e6d8] px-2 py-0.5 font-semibold text-[#ad7a46]">
+                        {TYPE_LABELS[item.type] ?? "通知"}
+                      </span>
+                      <span>{formatCreatedAt(item.createdAt)}</span>
+                    </div>
+                    <p className="mt-1 text-sm font-semibold text-[#3d3128]">
+                      {item.title}
+                    </p>
+                    {item.body && (
+                      <p className="mt-0.5 line-clamp-2 text-xs text-[#7f6b5a]">
+                        {item.body}
+                      </p>
+                    )}
+                  </button>
+                </li>
+              ))
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+
+interface DrReminderPreferenceProps {
+  initialOptedOut: boolean;
+  sendTime: string;
+}
+
+export const DrReminderPreference = ({
+  initialOptedOut,
+  sendTime,
+}: DrReminderPreferenceProps) => {
+  const [optedOut, setOptedOut] = useState(initialOptedOut);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const handleChange = async (nextOptedOut: boolean) => {
+    setIsSaving(true);
+    setErrorMessage(null);
+    try {
+      const response = await fetch("/api/settings/dr-reminder", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ optedOut: nextOptedOut }),
+      });
+      if (!response.ok) {
+        const json = (await response.json().catch(() => null)) as {
+          error?: string;
+        } | null;
+        throw new Error(json?.error ?? "設定を保存できませんでした");
+      }
+      setOptedOut(nextOptedOut);
+    } catch (error) {
+      setErrorMessage(
+        error instanceof Error ? error.message : "設定を保存できませんでした",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-3 text-sm text-[#5b4c40]">
+        <input
+          type="checkbox"
+          className="h-4 w-4 accent-[#c89b6d]"
+          checked={!optedOut}
+          disabled={isSaving}
+          onChange={(event) => void handleChange(!event.target.checked)}
+        />
+        <span>
+          平日 {sendTime}（Asia/Taipei）までにDRがなければSlack DMでリマインドを受け取る
+        </span>
+      </label>
+      {errorMessage && (
+        <p className="text-xs text-[#c04747]">{errorMessage}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,333 @@
+"use client";
+
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import type { Task, TaskBulkResult } from "@/types";
+import type { TaskBulkAction } from "@/validation";
+import { TASK_BULK_ACTION_LABELS } from "@/lib/task-bulk";
+import { statusRequiresReason } from "@/lib/task-status";
+import { STATUS_ORDER } from "@/components/tasks/task-status-meta";
+
+type TaskBulkBarProps = {
+  selectedTaskIds: string[];
+  tasksById: Map<string, Task>;
+  assigneeOptions: string[];
+  tagOptions: string[];
+  sheetTitles: string[];
+  onClear: () => void;
+  // 失敗したタスクだけ選択を残す
+  onComplete: (failedTaskIds: string[]) => void;
+};
+
+type Feedback = { type: "success" | "error"; text: string } | null;
+
+const PRIORITY_OPTIONS: Task["priority"][] = ["高", "中", "低"];
+
+const inputClass =
+  "rounded-xl border border-[#ead8c4] bg-white px-3 py-1.5 text-xs text-[#3d3128] shadow-inner focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]";
+
+const splitTags = (value: string) =>
+  value
+    .split(/[\s,、]+/)
+    .map((tag) => tag.replace(/^#/, "").trim())
+    .filter(Boolean);
+
+export const TaskBulkBar = ({
+  selectedTaskIds,
+  tasksById,
+  assigneeOptions,
+  tagOptions,
+  sheetTitles,
+  onClear,
+  onComplete,
+}: TaskBulkBarProps) => {
+  const router = useRouter();
+  const [actionType, setActionType] =
+    useState<TaskBulkAction["type"]>("status");
+  const [value, setValue] = useState("");
+  const [reason, setReason] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [feedback, setFeedback] = useState<Feedback>(null);
+  const [failures, setFailures] = useState<TaskBulkResult[]>([]);
+
+  // 入力値から API に送る操作を組み立てる。未入力なら null
+  const buildAction = (): TaskBulkAction | null => {
+    const trimmed = value.trim();
+    switch (actionType) {
+      case "status":
+        return trimmed
+          ? {
+              type: "status",
+              status: trimmed as Task["status"],
+              reason: reason.trim() || undefined,
+            }
+          : null;
+      case "priority":
+        return trimmed
+          ? { type: "priority", priority: trimmed as Task["priority"] }
+          : null;
+      case "assignee":
+        return trimmed ? { type: "assignee", assigneeName: trimmed } : null;
+      case "dueDate":
+        return { type: "dueDate", dueDate: trimmed };
+      case "addTags":
+      case "removeTags": {
+        const tags = splitTags(trimmed);
+        return tags.length > 0 ? { type: actionType, tags } : null;
+      }
+      case "moveSheet":
+        return trimmed ? { type: "moveSheet", sheetTitle: trimmed } : null;
+    }
+  };
+
+  const action = buildAction();
+  const needsReason =
+    action?.type === "status" && statusRequiresReason(action.status);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (
+      selectedTaskIds.length === 0 ||
+      !action ||
+      (needsReason && !reason.trim())
+    ) {
+      return;
+    }
+    if (
+      action.type === "moveSheet" &&
+      !window.confirm(
+        `${selectedTaskIds.length}件のタスクを「${action.sheetTitle}」へ移動しますか？`,
+      )
+    ) {
+      return;
+    }
+
+    setIsSaving(true);
+    setFeedback(null);
+    setFailures([]);
+    try {
+      const response = await fetch("/api/tasks/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ taskIds: selectedTaskIds, action }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setFeedback({
+          type: "error",
+          text:
+            typeof data.error === "string"
+              ? data.error
+              : "一括操作を実行できませんでした。",
+        });
+        return;
+      }
+      const results: TaskBulkResult[] = data.data?.results ?? [];
+      const failed = results.filter((result) => !result.ok);
+      const succeeded = results.length - failed.length;
+      setFailures(failed);
+      setFeedback(
+        failed.length === 0
+          ? { type: "success", text: `${succeeded}件を更新しました。` }
+          : {
+              type: "error",
+              text: `${succeeded}件を更新し、${failed.length}件は更新できませんでした。`,
+            },
+      );
+      setValue("");
+      setReason("");
+      onComplete(failed.map((result) => result.taskId));
+      router.refresh();
+    } catch (error) {
+      console.error("tasks.bulk.request.error", error);
+      setFeedback({ type: "error", text: "一括操作を実行できませんでした。" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderValueInput = () => {
+    switch (actionType) {
+      case "status":
+        return (
+          <select
+            aria-label="変更後の状態"
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+            className={inputClass}
+          >
+            <option value="">状態を選択</option>
+            {STATUS_ORDER.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+        );
+      case "priority":
+        return (
+          <select
+            aria-label="変更後の優先度"
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+            className={inputClass}
+          >
+            <option value="">優先度を選択</option>
+            {PRIORITY_OPTIONS.map((priority) => (
+              <option key={priority} value={priority}>
+                {priority}
+              </option>
+            ))}
+          </select>
+        );
+      case "assignee":
+        return (
+          <>
+            <input
+              aria-label="変更後の担当者"
+              list="task-bulk-assignees"
+              value={value}
+              onChange={(event) => setValue(event.target.value)}
+              placeholder="担当者"
+              className={`${inputClass} w-40`}
+            />
+            <datalist id="task-bulk-assignees">
+              {assigneeOptions.map((option) => (
+                <option key={option} value={option} />
+              ))}
+            </datalist>
+          </>
+        );
+      case "dueDate":
+        return (
+          <input
+            type="date"
+            aria-label="変更後の期限（空欄で解除）"
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+            className={inputClass}
+          />
+        );
+      case "addTags":
+      case "removeTags":
+        return (
+          <>
+            <input
+              aria-label="タグ（空白区切り）"
+              list="task-bulk-tags"
+              value={value}
+              onChange={(event) => setValue(event.target.value)}
+              placeholder="タグ（空白区切り）"
+              className={`${inputClass} w-48`}
+            />
+            <datalist id="task-bulk-tags">
+              {tagOptions.map((option) => (
+                <option key={option} value={option} />
+              ))}
+            </datalist>
+          </>
+        );
+      case "moveSheet":
+        return (
+          <select
+            aria-label="移動先のシート"
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+            className={inputClass}
+          >
+            <option value="">シートを選択</option>
+            {sheetTitles.map((title) => (
+              <option key={title} value={title}>
+                {title}
+              </option>
+            ))}
+          </select>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-2 rounded-xl border border-[#ead8c4] bg-[#fff4da] px-4 py-3">
+      <form
+        onSubmit={handleSubmit}
+        className="flex flex-wrap items-center gap-2 text-xs"
+      >
+        <span className="font-semibold text-[#7f6b5a]">
+          {selectedTaskIds.length > 0
+            ? `${selectedTaskIds.length}件を選択中`
+            : "タスクを選択すると一括で変更できます"}
+        </span>
+        <select
+          aria-label="一括操作"
+          value={actionType}
+          onChange={(event) => {
+            setActionType(event.target.value as TaskBulkAction["type"]);
+            setValue("");
+            setReason("");
+          }}
+          className={inputClass}
+        >
+          {(
+            Object.keys(TASK_BULK_ACTION_LABELS) as TaskBulkAction["type"][]
+          ).map((type) => (
+            <option key={type} value={type}>
+              {TASK_BULK_ACTION_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        {renderValueInput()}
+        {needsReason && (
+          <input
+            aria-label="理由"
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+            placeholder="理由（必須）"
+            maxLength={1000}
+            className={`${inputClass} w-48`}
+          />
+        )}
+        <button
+          type="submit"
+          disabled={
+            isSaving ||
+            selectedTaskIds.length === 0 ||
+            !action ||
+            (needsReason && !reason.trim())
+          }
+          className="rounded-full bg-[#ad7a46] px-3 py-1.5 font-semibold text-white transition hover:bg-[#94663a] disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isSaving ? "実行中..." : "実行"}
+        </button>
+        <button
+          type="button"
+          onClick={onClear}
+          disabled={isSaving || selectedTaskIds.length === 0}
+          className="rounded-full border border-[#ead8c4] bg-white px-3 py-1.5 font-semibold text-[#7f6b5a] transition hover:bg-[#f9efe3]"
+        >
+          選択を解除
+        </button>
+      </form>
+      {feedback && (
+        <p
+          role="status"
+          className={`text-xs ${
+            feedback.type === "success" ? "text-emerald-600" : "text-rose-600"
+          }`}
+        >
+          {feedback.text}
+        </p>
+      )}
+      {failures.length > 0 && (
+        <ul className="space-y-1 text-xs text-rose-600">
+          {failures.map((failure) => (
+            <li key={failure.taskId}>
+              {tasksById.get(failure.taskId)?.title ?? failure.taskId}:{" "}
+              {failure.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
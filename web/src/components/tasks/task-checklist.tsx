@@ -0,0 +1,315 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import type { FormEvent } from "react";
+import type { TaskChecklistItem } from "@/types";
+import { Button } from "@/components/ui/button";
+import {
+  formatChecklistProgress,
+  summarizeChecklist,
+  TASK_CHECKLIST_MAX_ITEMS,
+} from "@/lib/task-checklist";
+
+const inputClassName =
+  "rounded-xl border border-[#ead8c4] bg-white px-3 py-2 text-sm text-[#3d3128] shadow-inner focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]";
+
+interface TaskChecklistProps {
+  taskId: string;
+  initialItems: TaskChecklistItem[];
+  canEdit?: boolean;
+}
+
+type ChecklistChanges = Partial<
+  Pick<TaskChecklistItem, "title" | "done" | "assigneeName" | "dueDate">
+>;
+
+const readError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => ({}));
+  return typeof data.error === "string" ? data.error : fallback;
+};
+
+export const TaskChecklist = ({
+  taskId,
+  initialItems,
+  canEdit = true,
+}: TaskChecklistProps) => {
+  const [items, setItems] = useState<TaskChecklistItem[]>(initialItems);
+  const [draft, setDraft] = useState({ title: "", assigneeName: "", dueDate: "" });
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const progress = summarizeChecklist(items);
+  const replaceItem = (next: TaskChecklistItem) =>
+    setItems((prev) => prev.map((item) => (item.id === next.id ? next : item)));
+
+  const handleAdd = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const title = draft.title.trim();
+    if (!title) {
+      return;
+    }
+    setErrorMessage(null);
+
+    startTransition(async () => {
+      try {
+        const response = await fetch(`/api/tasks/${taskId}/checklist`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            title,
+            assigneeName: draft.assigneeName.trim(),
+            dueDate: draft.dueDate,
+          }),
+        });
+        if (!response.ok) {
+          setErrorMessage(
+            await readError(response, "項目を追加できませんでした。"),
+          );
+          return;
+        }
+        const data = await response.json();
+        setItems((prev) => [...prev, data.data]);
+        setDraft({ title: "", assigneeName: "", dueDate: "" });
+      } catch (error) {
+        console.error("tasks.checklist.add.error", error);
+        setErrorMessage("項目を追加できませんでした。");
+      }
+    });
+  };
+
+  // チェックは先に画面へ反映し、保存に失敗したら戻す
+  const handleUpdate = (item: TaskChecklistItem, changes: ChecklistChanges) => {
+    setErrorMessage(null);
+    replaceItem({ ...item, ...changes });
+
+    startTransition(async () => {
+      try {
+        const response = await fetch(
+          `/api/tasks/${taskId}/checklist/${item.id}`,
+          {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(changes),
+          },
+        );
+        if (!response.ok) {
+          replaceItem(item);
+          setErrorMessage(
+            await readError(response, "項目を更新できませんでした。"),
+          );
+          return;
+        }
+        const data = await response.json();
+        replaceItem(data.data);
+      } catch (error) {
+        console.error("tasks.checklist.update.error", error);
+        replaceItem(item);
+        setErrorMessage("項目を更新できませんでした。");
+      }
+    });
+  };
+
+  const handleDelete = (item: TaskChecklistItem) => {
+    if (!window.confirm(`「${item.title}」を削除しますか？`)) {
+      return;
+    }
+    setErrorMessage(null);
+
+    startTransition(async () => {
+      try {
+        const response = await fetch(
+          `/api/tasks/${taskId}/checklist/${item.id}`,
+          { method: "DELETE" },
+        );
+        if (!response.ok) {
+          setErrorMessage(
+            await readError(response, "項目を削除できませんでした。"),
+          );
+          return;
+        }
+        setItems((prev) => prev.filter((current) => current.id !== item.id));
+      } catch (error) {
+        console.error("tasks.checklist.delete.error", error);
+        setErrorMessage("項目を削除できませんでした。");
+      }
+    });
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) {
+      return;
+    }
+    const previous = items;
+    const next = items.slice();
+    [next[index], next[target]] = [next[target], next[index]];
+    setItems(next);
+    setErrorMessage(null);
+
+    startTransition(async () => {
+      try {
+        const response = await fetch(`/api/tasks/${taskId}/checklist/order`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ itemIds: next.map((item) => item.id) }),
+        });
+        if (!response.ok) {
+          setItems(previous);
+          setErrorMessage(
+            await readError(response, "並べ替えを保存できませんでした。"),
+          );
+          return;
+        }
+        const data = await response.json();
+        setItems(data.data);
+      } catch (error) {
+        console.error("tasks.checklist.reorder.error", error);
+        setItems(previous);
+        setErrorMessage("並べ替えを保存できませんでした。");
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-4 text-sm">
+      {progress && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs font-semibold text-[#7f6b5a]">
+            <span>進捗</span>
+            <span>{formatChecklistProgress(progress)}</span>
+          </div>
+          <div className="h-2 overflow-hidden rounded-full bg-[#f1e6d8]">
+            <div
+              className="h-full rounded-full bg-[#1d9a57] transition-all"
+              style={{ width: `${(progress.done / progress.total) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {items.length === 0 ? (
+        <p className="text-xs text-[#b59b85]">チェックリストはまだありません。</p>
+      ) : (
+        <ol className="space-y-2">
+          {items.map((item, index) => (
+            <li
+              key={item.id}
+              className="flex flex-wrap items-center gap-3 rounded-xl border border-[#ead8c4] bg-white px-3 py-2"
+            >
+              <input
+                type="checkbox"
+                checked={item.done}
+                disabled={!canEdit}
+                onChange={(event) =>
+                  handleUpdate(item, { done: event.target.checked })
+                }
+                aria-label={`${item.title}を完了にする`}
+                className="h-4 w-4 accent-[#1d9a57]"
+              />
+              <span
+                className={`min-w-[160px] flex-1 ${
+                  item.done ? "text-[#b59b85] line-through" : "text-[#3d3128]"
+                }`}
+              >
+                {item.title}
+              </span>
+              <input
+                key={`${item.id}-assignee-${item.assigneeName ?? ""}`}
+                defaultValue={item.assigneeName ?? ""}
+                disabled={!canEdit}
+                placeholder="担当者"
+                onBlur={(event) => {
+                  const value = event.target.value.trim();
+                  if (value !== (item.assigneeName ?? "")) {
+                    handleUpdate(item, { assigneeName: value });
+                  }
+                }}
+                className={`${inputClassName} w-32 py-1 text-xs`}
+              />
+              <input
+                type="date"
+                value={item.dueDate ?? ""}
+                disabled={!canEdit}
+                onChange={(event) =>
+                  handleUpdate(item, { dueDate: event.target.value })
+                }
+                aria-label={`${item.title}の期限`}
+                className={`${inputClassName} py-1 text-xs`}
+              />
+              {canEdit && (
+                <div className="flex items-center gap-1 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => handleMove(index, -1)}
+                    disabled={isPending || index === 0}
+                    aria-label="上へ"
+                    className="rounded-full px-2 py-1 text-[#7f6b5a] hover:bg-[#fff4da] disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleMove(index, 1)}
+                    disabled={isPending || index === items.length - 1}
+                    aria-label="下へ"
+                    className="rounded-full px-2 py-1 text-[#7f6b5a] hover:bg-[#fff4da] disabled:opacity-30"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(item)}
+                    disabled={isPending}
+                    className="rounded-full px-2 py-1 font-semibold text-[#c04747] hover:bg-[#fbe8e6]"
+                  >
+                    削除
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {canEdit && items.length < TASK_CHECKLIST_MAX_ITEMS && (
+        <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2">
+          <input
+            value={draft.title}
+            onChange={(event) =>
+              setDraft((prev) => ({ ...prev, title: event.target.value }))
+            }
+            placeholder="項目を追加"
+            maxLength={200}
+            className={`${inputClassName} min-w-[200px] flex-1`}
+          />
+          <input
+            value={draft.assigneeName}
+            onChange={(event) =>
+              setDraft((prev) => ({ ...prev, assigneeName: event.target.value }))
+            }
+            placeholder="担当者（任意）"
+            className={`${inputClassName} w-36`}
+          />
+          <input
+            type="date"
+            value={draft.dueDate}
+            onChange={(event) =>
+              setDraft((prev) => ({ ...prev, dueDate: event.target.value }))
+            }
+            aria-label="期限（任意）"
+            className={inputClassName}
+          />
+          <Button
+            type="submit"
+            variant="secondary"
+            disabled={isPending || !draft.title.trim()}
+          >
+            追加
+          </Button>
+        </form>
+      )}
+
+      {errorMessage && <p className="text-xs text-rose-600">{errorMessage}</p>}
+    </div>
+  );
+};
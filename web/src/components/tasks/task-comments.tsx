@@ -0,0 +1,258 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import type { FormEvent } from "react";
+import type { TaskComment } from "@/types";
+import { Button } from "@/components/ui/button";
+import { Markdown } from "@/components/ui/markdown";
+import { TASK_COMMENT_MAX_LENGTH } from "@/lib/task-comments";
+
+const textareaClassName =
+  "w-full rounded-xl border border-[#ead8c4] bg-white px-3 py-2 text-sm text-[#3d3128] shadow-inner focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]";
+
+interface TaskCommentsProps {
+  taskId: string;
+  initialComments: TaskComment[];
+  viewerSlug?: string;
+  canComment?: boolean;
+}
+
+const readError = async (response: Response, fallback: string) => {
+  const data = await response.json().catch(() => ({}));
+  return typeof data.error === "string" ? data.error : fallback;
+};
+
+export const TaskComments = ({
+  taskId,
+  initialComments,
+  viewerSlug,
+  canComment = true,
+}: TaskCommentsProps) => {
+  const [comments, setComments] = useState<TaskComment[]>(initialComments);
+  const [draft, setDraft] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingBody, setEditingBody] = useState("");
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const mergeComment = (comment: TaskComment) => {
+    setComments((prev) =>
+      prev.some((item) => item.id === comment.id)
+        ? prev.map((item) => (item.id === comment.id ? comment : item))
+        : [...prev, comment],
+    );
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const body = draft.trim();
+    if (!body) {
+      return;
+    }
+    setErrorMessage(null);
+
+    startTransition(async () => {
+      try {
+        const response = await fetch(`/api/tasks/${taskId}/comments`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ body }),
+        });
+        if (!response.ok) {
+          setErrorMessage(
+            await readError(response, "コメントを投稿できませんでした。"),
+          );
+          return;
+        }
+        const data = await response.json();
+        mergeComment(data.data);
+        setDraft("");
+      } catch (error) {
+        console.error("tasks.comments.post.error", error);
+        setErrorMessage("コメントを投稿できませんでした。");
+      }
+    });
+  };
+
+  const handleEdit = (commentId: string) => {
+    const body = editingBody.trim();
+    if (!body) {
+      return;
+    }
+    setErrorMessage(null);
+
+    startTransition(async () => {
+      try {
+        const response = await fetch(
+          `/api/tasks/${taskId}/comments/${commentId}`,
+          {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ body }),
+          },
+        );
+        if (!response.ok) {
+          setErrorMessage(
+            await readError(response, "コメントを編集できませんでした。"),
+          );
+          return;
+        }
+        const data = await response.json();
+        mergeComment(data.data);
+        setEditingId(null);
+      } catch (error) {
+        console.error("tasks.comments.patch.error", error);
+        setErrorMessage("コメントを編集できませんでした。");
+      }
+    });
+  };
+
+  const handleDelete = (commentId: string) => {
+    if (!window.confirm("このコメントを削除しますか？")) {
+      return;
+    }
+    setErrorMessage(null);
+
+    startTransition(async () => {
+      try {
+        const response = await fetch(
+          `/api/tasks/${taskId}/comments/${commentId}`,
+          { method: "DELETE" },
+        );
+        if (!response.ok) {
+          setErrorMessage(
+            await readError(response, "コメントを削除できませんでした。"),
+          );
+          return;
+        }
+        const data = await response.json();
+        mergeComment(data.data);
+      } catch (error) {
+        console.error("tasks.comments.delete.error", error);
+        setErrorMessage("コメントを削除できませんでした。");
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {comments.length === 0 ? (
+        <div className="rounded-xl border border-dashed border-[#ead8c4] bg-[#fffaf5] px-4 py-6 text-center text-sm text-[#b59b85]">
+          まだコメントはありません。
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {comments.map((comment) => {
+            const isOwn =
+              canComment && !!viewerSlug && comment.authorId === viewerSlug;
+            const isEditing = editingId === comment.id;
+            return (
+              <li
+                key={comment.id}
+                id={comment.id}
+                className="scroll-mt-24 rounded-xl border border-[#ead8c4] bg-white/70 px-4 py-3 shadow-sm shadow-[#ead8c4]/40 target:border-[#c89b6d]"
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-[#ad7a46]">
+                  <span className="font-semibold">
+                    {comment.authorName}
+                    <span className="ml-1 font-normal text-[#b59b85]">
+                      @{comment.authorId}
+                    </span>
+                  </span>
+                  <span className="text-[#b59b85]">
+                    {comment.createdAt}
+                    {comment.editedAt && !comment.deletedAt && "（編集済み）"}
+                  </span>
+                </div>
+                <div className="mt-2">
+                  {comment.deletedAt ? (
+                    <p className="text-sm italic text-[#b59b85]">
+                      このコメントは削除されました
+                    </p>
+                  ) : isEditing ? (
+                    <div className="space-y-2">
+                      <textarea
+                        value={editingBody}
+                        onChange={(event) => setEditingBody(event.target.value)}
+                        rows={4}
+                        maxLength={TASK_COMMENT_MAX_LENGTH}
+                        className={textareaClassName}
+                      />
+                      <div className="flex gap-2">
+                        <Button
+                          type="button"
+                          disabled={isPending || !editingBody.trim()}
+                          onClick={() => handleEdit(comment.id)}
+                        >
+                          保存
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          disabled={isPending}
+                          onClick={() => setEditingId(null)}
+                        >
+                          キャンセル
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <Markdown source={comment.body} />
+                  )}
+                </div>
+                {isOwn && !comment.deletedAt && !isEditing && (
+                  <div className="mt-2 flex gap-3 text-xs">
+                    <button
+                      type="button"
+                      disabled={isPending}
+                      onClick={() => {
+                        setEditingId(comment.id);
+                        setEditingBody(comment.body);
+                      }}
+                      className="text-[#7f6b5a] hover:text-[#3d3128]"
+                    >
+                      編集
+                    </button>
+                    <button
+                      type="button"
+                      disabled={isPending}
+                      onClick={() => handleDelete(comment.id)}
+                      className="text-[#c04747] hover:underline"
+                    >
+                      削除
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {errorMessage && (
+        <p className="text-sm text-rose-600">{errorMessage}</p>
+      )}
+
+      {canComment && (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            rows={4}
+            maxLength={TASK_COMMENT_MAX_LENGTH}
+            placeholder="コメントを入力してください。"
+            className={textareaClassName}
+          />
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-[#b59b85]">
+              Markdown・@userSlug でメンションできます
+            </p>
+            <Button type="submit" disabled={isPending || !draft.trim()}>
+              {isPending ? "送信中..." : "コメントする"}
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
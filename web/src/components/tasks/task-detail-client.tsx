@@ -1,28 +1,99 @@
 "use client";
 
 import { useMemo, useState, useTransition } from "react";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
 import type { ChangeEvent, FormEvent } from "react";
-import type { Task } from "@/types";
+import type { Task, TaskRecurrence } from "@/types";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { TaskChecklist } from "@/components/tasks/task-checklist";
+import { TaskComments } from "@/components/tasks/task-comments";
+import { TaskRecurrenceField } from "@/components/tasks/task-recurrence-field";
+import {
+  buildTaskComments,
+  describeTaskHistoryEvent,
+} from "@/lib/task-comments";
+import {
+  getAllowedNextStatuses,
+  statusRequiresReason,
+} from "@/lib/task-status";
+import {
+  getBlockingTasks,
+  getRejectedDependencies,
+} from "@/lib/task-dependencies";
+import { describeTaskRecurrence } from "@/lib/task-recurrence";
 
-const TASK_STATUS_OPTIONS: Task["status"][] = [
-  "未着手",
-  "進行中",
-  "レビュー待ち",
-  "完了",
-  "保留",
-  "棄却",
-];
+export type TaskDependencyCandidate = Pick<
+  Task,
+  "taskId" | "title" | "projectName" | "status"
+>;
 
 const TASK_PRIORITY_OPTIONS: Task["priority"][] = ["高", "中", "低"];
 
+type TaskFormState = {
+  status: Task["status"];
+  priority: Task["priority"];
+  dueDate: string;
+  startDate: string;
+  doneDate: string;
+  detailUrl: string;
+  notes: string;
+  dependsOn: string[];
+  recurrence: TaskRecurrence | null;
+  statusReason: string;
+};
+
+type MergeableField = Exclude<keyof TaskFormState, "statusReason">;
+
+const MERGE_FIELDS: { key: MergeableField; label: string }[] = [
+  { key: "status", label: "状態" },
+  { key: "priority", label: "優先度" },
+  { key: "startDate", label: "開始日" },
+  { key: "dueDate", label: "期限" },
+  { key: "doneDate", label: "終了日" },
+  { key: "detailUrl", label: "詳細URL" },
+  { key: "notes", label: "備考" },
+  { key: "dependsOn", label: "依存タスク" },
+  { key: "recurrence", label: "繰り返し" },
+];
+
+const formatFormValue = (value: TaskFormState[MergeableField]) => {
+  if (Array.isArray(value)) return value.join(", ");
+  if (value === null) return "";
+  return typeof value === "object" ? describeTaskRecurrence(value) : value;
+};
+
+const toFormState = (task: Task): TaskFormState => ({
+  status: task.status,
+  priority: task.priority,
+  dueDate: task.dueDate ?? "",
+  startDate: task.startDate ?? "",
+  doneDate: task.doneDate ?? "",
+  detailUrl: task.detailUrl ?? "",
+  notes: task.notes ?? "",
+  dependsOn: task.dependsOn ?? [],
+  recurrence: task.recurrence ?? null,
+  statusReason: "",
+});
+
 interface TaskDetailClientProps {
   task: Task;
+  // 担当者・作成者・管理者のみ本体を編集できる
+  canEdit?: boolean;
+  // チェックリストとコメントは member 以上なら誰でも操作できる
+  canContribute?: boolean;
+  viewerSlug?: string;
+  dependencyCandidates?: TaskDependencyCandidate[];
 }
 
-export const TaskDetailClient = ({ task }: TaskDetailClientProps) => {
+export const TaskDetailClient = ({
+  task,
+  canEdit = true,
+  canContribute = canEdit,
+  viewerSlug,
+  dependencyCandidates = [],
+}: TaskDetailClientProps) => {
   const router = useRouter();
   const [currentTask, setCurrentTask] = useState<Task>(task);
   const [isPending, startTransition] = useTransition();
@@ -31,15 +102,11 @@ export const TaskDetailClient = ({ task }: TaskDetailClientProps) => {
     "idle",
   );
 
-  const [formState, setFormState] = useState({
-    status: task.status,
-    priority: task.priority,
-    dueDate: task.dueDate ?? "",
-    startDate: task.startDate ?? "",
-    doneDate: task.doneDate ?? "",
-    detailUrl: task.detailUrl ?? "",
-    notes: task.notes ?? "",
-  });
+  const [formState, setFormState] = useState<TaskFormState>(() =>
+    toFormState(task),
+  );
+  // 保存時に他の人の更新とぶつかったときの最新のタスク
+  const [conflictTask, setConflictTask] = useState<Task | null>(null);
 
   const handleChange = (
     event: ChangeEvent<
@@ -50,11 +117,26 @@ export const TaskDetailClient = ({ task }: TaskDetailClientProps) => {
     setFormState((prev) => ({ ...prev, [name]: value }));
   };
 
+  // 選べるのは現在の状態と、遷移表で許可された次の状態のみ
+  const statusOptions = [
+    currentTask.status,
+    ...getAllowedNextStatuses(currentTask.status),
+  ];
+  const needsStatusReason =
+    formState.status !== currentTask.status &&
+    statusRequiresReason(formState.status);
+
   const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setStatusMessage(null);
     setStatusType("idle");
 
+    if (needsStatusReason && !formState.statusReason.trim()) {
+      setStatusMessage(`${formState.status} にする理由を入力してください。`);
+      setStatusType("error");
+      return;
+    }
+
     startTransition(async () => {
       try {
         const response = await fetch(`/api/tasks/${task.taskId}`, {
@@ -70,14 +152,31 @@ export const TaskDetailClient = ({ task }: TaskDetailClientProps) => {
             doneDate: formState.doneDate,
             detailUrl: formState.detailUrl.trim(),
             notes: formState.notes.trim(),
+            dependsOn: formState.dependsOn,
+            recurrence: formState.recurrence,
+            statusReason: needsStatusReason
+              ? formState.statusReason.trim()
+              : undefined,
+            expectedUpdatedAt: currentTask.updatedAt,
           }),
         });
 
         if (!response.ok) {
           const data = await response.json().catch(() => ({}));
+          if (response.status === 409 && data.current) {
+            setConflictTask(data.current);
+            setStatusMessage(
+              "他のメンバーが先に更新しました。差分を確認してから保存し直してください。",
+            );
+            setStatusType("error");
+            return;
+          }
+          const allowed = Array.isArray(data.allowedStatuses)
+            ? `（変更できる状態: ${data.allowedStatuses.join("・") || "なし"}）`
+            : "";
           const message =
             typeof data.error === "string"
-              ? data.error
+              ? `${data.error}${allowed}`
               : "更新に失敗しました。";
           setStatusMessage(message);
           setStatusType("error");
@@ -88,15 +187,7 @@ export const TaskDetailClient = ({ task }: TaskDetailClientProps) => {
         if (data?.data) {
           const updatedTask: Task = data.data;
           setCurrentTask(updatedTask);
-          setFormState({
-            status: updatedTask.status,
-            priority: updatedTask.priority,
-            dueDate: updatedTask.dueDate ?? "",
-            startDate: updatedTask.startDate ?? "",
-            doneDate: updatedTask.doneDate ?? "",
-            detailUrl: updatedTask.detailUrl ?? "",
-            notes: updatedTask.notes ?? "",
-          });
+          setFormState(toFormState(updatedTask));
         }
 
         setStatusMessage("更新しました。");
@@ -110,7 +201,51 @@ export const TaskDetailClient = ({ task }: TaskDetailClientProps) => {
     });
   };
 
+  const candidatesById = new Map(
+    dependencyCandidates.map((candidate) => [candidate.taskId, candidate]),
+  );
+  const blockingDependencies = getBlockingTasks(formState, candidatesById);
+  const rejectedDependencies = getRejectedDependencies(
+    formState,
+    candidatesById,
+  );
+
+  const addDependency = (taskId: string) => {
+    if (!taskId) return;
+    setFormState((prev) =>
+      prev.dependsOn.includes(taskId)
+        ? prev
+        : { ...prev, dependsOn: [...prev.dependsOn, taskId] },
+    );
+  };
+
+  const removeDependency = (taskId: string) => {
+    setFormState((prev) => ({
+      ...prev,
+      dependsOn: prev.dependsOn.filter((dependency) => dependency !== taskId),
+    }));
+  };
+
+  const applyLatestValue = (key: MergeableField) => {
+    if (!conflictTask) return;
+    const latest = toFormState(conflictTask);
+    setFormState((prev) => ({ ...prev, [key]: latest[key] }));
+  };
+
+  // 最新版を基準に取り込み、入力中の値は残したまま保存し直せるようにする
+  const resolveConflict = () => {
+    if (!conflictTask) return;
+    setCurrentTask(conflictTask);
+    setConflictTask(null);
+    setStatusMessage(null);
+    setStatusType("idle");
+  };
+
   const history = useMemo(() => currentTask.history ?? [], [currentTask]);
+  const initialComments = useMemo(
+    () => buildTaskComments(task.history ?? []),
+    [task],
+  );
 
   return (
     <div className="space-y-6">
@@ -119,111 +254,275 @@ export const TaskDetailClient = ({ task }: TaskDetailClientProps) => {
           {currentTask.title ?? "タスク詳細"}
         </h1>
         <p className="mt-1 text-sm text-[#7f6b5a]">
-          ステータスや期限、備考を更新すると履歴に記録されます。
+          {canEdit
+            ? "ステータスや期限、備考を更新すると履歴に記録されます。"
+            : canContribute
+              ? "このタスクを編集できるのは担当者・作成者・管理者のみです。チェックリストとコメントは追加できます。"
+              : "閲覧者のため、このタスクは参照のみ可能です。"}
         </p>
       </div>
 
       <form onSubmit={handleSubmit}>
-        <div className="grid gap-5 lg:grid-cols-3">
-          <Card title="基本情報">
-            <dl className="space-y-3 text-sm">
-              <DetailItem label="プロジェクト" value={currentTask.projectName} />
-              <DetailItem label="担当" value={currentTask.assigneeName} />
-              <div className="flex items-center justify-between">
-                <dt className="text-xs uppercase text-[#ad7a46]">状態</dt>
-                <dd>
-                  <select
-                    name="status"
-                    value={formState.status}
-                    onChange={handleChange}
-                    className="rounded-full border border-[#ead8c4] bg-white px-3 py-1 text-xs font-semibold text-[#ad7a46] shadow-sm focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]"
-                  >
-                    {TASK_STATUS_OPTIONS.map((status) => (
-                      <option key={status} value={status}>
-                        {status}
-                      </option>
-                    ))}
-                  </select>
-                </dd>
+        <fieldset disabled={!canEdit}>
+          <div className="grid gap-5 lg:grid-cols-3">
+            <Card title="基本情報">
+              <dl className="space-y-3 text-sm">
+                <DetailItem label="プロジェクト" value={currentTask.projectName} />
+                <DetailItem label="担当" value={currentTask.assigneeName} />
+                <div className="flex items-center justify-between">
+                  <dt className="text-xs uppercase text-[#ad7a46]">状態</dt>
+                  <dd>
+                    <select
+                      name="status"
+                      value={formState.status}
+                      onChange={handleChange}
+                      className="rounded-full border border-[#ead8c4] bg-white px-3 py-1 text-xs font-semibold text-[#ad7a46] shadow-sm focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]"
+                    >
+                      {statusOptions.map((status) => (
+                        <option key={status} value={status}>
+                          {status}
+                        </option>
+                      ))}
+                    </select>
+                  </dd>
+                </div>
+                {needsStatusReason && (
+                  <div className="flex flex-col gap-1">
+                    <dt>
+                      <label
+                        htmlFor="statusReason"
+                        className="text-xs font-medium text-[#ad7a46]"
+                      >
+                        {formState.status}にする理由（必須）
+                      </label>
+                    </dt>
+                    <dd>
+                      <textarea
+                        id="statusReason"
+                        name="statusReason"
+                        value={formState.statusReason}
+                        onChange={handleChange}
+                        rows={2}
+                        required
+                        className="w-full rounded-xl border border-[#ead8c4] bg-white px-3 py-2 text-sm text-[#3d3128] shadow-inner focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]"
+                      />
+                    </dd>
+                  </div>
+                )}
+                <div className="flex items-center justify-between">
+                  <dt className="text-xs uppercase text-[#ad7a46]">優先度</dt>
+                  <dd>
+                    <select
+                      name="priority"
+                      value={formState.priority}
+                      onChange={handleChange}
+                      className="rounded-full border border-[#ead8c4] bg-white px-3 py-1 text-xs font-semibold text-[#ad7a46] shadow-sm focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]"
+                    >
+                      {TASK_PRIORITY_OPTIONS.map((priority) => (
+                        <option key={priority} value={priority}>
+                          {priority}
+                        </option>
+                      ))}
+                    </select>
+                  </dd>
+                </div>
+              </dl>
+            </Card>
+
+            <Card title="スケジュール">
+              <div className="space-y-3 text-sm">
+                <LabeledInput
+                  label="開始日"
+                  name="startDate"
+                  type="date"
+                  value={formState.startDate}
+                  onChange={handleChange}
+                />
+                <LabeledInput
+                  label="期限"
+                  name="dueDate"
+                  type="date"
+                  value={formState.dueDate}
+                  onChange={handleChange}
+                />
+                <LabeledInput
+                  label="終了日"
+                  name="doneDate"
+                  type="date"
+                  value={formState.doneDate}
+                  onChange={handleChange}
+                />
               </div>
-              <div className="flex items-center justify-between">
-                <dt className="text-xs uppercase text-[#ad7a46]">優先度</dt>
-                <dd>
-                  <select
-                    name="priority"
-                    value={formState.priority}
-                    onChange={handleChange}
-                    className="rounded-full border border-[#ead8c4] bg-white px-3 py-1 text-xs font-semibold text-[#ad7a46] shadow-sm focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]"
-                  >
-                    {TASK_PRIORITY_OPTIONS.map((priority) => (
-                      <option key={priority} value={priority}>
-                        {priority}
-                      </option>
-                    ))}
-                  </select>
-                </dd>
+            </Card>
+
+            <Card title="詳細URL">
+              <div className="space-y-3 text-sm text-[#5b4c40]">
+                <input
+                  type="url"
+                  name="detailUrl"
+                  value={formState.detailUrl}
+                  onChange={handleChange}
+                  placeholder="https://example.com/task-detail"
+                  className="w-full rounded-xl border border-[#ead8c4] bg-white px-3 py-2 text-sm text-[#3d3128] shadow-inner focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]"
+                />
+                <p className="text-xs text-[#b59b85]">
+                  入力しない場合は空欄のままで構いません。
+                </p>
+                {currentTask.sourceReportId && (
+                  <p className="text-xs text-[#7f6b5a]">
+                    <Link
+                      href={`/daily-reports/${encodeURIComponent(currentTask.sourceReportId)}`}
+                      className="font-semibold text-[#ad7a46] underline-offset-4 hover:underline"
+                    >
+                      デイリーレポート
+                    </Link>
+                    の「明日やるべきこと」から作成されたタスクです。
+                  </p>
+                )}
               </div>
-            </dl>
-          </Card>
+            </Card>
+          </div>
 
-          <Card title="スケジュール">
+          <Card
+            title="依存タスク"
+            description="ここに登録したタスクがすべて完了するまで、このタスクはブロック中として表示されます。棄却された依存タスクは待たずに進められるものとして扱います。"
+          >
             <div className="space-y-3 text-sm">
-              <LabeledInput
-                label="開始日"
-                name="startDate"
-                type="date"
-                value={formState.startDate}
-                onChange={handleChange}
-              />
-              <LabeledInput
-                label="期限"
-                name="dueDate"
-                type="date"
-                value={formState.dueDate}
-                onChange={handleChange}
-              />
-              <LabeledInput
-                label="終了日"
-                name="doneDate"
-                type="date"
-                value={formState.doneDate}
-                onChange={handleChange}
-              />
+              {blockingDependencies.length > 0 && (
+                <p className="rounded-xl border border-[#f5b5a7] bg-[#fff3f0] px-3 py-2 text-xs font-semibold text-[#c04747]">
+                  ブロック中: 未完了の依存タスクが{blockingDependencies.length}
+                  件あります
+                </p>
+              )}
+              {rejectedDependencies.length > 0 && (
+                <p className="rounded-xl border border-[#ead8c4] bg-[#f5f0ea] px-3 py-2 text-xs font-semibold text-[#7f6b5a]">
+                  棄却された依存タスクが{rejectedDependencies.length}
+                  件あります（完了ではありませんが、ブロックはしません）
+                </p>
+              )}
+              {formState.dependsOn.length === 0 ? (
+                <p className="text-xs text-[#b59b85]">依存タスクはありません。</p>
+              ) : (
+                <ul className="space-y-2">
+                  {formState.dependsOn.map((dependency) => {
+                    const candidate = candidatesById.get(dependency);
+                    return (
+                      <li
+                        key={dependency}
+                        className="flex items-center justify-between gap-3 rounded-xl border border-[#ead8c4] bg-white/70 px-3 py-2"
+                      >
+                        <Link
+                          href={`/tasks/${dependency}`}
+                          className="font-medium text-[#ad7a46] underline-offset-4 hover:underline"
+                        >
+                          {candidate?.title ?? dependency}
+                        </Link>
+                        <div className="flex items-center gap-3 text-xs">
+                          <span
+                            className={
+                              candidate?.status === "完了"
+                                ? "text-[#1d9a57]"
+                                : candidate?.status === "棄却"
+                                  ? "text-[#7f6b5a]"
+                                  : "text-[#c04747]"
+                            }
+                          >
+                            {candidate?.status === "棄却"
+                              ? "棄却（ブロックしない）"
+                              : (candidate?.status ?? "不明")}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => removeDependency(dependency)}
+                            className="text-[#7f6b5a] hover:text-[#3d3128]"
+                          >
+                            外す
+                          </button>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+              <select
+                value=""
+                onChange={(event) => addDependency(event.target.value)}
+                className="w-full rounded-xl border border-[#ead8c4] bg-white px-3 py-2 text-sm text-[#3d3128] shadow-inner focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]"
+              >
+                <option value="">依存タスクを追加…</option>
+                {dependencyCandidates
+                  .filter(
+                    (candidate) =>
+                      !formState.dependsOn.includes(candidate.taskId),
+                  )
+                  .map((candidate) => (
+                    <option key={candidate.taskId} value={candidate.taskId}>
+                      {candidate.projectName
+                        ? `[${candidate.projectName}] `
+                        : ""}
+                      {candidate.title}（{candidate.status}）
+                    </option>
+                  ))}
+              </select>
             </div>
           </Card>
 
-          <Card title="詳細URL">
-            <div className="space-y-3 text-sm text-[#5b4c40]">
-              <input
-                type="url"
-                name="detailUrl"
-                value={formState.detailUrl}
-                onChange={handleChange}
-                placeholder="https://example.com/task-detail"
-                className="w-full rounded-xl border border-[#ead8c4] bg-white px-3 py-2 text-sm text-[#3d3128] shadow-inner focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]"
+          <Card
+            title="繰り返し"
+            description="完了にしたとき（毎日・毎週・毎月は日付を迎えたときも）、開始日・期限をずらした次回分を自動で登録します。"
+          >
+            <div className="space-y-3">
+              <TaskRecurrenceField
+                value={formState.recurrence}
+                onChange={(recurrence) =>
+                  setFormState((prev) => ({ ...prev, recurrence }))
+                }
               />
-              <p className="text-xs text-[#b59b85]">
-                入力しない場合は空欄のままで構いません。
-              </p>
+              {currentTask.seriesId &&
+                currentTask.seriesId !== currentTask.taskId && (
+                  <p className="text-xs text-[#7f6b5a]">
+                    定期タスクから自動生成されたタスクです（
+                    <Link
+                      href={`/tasks/${currentTask.seriesId}`}
+                      className="font-semibold text-[#ad7a46] underline-offset-4 hover:underline"
+                    >
+                      系列の最初のタスク
+                    </Link>
+                    ）。
+                  </p>
+                )}
             </div>
           </Card>
-        </div>
 
-        <Card title="備考">
-          <textarea
-            name="notes"
-            value={formState.notes}
-            onChange={handleChange}
-            rows={6}
-            placeholder="共有したいメモがあれば入力してください。"
-            className="w-full rounded-xl border border-[#ead8c4] bg-white px-3 py-2 text-sm text-[#3d3128] shadow-inner focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]"
+          <Card title="備考">
+            <textarea
+              name="notes"
+              value={formState.notes}
+              onChange={handleChange}
+              rows={6}
+              placeholder="共有したいメモがあれば入力してください。"
+              className="w-full rounded-xl border border-[#ead8c4] bg-white px-3 py-2 text-sm text-[#3d3128] shadow-inner focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]"
+            />
+          </Card>
+
+        </fieldset>
+
+        {conflictTask && (
+          <ConflictDiff
+            loaded={toFormState(currentTask)}
+            latest={toFormState(conflictTask)}
+            draft={formState}
+            onUseLatest={applyLatestValue}
+            onResolve={resolveConflict}
           />
-        </Card>
+        )}
 
         <div className="flex items-center gap-4 pt-2">
-          <Button type="submit" disabled={isPending}>
-            {isPending ? "更新中..." : "変更を保存"}
-          </Button>
+          {canEdit && (
+            <Button type="submit" disabled={isPending || !!conflictTask}>
+              {isPending ? "更新中..." : "変更を保存"}
+            </Button>
+          )}
           {statusMessage && (
             <span
               className={`text-sm ${
@@ -236,6 +535,29 @@ export const TaskDetailClient = ({ task }: TaskDetailClientProps) => {
         </div>
       </form>
 
+      <Card
+        title="チェックリスト"
+        description="手順を項目に分けて管理します。チェックの切り替えは履歴に記録されます。"
+      >
+        <TaskChecklist
+          taskId={task.taskId}
+          initialItems={task.checklist ?? []}
+          canEdit={canContribute}
+        />
+      </Card>
+
+      <Card
+        title="コメント"
+        description="Markdownで書けます。@userSlug で名指ししたメンバーに通知が届きます。"
+      >
+        <TaskComments
+          taskId={task.taskId}
+          initialComments={initialComments}
+          viewerSlug={viewerSlug}
+          canComment={canContribute}
+        />
+      </Card>
+
       <Card title="履歴" description="状態遷移やコメントを時系列で表示します。">
         <div className="space-y-3 text-sm text-[#5b4c40]">
           {history.length === 0 ? (
@@ -253,7 +575,7 @@ export const TaskDetailClient = ({ task }: TaskDetailClientProps) => {
                       <span>{event.happenedAt}</span>
                     </div>
                     <p className="text-sm text-[#5b4c40]">
-                      {event.details || "詳細なし"}
+                      {describeTaskHistoryEvent(event) || "詳細なし"}
                     </p>
                     <p className="text-xs text-[#b59b85]">
                       {event.actorName} ({event.actorId})
@@ -269,6 +591,84 @@ export const TaskDetailClient = ({ task }: TaskDetailClientProps) => {
   );
 };
 
+const ConflictDiff = ({
+  loaded,
+  latest,
+  draft,
+  onUseLatest,
+  onResolve,
+}: {
+  loaded: TaskFormState;
+  latest: TaskFormState;
+  draft: TaskFormState;
+  onUseLatest: (key: MergeableField) => void;
+  onResolve: () => void;
+}) => {
+  // 他の人が変えた項目と、自分の入力が最新と食い違う項目だけを並べる
+  const rows = MERGE_FIELDS.filter(
+    ({ key }) =>
+      formatFormValue(loaded[key]) !== formatFormValue(latest[key]) ||
+      formatFormValue(draft[key]) !== formatFormValue(latest[key]),
+  );
+
+  return (
+    <div className="mt-4 space-y-3 rounded-2xl border border-[#f5b5a7] bg-[#fff3f0] px-4 py-4 text-sm">
+      <p className="font-semibold text-[#c04747]">
+        保存中に他のメンバーがこのタスクを更新しました
+      </p>
+      <table className="min-w-full text-left text-xs">
+        <thead className="text-[#ad7a46]">
+          <tr>
+            <th className="py-1 pr-3 font-semibold">項目</th>
+            <th className="py-1 pr-3 font-semibold">あなたの入力</th>
+            <th className="py-1 pr-3 font-semibold">最新の値</th>
+            <th className="py-1" />
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-[#f5d5cc] text-[#5b4c40]">
+          {rows.map(({ key, label }) => (
+            <tr key={key}>
+              <td className="py-2 pr-3 font-medium">
+                {label}
+                {formatFormValue(loaded[key]) !==
+                  formatFormValue(latest[key]) && (
+                  <span className="ml-1 text-[#c04747]">（他の人が変更）</span>
+                )}
+              </td>
+              <td className="whitespace-pre-wrap break-all py-2 pr-3">
+                {formatFormValue(draft[key]) || "未設定"}
+              </td>
+              <td className="whitespace-pre-wrap break-all py-2 pr-3">
+                {formatFormValue(latest[key]) || "未設定"}
+              </td>
+              <td className="py-2 text-right">
+                {formatFormValue(draft[key]) !==
+                  formatFormValue(latest[key]) && (
+                  <button
+                    type="button"
+                    onClick={() => onUseLatest(key)}
+                    className="text-[#ad7a46] underline-offset-4 hover:underline"
+                  >
+                    最新を使う
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex items-center gap-3">
+        <Button type="button" variant="secondary" onClick={onResolve}>
+          最新版に取り込む
+        </Button>
+        <span className="text-xs text-[#7f6b5a]">
+          「あなたの入力」を残したまま最新版を基準にします。確認後に「変更を保存」を押してください。
+        </span>
+      </div>
+    </div>
+  );
+};
+
 const DetailItem = ({ label, value }: { label: string; value: string }) => (
   <div className="flex justify-between">
     <dt className="text-xs uppercase text-[#ad7a46]">{label}</dt>
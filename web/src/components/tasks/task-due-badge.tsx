@@ -0,0 +1,58 @@
+import type { Task } from "@/types";
+
+const toTimestamp = (value?: string | null): number | null => {
+  if (!value) return null;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+const baseClass =
+  "inline-flex items-center gap-2 rounded-full px-3 py-1 text-xs font-medium";
+
+type TaskDueBadgeProps = {
+  task: Pick<Task, "dueDate" | "status">;
+  now: number;
+};
+
+// 期限超過は赤、3日以内は黄で強調する（完了済みは強調しない）
+export const TaskDueBadge = ({ task, now }: TaskDueBadgeProps) => {
+  if (!task.dueDate) {
+    return <span className="text-xs text-[#b59b85]">未設定</span>;
+  }
+
+  const due = toTimestamp(task.dueDate);
+  if (due === null) {
+    return (
+      <div className={`${baseClass} bg-white/70 text-[#7f6b5a]`}>
+        <span className="inline-flex h-2 w-2 rounded-full bg-[#c89b6d]" />
+        {task.dueDate}
+      </div>
+    );
+  }
+
+  if (due < now && task.status !== "完了") {
+    return (
+      <div className={`${baseClass} bg-[#fbe8e6] text-[#c04747]`}>
+        <span className="inline-flex h-2 w-2 rounded-full bg-[#c04747]" />
+        {task.dueDate}
+      </div>
+    );
+  }
+
+  const diffDays = Math.ceil((due - now) / (1000 * 60 * 60 * 24));
+  if (diffDays >= 0 && diffDays <= 3 && task.status !== "完了") {
+    return (
+      <div className={`${baseClass} bg-[#fff4da] text-[#ad7a46]`}>
+        <span className="inline-flex h-2 w-2 rounded-full bg-[#c89b6d]" />
+        {task.dueDate}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`${baseClass} bg-white/70 text-[#7f6b5a]`}>
+      <span className="inline-flex h-2 w-2 rounded-full bg-[#c89b6d]" />
+      {task.dueDate}
+    </div>
+  );
+};
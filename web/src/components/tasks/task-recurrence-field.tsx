@@ -0,0 +1,126 @@
+"use client";
+
+import type { TaskRecurrence } from "@/types";
+import {
+  TASK_RECURRENCE_TYPE_LABELS,
+  WEEKDAY_LABELS,
+} from "@/lib/task-recurrence";
+
+type TaskRecurrenceFieldProps = {
+  value: TaskRecurrence | null;
+  onChange: (value: TaskRecurrence | null) => void;
+  disabled?: boolean;
+};
+
+// 種類を切り替えたときの初期値
+const DEFAULT_RULES: Record<TaskRecurrence["type"], TaskRecurrence> = {
+  daily: { type: "daily" },
+  weekly: { type: "weekly", weekdays: [1] },
+  monthly: { type: "monthly", day: 1 },
+  afterCompletion: { type: "afterCompletion", days: 7 },
+};
+
+const inputClassName =
+  "rounded-xl border border-[#ead8c4] bg-white px-3 py-2 text-[#3d3128] shadow-inner focus:border-[#c89b6d] focus:outline-none focus:ring-2 focus:ring-[#f1e6d8]";
+
+const toBoundedInteger = (value: string, min: number, max: number) =>
+  Math.min(max, Math.max(min, Math.trunc(Number(value)) || min));
+
+export const TaskRecurrenceField = ({
+  value,
+  onChange,
+  disabled = false,
+}: TaskRecurrenceFieldProps) => (
+  <div className="flex flex-wrap items-center gap-3 text-sm">
+    <select
+      aria-label="繰り返し"
+      value={value?.type ?? ""}
+      disabled={disabled}
+      onChange={(event) => {
+        const type = event.target.value as TaskRecurrence["type"] | "";
+        onChange(type ? DEFAULT_RULES[type] : null);
+      }}
+      className={inputClassName}
+    >
+      <option value="">繰り返さない</option>
+      {(Object.keys(DEFAULT_RULES) as TaskRecurrence["type"][]).map((type) => (
+        <option key={type} value={type}>
+          {TASK_RECURRENCE_TYPE_LABELS[type]}
+        </option>
+      ))}
+    </select>
+
+    {value?.type === "weekly" && (
+      <div className="flex gap-1" role="group" aria-label="繰り返す曜日">
+        {WEEKDAY_LABELS.map((label, day) => {
+          const active = value.weekdays.includes(day);
+          return (
+            <button
+              key={label}
+              type="button"
+              aria-pressed={active}
+              disabled={disabled || (active && value.weekdays.length === 1)}
+              onClick={() =>
+                onChange({
+                  type: "weekly",
+                  weekdays: active
+                    ? value.weekdays.filter((weekday) => weekday !== day)
+                    : [...value.weekdays, day].sort((a, b) => a - b),
+                })
+              }
+              className={`h-8 w-8 rounded-full border text-xs font-semibold transition ${
+                active
+                  ? "border-[#ad7a46] bg-[#ad7a46] text-white"
+                  : "border-[#ead8c4] bg-white text-[#7f6b5a] hover:bg-[#fff4da]"
+              }`}
+            >
+              {label}
+            </button>
+          );
+        })}
+      </div>
+    )}
+
+    {value?.type === "monthly" && (
+      <label className="flex items-center gap-2 text-[#5b4c40]">
+        毎月
+        <input
+          type="number"
+          min={1}
+          max={31}
+          value={value.day}
+          disabled={disabled}
+          onChange={(event) =>
+            onChange({
+              type: "monthly",
+              day: toBoundedInteger(event.target.value, 1, 31),
+            })
+          }
+          className={`${inputClassName} w-20`}
+        />
+        日（月末を超える日は末日）
+      </label>
+    )}
+
+    {value?.type === "afterCompletion" && (
+      <label className="flex items-center gap-2 text-[#5b4c40]">
+        完了の
+        <input
+          type="number"
+          min={1}
+          max={365}
+          value={value.days}
+          disabled={disabled}
+          onChange={(event) =>
+            onChange({
+              type: "afterCompletion",
+              days: toBoundedInteger(event.target.value, 1, 365),
+            })
+          }
+          className={`${inputClassName} w-20`}
+        />
+        日後を次回の期限にする
+      </label>
+    )}
+  </div>
+);
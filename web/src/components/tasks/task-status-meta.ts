@@ -0,0 +1,57 @@
+import type { Task } from "@/types";
+
+// ガント・ボードで共通の状態ごとの配色と並び順
+export type StatusMeta = {
+  background: string;
+  progress: string;
+  description: string;
+  defaultProgress: number;
+};
+
+export const STATUS_META: Record<Task["status"], StatusMeta> = {
+  未着手: {
+    background: "#f5e8d8",
+    progress: "#d9bb93",
+    description: "未着手",
+    defaultProgress: 0,
+  },
+  進行中: {
+    background: "#ffe9c7",
+    progress: "#f7a436",
+    description: "進行中",
+    defaultProgress: 45,
+  },
+  レビュー待ち: {
+    background: "#dfe8ff",
+    progress: "#4b79ff",
+    description: "レビュー待ち",
+    defaultProgress: 70,
+  },
+  完了: {
+    background: "#dff0df",
+    progress: "#4caf50",
+    description: "完了",
+    defaultProgress: 100,
+  },
+  保留: {
+    background: "#ffe1e1",
+    progress: "#f46d6d",
+    description: "保留",
+    defaultProgress: 10,
+  },
+  棄却: {
+    background: "#e5e5e5",
+    progress: "#9e9e9e",
+    description: "棄却",
+    defaultProgress: 0,
+  },
+};
+
+export const STATUS_ORDER: Task["status"][] = [
+  "進行中",
+  "レビュー待ち",
+  "完了",
+  "未着手",
+  "保留",
+  "棄却",
+];
@@ -0,0 +1,284 @@
+"use client";
+
+import Link from "next/link";
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useRouter } from "next/navigation";
+import type { SavedTaskView, TaskViewDisplayMode } from "@/types";
+import {
+  buildTasksHref,
+  buildTaskViewHref,
+  normalizeTaskViewQuery,
+} from "@/lib/task-views";
+
+type TaskViewTabsProps = {
+  views: SavedTaskView[];
+  defaultViewId: string | null;
+  viewerSlug: string;
+  canShare?: boolean;
+  // 現在の検索条件（normalizeTaskViewQuery 済み）
+  currentQuery: string;
+  displayMode: TaskViewDisplayMode;
+};
+
+type Feedback = { type: "success" | "error"; text: string } | null;
+
+const tabClass = (active: boolean) =>
+  [
+    "inline-flex items-center gap-1.5 rounded-full border px-3 py-1.5 text-xs font-semibold transition",
+    active
+      ? "border-[#ad7a46] bg-[#ad7a46] text-white"
+      : "border-[#ead8c4] bg-white text-[#7f6b5a] hover:bg-[#fff4da]",
+  ].join(" ");
+
+const actionClass =
+  "rounded-full border border-[#ead8c4] px-3 py-1.5 text-xs font-semibold text-[#ad7a46] transition hover:bg-[#fff4da] disabled:cursor-not-allowed disabled:opacity-50";
+
+export const TaskViewTabs = ({
+  views,
+  defaultViewId,
+  viewerSlug,
+  canShare = false,
+  currentQuery,
+  displayMode,
+}: TaskViewTabsProps) => {
+  const router = useRouter();
+  const [isSaving, setIsSaving] = useState(false);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [feedback, setFeedback] = useState<Feedback>(null);
+
+  const activeView = views.find(
+    (view) =>
+      normalizeTaskViewQuery(view.query) === currentQuery &&
+      view.displayMode === displayMode,
+  );
+  const isAllActive = !activeView && currentQuery === "";
+
+  const send = async (
+    url: string,
+    init: RequestInit,
+    fallbackError: string,
+  ) => {
+    setIsSaving(true);
+    setFeedback(null);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        setFeedback({
+          type: "error",
+          text: typeof data.error === "string" ? data.error : fallbackError,
+        });
+        return null;
+      }
+      return data.data;
+    } catch (error) {
+      console.error("tasks.views.request.error", error);
+      setFeedback({ type: "error", text: fallbackError });
+      return null;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = new FormData(event.currentTarget);
+    const view: SavedTaskView | null = await send(
+      "/api/task-views",
+      {
+        method: "POST",
+        body: JSON.stringify({
+          name: String(form.get("name") ?? ""),
+          visibility: form.get("shared") ? "team" : "private",
+          query: currentQuery,
+          displayMode,
+        }),
+      },
+      "ビューを保存できませんでした。",
+    );
+    if (view) {
+      setIsFormOpen(false);
+      setFeedback({ type: "success", text: `「${view.name}」を保存しました。` });
+      router.replace(buildTaskViewHref(view), { scroll: false });
+      router.refresh();
+    }
+  };
+
+  const handleSetDefault = async (viewId: string | null) => {
+    const saved = await send(
+      "/api/task-views/default",
+      { method: "PUT", body: JSON.stringify({ viewId }) },
+      "既定のビューを保存できませんでした。",
+    );
+    if (saved) {
+      setFeedback({
+        type: "success",
+        text: viewId
+          ? "/tasks を開いたときにこのビューを表示します。"
+          : "既定のビューを解除しました。",
+      });
+      router.refresh();
+    }
+  };
+
+  const handleDelete = async (view: SavedTaskView) => {
+    if (!window.confirm(`ビュー「${view.name}」を削除しますか？`)) {
+      return;
+    }
+    const deleted = await send(
+      `/api/task-views/${view.id}`,
+      { method: "DELETE" },
+      "ビューを削除できませんでした。",
+    );
+    if (deleted) {
+      setFeedback({ type: "success", text: `「${view.name}」を削除しました。` });
+      router.refresh();
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Link
+          href={buildTasksHref("", displayMode)}
+          scroll={false}
+          className={tabClass(isAllActive)}
+        >
+          すべて
+          {!defaultViewId && (
+            <span aria-label="既定のビュー" title="既定のビュー">
+              ★
+            </span>
+          )}
+        </Link>
+        {views.map((view) => (
+          <Link
+            key={view.id}
+            href={buildTaskViewHref(view)}
+            scroll={false}
+            className={tabClass(activeView?.id === view.id)}
+            title={
+              view.ownerSlug === viewerSlug
+                ? undefined
+                : `${view.ownerSlug} が共有したビュー`
+            }
+          >
+            {view.name}
+            {view.visibility === "team" && (
+              <span className="rounded-full bg-[#fff0de] px-1.5 text-[10px] text-[#ad7a46]">
+                共有
+              </span>
+            )}
+            {view.id === defaultViewId && (
+              <span aria-label="既定のビュー" title="既定のビュー">
+                ★
+              </span>
+            )}
+          </Link>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {activeView ? (
+          <>
+            {activeView.id === defaultViewId ? (
+              <button
+                type="button"
+                onClick={() => handleSetDefault(null)}
+                disabled={isSaving}
+                className={actionClass}
+              >
+                既定を解除
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => handleSetDefault(activeView.id)}
+                disabled={isSaving}
+                className={actionClass}
+              >
+                既定にする
+              </button>
+            )}
+            {activeView.ownerSlug === viewerSlug && (
+              <button
+                type="button"
+                onClick={() => handleDelete(activeView)}
+                disabled={isSaving}
+                className="rounded-full px-3 py-1.5 text-xs font-semibold text-[#c04747] transition hover:bg-[#fbe8e6] disabled:opacity-50"
+              >
+                削除
+              </button>
+            )}
+          </>
+        ) : isAllActive ? (
+          defaultViewId && (
+            <button
+              type="button"
+              onClick={() => handleSetDefault(null)}
+              disabled={isSaving}
+              className={actionClass}
+            >
+              既定にする
+            </button>
+          )
+        ) : (
+          !isFormOpen && (
+            <button
+              type="button"
+              onClick={() => setIsFormOpen(true)}
+              className={actionClass}
+            >
+              この条件をビューとして保存
+            </button>
+          )
+        )}
+        {feedback && (
+          <p
+            role="status"
+            className={`text-xs ${
+              feedback.type === "success" ? "text-emerald-600" : "text-rose-600"
+            }`}
+          >
+            {feedback.text}
+          </p>
+        )}
+      </div>
+
+      {isFormOpen && !activeView && (
+        <form
+          onSubmit={handleCreate}
+          className="flex flex-wrap items-center gap-3 rounded-xl border border-dashed border-[#ead8c4] bg-[#fffaf5] px-4 py-3 text-sm"
+        >
+          <input
+            name="name"
+            required
+            maxLength={40}
+            placeholder="ビュー名（例: 自分の未完了タスク）"
+            className="min-w-[220px] flex-1 rounded-full border border-[#ead8c4] bg-white px-4 py-2 text-sm text-[#3d3128] placeholder:text-[#c8b5a2] focus:border-[#ad7a46] focus:outline-none focus:ring-2 focus:ring-[#ead8c4]"
+          />
+          {canShare && (
+            <label className="flex items-center gap-2 text-xs text-[#5b4c40]">
+              <input type="checkbox" name="shared" />
+              チームに共有する
+            </label>
+          )}
+          <button type="submit" disabled={isSaving} className={actionClass}>
+            {isSaving ? "保存中..." : "保存"}
+          </button>
+          <button
+            type="button"
+            onClick={() => setIsFormOpen(false)}
+            className="text-xs text-[#7f6b5a] underline-offset-4 hover:underline"
+          >
+            キャンセル
+          </button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,312 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import type { DragEvent } from "react";
+import { useRouter } from "next/navigation";
+import type { Task } from "@/types";
+import {
+  canTransitionTaskStatus,
+  getAllowedNextStatuses,
+  statusRequiresReason,
+} from "@/lib/task-status";
+import { getBlockingTasks, indexTasksById } from "@/lib/task-dependencies";
+import { canEditTask, type TaskEditor } from "@/lib/task-permissions";
+import {
+  STATUS_META,
+  STATUS_ORDER,
+} from "@/components/tasks/task-status-meta";
+import { TaskDueBadge } from "@/components/tasks/task-due-badge";
+
+type Swimlane = "none" | "project" | "assignee";
+
+type TasksBoardProps = {
+  tasks: Task[];
+  // 担当者・作成者・管理者のカードだけドラッグで状態を変更できる
+  editor?: TaskEditor | null;
+};
+
+type BoardFeedback = { type: "success" | "error"; text: string } | null;
+
+const SWIMLANE_OPTIONS: { value: Swimlane; label: string }[] = [
+  { value: "none", label: "なし" },
+  { value: "project", label: "プロジェクト" },
+  { value: "assignee", label: "担当者" },
+];
+
+const PRIORITY_BADGE_CLASS: Record<Task["priority"], string> = {
+  高: "border-[#f5b5a7] bg-[#fff3f0] text-[#c04747]",
+  中: "border-[#ead8c4] bg-[#fff4da] text-[#ad7a46]",
+  低: "border-[#ead8c4] bg-white/70 text-[#7f6b5a]",
+};
+
+const laneKeyOf = (task: Task, swimlane: Swimlane): string => {
+  if (swimlane === "project") return task.projectName || "プロジェクト未設定";
+  if (swimlane === "assignee") return task.assigneeName || "担当者未設定";
+  return "";
+};
+
+export const TasksBoard = ({ tasks, editor = null }: TasksBoardProps) => {
+  const router = useRouter();
+  const [swimlane, setSwimlane] = useState<Swimlane>("none");
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<BoardFeedback>(null);
+  const [now] = useState(() => Date.now());
+  // 楽観的に反映した一覧。サーバーから新しい一覧が届いたら置き換える
+  const [sourceTasks, setSourceTasks] = useState(tasks);
+  const [localTasks, setLocalTasks] = useState(tasks);
+  if (sourceTasks !== tasks) {
+    setSourceTasks(tasks);
+    setLocalTasks(tasks);
+  }
+
+  const tasksById = useMemo(() => indexTasksById(localTasks), [localTasks]);
+  const draggingTask = draggingId ? tasksById.get(draggingId) : undefined;
+
+  const lanes = useMemo(() => {
+    const grouped = new Map<string, Task[]>();
+    localTasks.forEach((task) => {
+      const key = laneKeyOf(task, swimlane);
+      grouped.set(key, [...(grouped.get(key) ?? []), task]);
+    });
+    return Array.from(grouped.entries()).sort(([left], [right]) =>
+      left.localeCompare(right, "ja"),
+    );
+  }, [localTasks, swimlane]);
+
+  const replaceLocalTask = (next: Task) => {
+    setLocalTasks((prev) =>
+      prev.map((task) => (task.taskId === next.taskId ? next : task)),
+    );
+  };
+
+  const moveTask = async (task: Task, status: Task["status"]) => {
+    if (!canTransitionTaskStatus(task.status, status)) {
+      const allowed = getAllowedNextStatuses(task.status);
+      setFeedback({
+        type: "error",
+        text: `${task.status} から ${status} には移動できません（移動できる列: ${allowed.join("・") || "なし"}）`,
+      });
+      return;
+    }
+
+    let statusReason: string | undefined;
+    if (statusRequiresReason(status)) {
+      const input = window.prompt(`「${task.title}」を${status}にする理由`);
+      if (!input?.trim()) {
+        setFeedback({
+          type: "error",
+          text: `${status}にするには理由が必要です。`,
+        });
+        return;
+      }
+      statusReason = input.trim();
+    }
+
+    // 先に列を移してから PATCH し、失敗したら元の列に戻す
+    replaceLocalTask({ ...task, status });
+    setFeedback(null);
+    try {
+      const response = await fetch(`/api/tasks/${task.taskId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          status,
+          statusReason,
+          expectedUpdatedAt: task.updatedAt,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        replaceLocalTask(task);
+        setFeedback({
+          type: "error",
+          text:
+            response.status === 409 && data.current
+              ? "他のメンバーが先に更新していたため元に戻しました。最新の内容を読み込みます。"
+              : typeof data.error === "string"
+                ? `「${task.title}」を移動できませんでした: ${data.error}`
+                : `「${task.title}」を移動できませんでした。`,
+        });
+        if (response.status === 409 && data.current) {
+          router.refresh();
+        }
+        return;
+      }
+      replaceLocalTask(data.data);
+      setFeedback({
+        type: "success",
+        text: `「${task.title}」を${status}に移動しました。`,
+      });
+    } catch (error) {
+      console.error("tasks.board.patch.error", error);
+      replaceLocalTask(task);
+      setFeedback({
+        type: "error",
+        text: `「${task.title}」を移動できませんでした。`,
+      });
+    }
+  };
+
+  const handleDrop = (
+    event: DragEvent<HTMLDivElement>,
+    status: Task["status"],
+  ) => {
+    event.preventDefault();
+    const taskId = event.dataTransfer.getData("text/plain") || draggingId;
+    setDraggingId(null);
+    const task = taskId ? tasksById.get(taskId) : undefined;
+    if (!task || task.status === status) {
+      return;
+    }
+    void moveTask(task, status);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-xs font-semibold text-[#ad7a46]">
+          スイムレーン
+          <select
+            value={swimlane}
+            onChange={(event) => setSwimlane(event.target.value as Swimlane)}
+            className="rounded-full border border-[#ead8c4] bg-white px-3 py-1.5 text-sm text-[#3d3128] focus:border-[#ad7a46] focus:outline-none focus:ring-2 focus:ring-[#ead8c4]"
+          >
+            {SWIMLANE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {feedback && (
+          <p
+            role="status"
+            className={`text-sm ${
+              feedback.type === "success" ? "text-emerald-600" : "text-rose-600"
+            }`}
+          >
+            {feedback.text}
+          </p>
+        )}
+      </div>
+
+      {lanes.length === 0 && (
+        <div className="rounded-xl border border-dashed border-[#ead8c4] bg-[#fffaf5] px-4 py-6 text-center text-sm text-[#b59b85]">
+          タスクデータがありません。Google Sheets連携完了後に表示されます。
+        </div>
+      )}
+
+      {lanes.map(([laneKey, laneTasks]) => (
+        <section key={laneKey || "all"} className="space-y-2">
+          {swimlane !== "none" && (
+            <h3 className="text-sm font-semibold text-[#3d3128]">
+              {laneKey}
+              <span className="ml-2 text-xs font-normal text-[#b59b85]">
+                {laneTasks.length}件
+              </span>
+            </h3>
+          )}
+          <div className="grid gap-3 overflow-x-auto pb-2 md:grid-cols-3 xl:grid-cols-6">
+            {STATUS_ORDER.map((status) => {
+              const meta = STATUS_META[status];
+              const columnTasks = laneTasks.filter(
+                (task) => task.status === status,
+              );
+              const isDropTarget =
+                draggingTask !== undefined &&
+                draggingTask.status !== status &&
+                canTransitionTaskStatus(draggingTask.status, status);
+              return (
+                <div
+                  key={status}
+                  onDragOver={(event) => {
+                    if (isDropTarget) event.preventDefault();
+                  }}
+                  onDrop={(event) => handleDrop(event, status)}
+                  className={[
+                    "flex min-h-[160px] min-w-[200px] flex-col gap-2 rounded-2xl border p-3 transition-colors",
+                    isDropTarget
+                      ? "border-[#ad7a46] border-dashed"
+                      : "border-[#ead8c4]",
+                    draggingTask &&
+                    !isDropTarget &&
+                    draggingTask.status !== status
+                      ? "opacity-50"
+                      : "",
+                  ].join(" ")}
+                  style={{ backgroundColor: `${meta.background}66` }}
+                >
+                  <div className="flex items-center justify-between text-xs font-semibold text-[#5b4c40]">
+                    <span className="flex items-center gap-2">
+                      <span
+                        className="inline-flex h-2.5 w-2.5 rounded-full"
+                        style={{ backgroundColor: meta.progress }}
+                      />
+                      {meta.description}
+                    </span>
+                    <span className="text-[#b59b85]">{columnTasks.length}</span>
+                  </div>
+                  {columnTasks.map((task) => {
+                    const draggable =
+                      canEditTask(editor, task) &&
+                      getAllowedNextStatuses(task.status).length > 0;
+                    const blocked =
+                      task.status !== "完了" &&
+                      task.status !== "棄却" &&
+                      getBlockingTasks(task, tasksById).length > 0;
+                    return (
+                      <div
+                        key={task.taskId}
+                        draggable={draggable}
+                        onDragStart={(event) => {
+                          event.dataTransfer.setData("text/plain", task.taskId);
+                          event.dataTransfer.effectAllowed = "move";
+                          setDraggingId(task.taskId);
+                        }}
+                        onDragEnd={() => setDraggingId(null)}
+                        className={[
+                          "space-y-2 rounded-xl border border-[#ead8c4] bg-white px-3 py-2 text-xs shadow-sm shadow-[#ead8c4]/40",
+                          draggable ? "cursor-grab active:cursor-grabbing" : "",
+                          draggingId === task.taskId ? "opacity-60" : "",
+                        ].join(" ")}
+                      >
+                        <Link
+                          href={`/tasks/${task.taskId}`}
+                          className="block text-sm font-semibold text-[#ad7a46] underline-offset-4 hover:underline"
+                        >
+                          {task.title}
+                        </Link>
+                        {swimlane !== "project" && task.projectName && (
+                          <div className="text-[#7f6b5a]">{task.projectName}</div>
+                        )}
+                        <div className="flex flex-wrap items-center gap-1.5">
+                          <span
+                            className={`inline-flex rounded-full border px-2 py-0.5 font-semibold ${PRIORITY_BADGE_CLASS[task.priority] ?? PRIORITY_BADGE_CLASS["中"]}`}
+                          >
+                            {task.priority}
+                          </span>
+                          {swimlane !== "assignee" && (
+                            <span className="text-[#5b4c40]">
+                              {task.assigneeName || "担当者未設定"}
+                            </span>
+                          )}
+                          {blocked && (
+                            <span className="inline-flex rounded-full bg-[#fbe8e6] px-2 py-0.5 font-semibold text-[#c04747]">
+                              ブロック中
+                            </span>
+                          )}
+                        </div>
+                        <TaskDueBadge task={task} now={now} />
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
@@ -2,68 +2,42 @@
 
 import { useMemo, useState } from "react";
 import type { FC } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
 import { Gantt, ViewMode, type Task as GanttTaskItem } from "gantt-task-react";
 import type { Task } from "@/types";
+import { getBlockingTasks, indexTasksById } from "@/lib/task-dependencies";
+import { canEditTask, type TaskEditor } from "@/lib/task-permissions";
+import {
+  formatChecklistProgress,
+  summarizeChecklist,
+} from "@/lib/task-checklist";
+import {
+  STATUS_META,
+  STATUS_ORDER,
+} from "@/components/tasks/task-status-meta";
 
 type TasksGanttProps = {
   tasks: Task[];
+  // PATCH /api/tasks/[taskId] と同じく、担当者・作成者・管理者のバーだけドラッグで変更できる
+  editor?: TaskEditor | null;
 };
 
-type StatusMeta = {
-  background: string;
-  progress: string;
-  description: string;
-  defaultProgress: number;
-};
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
 
-const STATUS_META: Record<Task["status"], StatusMeta> = {
-  未着手: {
-    background: "#f5e8d8",
-    progress: "#d9bb93",
-    description: "未着手",
-    defaultProgress: 0,
-  },
-  進行中: {
-    background: "#ffe9c7",
-    progress: "#f7a436",
-    description: "進行中",
-    defaultProgress: 45,
-  },
-  レビュー待ち: {
-    background: "#dfe8ff",
-    progress: "#4b79ff",
-    description: "レビュー待ち",
-    defaultProgress: 70,
-  },
-  完了: {
-    background: "#dff0df",
-    progress: "#4caf50",
-    description: "完了",
-    defaultProgress: 100,
-  },
-  保留: {
-    background: "#ffe1e1",
-    progress: "#f46d6d",
-    description: "保留",
-    defaultProgress: 10,
-  },
-  棄却: {
-    background: "#e5e5e5",
-    progress: "#9e9e9e",
-    description: "棄却",
-    defaultProgress: 0,
-  },
-};
+// 完了・棄却のタスクは日程を動かさない
+const LOCKED_STATUSES: Task["status"][] = ["完了", "棄却"];
 
-const STATUS_ORDER: Task["status"][] = [
+// 進捗バーの操作は、ガント上の既定進捗が最も近い状態への変更として扱う
+const PROGRESS_STATUSES: Task["status"][] = [
+  "未着手",
   "進行中",
   "レビュー待ち",
   "完了",
-  "未着手",
-  "保留",
-  "棄却",
 ];
 
+type GanttFeedback = { type: "success" | "error"; text: string } | null;
+
 const parseDate = (value?: string | null): Date | null => {
   if (!value) {
     return null;
@@ -97,9 +71,13 @@ const formatDate = (date: Date | null): string => {
   }).format(date);
 };
 
-type ExtendedGanttTask = GanttTaskItem & { payload: Task };
+type ExtendedGanttTask = GanttTaskItem & { payload: Task; blocked: boolean };
 
-const toGanttTask = (task: Task): ExtendedGanttTask | null => {
+const toGanttTask = (
+  task: Task,
+  tasksById: Map<string, Task>,
+  editor: TaskEditor | null,
+): ExtendedGanttTask | null => {
   const startCandidate =
     resolveDate(task.startDate, task.dueDate, task.createdAt) ?? new Date();
   const endCandidate =
@@ -113,17 +91,26 @@ const toGanttTask = (task: Task): ExtendedGanttTask | null => {
   }
 
   const statusMeta = STATUS_META[task.status] ?? STATUS_META["未着手"];
+  // バーの進捗は状態を表すため、チェックリストの完了数は名前に添える
+  const checklist = summarizeChecklist(task.checklist);
+  const title = task.title || task.projectName || "名称未設定";
 
   return {
     id: task.taskId,
-    name: task.title || task.projectName || "名称未設定",
+    name: checklist
+      ? `${title} ☑${formatChecklistProgress(checklist)}`
+      : title,
     start: normalizedStart,
     end: normalizedEnd,
     progress: statusMeta.defaultProgress,
     type: "task",
-    dependencies: [],
+    // 依存先から矢印を引く（一覧に存在しないIDはライブラリが描画できないため除く）
+    dependencies: (task.dependsOn ?? []).filter((dependency) =>
+      tasksById.has(dependency),
+    ),
     project: task.projectName,
-    isDisabled: false,
+    isDisabled:
+      !canEditTask(editor, task) || LOCKED_STATUSES.includes(task.status),
     styles: {
       backgroundColor: statusMeta.background,
       progressColor: statusMeta.progress,
@@ -131,6 +118,7 @@ const toGanttTask = (task: Task): ExtendedGanttTask | null => {
       progressSelectedColor: statusMeta.progress,
     },
     payload: task,
+    blocked: getBlockingTasks(task, tasksById).length > 0,
   };
 };
 
@@ -241,6 +229,20 @@ const TaskListTable: FC<TaskListTableProps> = ({
               }}
               title={task.name}
             >
+              {task.blocked && (
+                <span
+                  style={{
+                    marginRight: 6,
+                    padding: "1px 6px",
+                    borderRadius: 9999,
+                    backgroundColor: "#fbe8e6",
+                    color: "#c04747",
+                    fontSize: "10px",
+                  }}
+                >
+                  ブロック中
+                </span>
+              )}
               {task.name}
               {(assignee || project) && (
                 <div
@@ -309,18 +311,129 @@ const StatusLegend = () => (
   </div>
 );
 
-export const TasksGantt = ({ tasks }: TasksGanttProps) => {
+const formatDateParam = (date: Date) => format(date, "yyyy-MM-dd");
+
+const nearestStatusForProgress = (progress: number): Task["status"] =>
+  PROGRESS_STATUSES.reduce((nearest, status) =>
+    Math.abs(STATUS_META[status].defaultProgress - progress) <
+    Math.abs(STATUS_META[nearest].defaultProgress - progress)
+      ? status
+      : nearest,
+  );
+
+export const TasksGantt = ({ tasks, editor = null }: TasksGanttProps) => {
+  const router = useRouter();
   const [viewMode, setViewMode] = useState<ViewMode>(ViewMode.Week);
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  const [feedback, setFeedback] = useState<GanttFeedback>(null);
+  // 楽観的に反映した一覧。サーバーから新しい一覧が届いたら置き換える
+  const [sourceTasks, setSourceTasks] = useState(tasks);
+  const [localTasks, setLocalTasks] = useState(tasks);
+  if (sourceTasks !== tasks) {
+    setSourceTasks(tasks);
+    setLocalTasks(tasks);
+  }
 
   const ganttTasks = useMemo<ExtendedGanttTask[]>(() => {
-    return tasks
-      .map(toGanttTask)
+    const tasksById = indexTasksById(localTasks);
+    return localTasks
+      .map((task) => toGanttTask(task, tasksById, editor))
       .filter((item): item is ExtendedGanttTask => item !== null)
       .sort((a, b) => a.start.getTime() - b.start.getTime());
-  }, [tasks]);
+  }, [localTasks, editor]);
+
+  const replaceLocalTask = (next: Task) => {
+    setLocalTasks((prev) =>
+      prev.map((task) => (task.taskId === next.taskId ? next : task)),
+    );
+  };
+
+  /**
+   * 変更を先に画面へ反映してから PATCH し、失敗したら元に戻す。
+   * false を返すとガント側でもバーの位置が元に戻る。
+   */
+  const patchTask = async (
+    original: Task,
+    changes: Partial<Pick<Task, "startDate" | "dueDate" | "status">>,
+  ): Promise<boolean> => {
+    replaceLocalTask({ ...original, ...changes });
+    setFeedback(null);
+    try {
+      const response = await fetch(`/api/tasks/${original.taskId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...changes,
+          expectedUpdatedAt: original.updatedAt,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        replaceLocalTask(original);
+        setFeedback({
+          type: "error",
+          text:
+            response.status === 409 && data.current
+              ? "他のメンバーが先に更新していたため元に戻しました。最新の内容を読み込みます。"
+              : typeof data.error === "string"
+                ? `「${original.title}」を更新できませんでした: ${data.error}`
+                : `「${original.title}」を更新できませんでした。`,
+        });
+        if (response.status === 409 && data.current) {
+          router.refresh();
+        }
+        return false;
+      }
+      replaceLocalTask(data.data);
+      setFeedback({
+        type: "success",
+        text: `「${original.title}」を更新しました。`,
+      });
+      return true;
+    } catch (error) {
+      console.error("tasks.gantt.patch.error", error);
+      replaceLocalTask(original);
+      setFeedback({
+        type: "error",
+        text: `「${original.title}」を更新できませんでした。`,
+      });
+      return false;
+    }
+  };
+
+  const handleDateChange = async (item: GanttTaskItem) => {
+    const current = ganttTasks.find((task) => task.id === item.id);
+    if (!current || current.isDisabled) {
+      return false;
+    }
+    // 実際に動いた端の日付だけを送り、未設定の開始日を勝手に埋めない
+    const changes: Partial<Pick<Task, "startDate" | "dueDate">> = {};
+    if (formatDateParam(item.start) !== formatDateParam(current.start)) {
+      changes.startDate = formatDateParam(item.start);
+    }
+    if (formatDateParam(item.end) !== formatDateParam(current.end)) {
+      changes.dueDate = formatDateParam(item.end);
+    }
+    if (Object.keys(changes).length === 0) {
+      return false;
+    }
+    return patchTask(current.payload, changes);
+  };
+
+  const handleProgressChange = async (item: GanttTaskItem) => {
+    const current = ganttTasks.find((task) => task.id === item.id);
+    if (!current || current.isDisabled) {
+      return false;
+    }
+    const status = nearestStatusForProgress(item.progress);
+    if (status === current.payload.status) {
+      return false;
+    }
+    return patchTask(current.payload, { status });
+  };
 
   const hasRenderableTasks = ganttTasks.length > 0;
+  const hasEditableTasks = ganttTasks.some((task) => !task.isDisabled);
 
   const viewOptions: { mode: ViewMode; label: string }[] = [
     { mode: ViewMode.Day, label: "日表示" },
@@ -345,7 +458,9 @@ export const TasksGantt = ({ tasks }: TasksGanttProps) => {
             ガントチャート
           </h2>
           <p className="text-sm text-[#7f6b5a]">
-            スプレッドシートの開始日・期限を元に自動描画しています。
+            スプレッドシートの開始日・期限を元に自動描画しています。矢印は依存関係です。
+            {hasEditableTasks &&
+              " 編集できるタスクはバーをドラッグすると開始日・期限を、進捗をドラッグすると状態を変更できます。"}
           </p>
         </div>
         <div className="flex items-center gap-2">
@@ -367,6 +482,17 @@ export const TasksGantt = ({ tasks }: TasksGanttProps) => {
         </div>
       </div>
 
+      {feedback && (
+        <p
+          role="status"
+          className={`text-sm ${
+            feedback.type === "success" ? "text-emerald-600" : "text-rose-600"
+          }`}
+        >
+          {feedback.text}
+        </p>
+      )}
+
       <div className="rounded-2xl border border-[#ead8c4] bg-white p-4 shadow-inner shadow-[#ead8c4]/40">
         {hasRenderableTasks ? (
           <Gantt
@@ -382,6 +508,10 @@ export const TasksGantt = ({ tasks }: TasksGanttProps) => {
             rowHeight={56}
             ganttHeight={ganttHeight}
             barCornerRadius={8}
+            arrowColor="#c89b6d"
+            timeStep={MS_PER_DAY}
+            onDateChange={handleDateChange}
+            onProgressChange={handleProgressChange}
             onSelect={(task, isSelected) =>
               setSelectedTaskId(isSelected ? task.id : null)
             }
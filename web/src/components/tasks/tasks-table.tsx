@@ -2,131 +2,175 @@
 
 import Link from "next/link";
 import { useMemo, useState } from "react";
-import type { Task } from "@/types";
+import type { FormEvent } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import type { Task, TaskListResult, TaskViewDisplayMode } from "@/types";
+import type { TaskListQuery, TaskListSortKey } from "@/validation";
+import { getBlockingTasks, indexTasksById } from "@/lib/task-dependencies";
+import { canEditTask, type TaskEditor } from "@/lib/task-permissions";
+import { hasRole } from "@/lib/roles";
+import {
+  formatChecklistProgress,
+  summarizeChecklist,
+} from "@/lib/task-checklist";
+import { buildTasksHref } from "@/lib/task-views";
+import { STATUS_ORDER } from "@/components/tasks/task-status-meta";
+import { TaskDueBadge } from "@/components/tasks/task-due-badge";
+import { TasksGantt } from "@/components/tasks/tasks-gantt";
+import { TaskBulkBar } from "@/components/tasks/task-bulk-bar";
 
 type TasksTableProps = {
-  tasks: Task[];
+  result: TaskListResult;
+  query: TaskListQuery;
+  // ブロック判定と絞り込み候補に使う全タスク
+  allTasks: Task[];
+  errorMessage?: string | null;
+  displayMode?: TaskViewDisplayMode;
+  // ガント表示ではページングせず、条件に一致したタスクをすべて描く
+  ganttTasks?: Task[];
+  // 担当者・作成者・管理者のタスクだけ選択・ドラッグで変更できる
+  editor?: TaskEditor | null;
+  // 一括操作の移動先候補
+  taskSheetTitles?: string[];
 };
 
-const PRIORITY_FILTER_OPTIONS: Task["priority"][] = ["高", "中", "低"];
-
-const normalizeText = (value?: string | null) =>
-  (value ?? "")
-    .normalize("NFKC")
-    .replace(/\u200B/g, "")
-    .replace(/\+/g, " ")
-    .replace(/\s+/g, " ")
-    .trim()
-    .toLowerCase();
+const DISPLAY_OPTIONS: { value: TaskViewDisplayMode; label: string }[] = [
+  { value: "table", label: "表" },
+  { value: "gantt", label: "ガント" },
+];
 
-const matchesQuery = (task: Task, query: string) => {
-  if (!query) return true;
-  const normalizedFields = [
-    task.title,
-    task.projectName,
-    task.assigneeName,
-    task.notes,
-    task.detailUrl,
-    task.sheetTitle,
-    (task.tags ?? []).join(" "),
-  ]
-    .map((value) => normalizeText(value))
-    .filter(Boolean);
+const PRIORITY_FILTER_OPTIONS: Task["priority"][] = ["高", "中", "低"];
 
-  return normalizedFields.some((value) => value.includes(query));
-};
+const SORT_OPTIONS: { value: TaskListSortKey; label: string }[] = [
+  { value: "default", label: "標準（期限→優先度→更新日）" },
+  { value: "dueDate", label: "期限が近い順" },
+  { value: "-dueDate", label: "期限が遠い順" },
+  { value: "priority", label: "優先度が高い順" },
+  { value: "-priority", label: "優先度が低い順" },
+  { value: "-updatedAt", label: "更新が新しい順" },
+  { value: "updatedAt", label: "更新が古い順" },
+];
 
-const toTimestamp = (value?: string | null): number | null => {
-  if (!value) return null;
-  const parsed = Date.parse(value);
-  return Number.isNaN(parsed) ? null : parsed;
-};
+// URL のクエリとして持つ絞り込み条件。カーソルは条件が変わるたびに捨てる
+const FILTER_KEYS = [
+  "q",
+  "assignee",
+  "project",
+  "category",
+  "status",
+  "priority",
+  "dueFrom",
+  "dueTo",
+  "sort",
+] as const;
 
-export const TasksTable = ({ tasks }: TasksTableProps) => {
-  const [query, setQuery] = useState("");
-  const [priorityFilter, setPriorityFilter] = useState<"all" | Task["priority"]>(
-    "all",
+const uniqueSorted = (values: string[]) =>
+  Array.from(new Set(values.filter(Boolean))).sort((left, right) =>
+    left.localeCompare(right, "ja"),
   );
-  const [dueFrom, setDueFrom] = useState("");
-  const [dueTo, setDueTo] = useState("");
+
+export const TasksTable = ({
+  result,
+  query,
+  allTasks,
+  errorMessage,
+  displayMode = "table",
+  ganttTasks = [],
+  editor = null,
+  taskSheetTitles = [],
+}: TasksTableProps) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
   const [now] = useState(() => Date.now());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
 
-  const normalizedQuery = normalizeText(query);
+  const tasks = result.items;
+  // 選択は表示中のページに限る（ページや条件が変わると外れたものは数えない）
+  const editableTaskIds = tasks
+    .filter((task) => canEditTask(editor, task))
+    .map((task) => task.taskId);
+  const selectedTaskIds = editableTaskIds.filter((taskId) =>
+    selectedIds.has(taskId),
+  );
+  const allSelected =
+    editableTaskIds.length > 0 &&
+    selectedTaskIds.length === editableTaskIds.length;
+  const showSelection =
+    hasRole(editor?.role, "member") && displayMode === "table";
+  const tasksById = useMemo(() => indexTasksById(allTasks), [allTasks]);
+  const assigneeOptions = useMemo(
+    () => uniqueSorted(allTasks.map((task) => task.assigneeName)),
+    [allTasks],
+  );
+  const projectOptions = useMemo(
+    () => uniqueSorted(allTasks.map((task) => task.projectName)),
+    [allTasks],
+  );
+  const categoryOptions = useMemo(
+    () => uniqueSorted(allTasks.flatMap((task) => task.tags ?? [])),
+    [allTasks],
+  );
+  const selectedStatuses = query.status ?? [];
 
-  const dueFromTimestamp = useMemo(() => {
-    if (!dueFrom) {
-      return null;
-    }
-    const timestamp = Date.parse(dueFrom);
-    return Number.isNaN(timestamp) ? null : timestamp;
-  }, [dueFrom]);
+  const hasActiveFilters = FILTER_KEYS.some((key) =>
+    key === "sort" ? query.sort !== "default" : searchParams.has(key),
+  );
 
-  const dueToTimestamp = useMemo(() => {
-    if (!dueTo) {
-      return null;
-    }
-    const timestamp = Date.parse(dueTo);
-    if (Number.isNaN(timestamp)) {
-      return null;
+  const buildHref = (updates: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    Object.entries(updates).forEach(([key, value]) => {
+      if (value) {
+        params.set(key, value);
+      } else {
+        params.delete(key);
+      }
+    });
+    // 条件なしの /tasks は既定ビューへ振り分けるため、表示モードを常に付ける
+    if (!params.has("display")) {
+      params.set("display", displayMode);
     }
-    return timestamp + 24 * 60 * 60 * 1000 - 1;
-  }, [dueTo]);
-
-  const hasRangeError =
-    dueFromTimestamp !== null &&
-    dueToTimestamp !== null &&
-    dueFromTimestamp > dueToTimestamp;
+    return `${pathname}?${params.toString()}`;
+  };
 
-  const hasActiveFilters =
-    Boolean(normalizedQuery) ||
-    priorityFilter !== "all" ||
-    Boolean(dueFrom) ||
-    Boolean(dueTo);
+  const updateFilters = (updates: Record<string, string | null>) => {
+    router.replace(buildHref({ ...updates, cursor: null }), { scroll: false });
+  };
 
   const resetFilters = () => {
-    setQuery("");
-    setPriorityFilter("all");
-    setDueFrom("");
-    setDueTo("");
+    router.replace(buildTasksHref("", displayMode), { scroll: false });
   };
 
-  const filteredTasks = useMemo(() => {
-    if (hasRangeError) {
-      return [];
-    }
+  const handleKeywordSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const keyword = new FormData(event.currentTarget).get("q");
+    updateFilters({ q: typeof keyword === "string" ? keyword.trim() : null });
+  };
 
-    return tasks.filter((task) => {
-      if (normalizedQuery && !matchesQuery(task, normalizedQuery)) {
-        return false;
-      }
-      if (priorityFilter !== "all" && task.priority !== priorityFilter) {
-        return false;
-      }
-      if (dueFromTimestamp !== null || dueToTimestamp !== null) {
-        if (!task.dueDate) {
-          return false;
-        }
-        const due = toTimestamp(task.dueDate);
-        if (due === null) {
-          return false;
-        }
-        if (dueFromTimestamp !== null && due < dueFromTimestamp) {
-          return false;
-        }
-        if (dueToTimestamp !== null && due > dueToTimestamp) {
-          return false;
-        }
+  const toggleStatus = (status: Task["status"]) => {
+    const next = selectedStatuses.includes(status)
+      ? selectedStatuses.filter((value) => value !== status)
+      : STATUS_ORDER.filter(
+          (value) => value === status || selectedStatuses.includes(value),
+        );
+    updateFilters({ status: next.join(",") || null });
+  };
+
+  const toggleSelected = (taskId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
       }
-      return true;
+      return next;
     });
-  }, [
-    tasks,
-    normalizedQuery,
-    priorityFilter,
-    dueFromTimestamp,
-    dueToTimestamp,
-    hasRangeError,
-  ]);
+  };
+
+  const toggleAllSelected = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(editableTaskIds));
+  };
 
   const fieldLabelClass =
     "text-xs font-semibold uppercase tracking-widest text-[#ad7a46]";
@@ -135,56 +179,53 @@ export const TasksTable = ({ tasks }: TasksTableProps) => {
   const dateInputClass =
     "w-full rounded-full border border-[#ead8c4] bg-white px-3 py-2 text-sm text-[#3d3128] focus:border-[#ad7a46] focus:outline-none focus:ring-2 focus:ring-[#ead8c4]";
 
-  const renderDueDateBadge = (task: Task) => {
-    if (!task.dueDate) {
-      return <span className="text-xs text-[#b59b85]">未設定</span>;
-    }
-
-    const due = toTimestamp(task.dueDate);
-    const baseClass =
-      "inline-flex items-center gap-2 rounded-full px-3 py-1 text-xs font-medium";
-    if (due === null) {
-      return (
-        <div className={`${baseClass} bg-white/70 text-[#7f6b5a]`}>
-          <span className="inline-flex h-2 w-2 rounded-full bg-[#c89b6d]" />
-          {task.dueDate}
-        </div>
-      );
+  const renderBlockedBadge = (task: Task) => {
+    if (task.status === "完了" || task.status === "棄却") {
+      return null;
     }
-
-    if (due < now && task.status !== "完了") {
-      return (
-        <div className={`${baseClass} bg-[#fbe8e6] text-[#c04747]`}>
-          <span className="inline-flex h-2 w-2 rounded-full bg-[#c04747]" />
-          {task.dueDate}
-        </div>
-      );
+    const blockers = getBlockingTasks(task, tasksById);
+    if (blockers.length === 0) {
+      return null;
     }
+    return (
+      <div
+        title={`未完了の依存タスク: ${blockers.map((blocker) => blocker.title).join("、")}`}
+        className="mt-1 inline-flex items-center gap-1 rounded-full bg-[#fbe8e6] px-3 py-1 text-xs font-semibold text-[#c04747]"
+      >
+        <span className="inline-flex h-1.5 w-1.5 rounded-full bg-[#c04747]" />
+        ブロック中 {blockers.length}
+      </div>
+    );
+  };
 
-    const diffDays = Math.ceil((due - now) / (1000 * 60 * 60 * 24));
-    if (diffDays >= 0 && diffDays <= 3 && task.status !== "完了") {
-      return (
-        <div className={`${baseClass} bg-[#fff4da] text-[#ad7a46]`}>
-          <span className="inline-flex h-2 w-2 rounded-full bg-[#c89b6d]" />
-          {task.dueDate}
-        </div>
-      );
+  const renderChecklistProgress = (task: Task) => {
+    const progress = summarizeChecklist(task.checklist);
+    if (!progress) {
+      return null;
     }
-
+    const complete = progress.done === progress.total;
     return (
-      <div className={`${baseClass} bg-white/70 text-[#7f6b5a]`}>
-        <span className="inline-flex h-2 w-2 rounded-full bg-[#c89b6d]" />
-        {task.dueDate}
+      <div
+        title="チェックリストの完了数"
+        className="mt-1 flex items-center gap-2 text-xs text-[#7f6b5a]"
+      >
+        <span className="h-1.5 w-16 overflow-hidden rounded-full bg-[#f1e6d8]">
+          <span
+            className={`block h-full rounded-full ${complete ? "bg-[#1d9a57]" : "bg-[#c89b6d]"}`}
+            style={{ width: `${(progress.done / progress.total) * 100}%` }}
+          />
+        </span>
+        ☑ {formatChecklistProgress(progress)}
       </div>
     );
   };
 
   const renderEmptyState = () => {
-    if (tasks.length === 0) {
+    if (allTasks.length === 0) {
       return (
         <tr>
           <td
-            colSpan={7}
+            colSpan={showSelection ? 8 : 7}
             className="px-4 py-8 text-center text-sm text-[#b59b85]"
           >
             タスクデータがありません。Google Sheets連携完了後に表示されます。
@@ -196,7 +237,7 @@ export const TasksTable = ({ tasks }: TasksTableProps) => {
     return (
       <tr>
         <td
-          colSpan={7}
+          colSpan={showSelection ? 8 : 7}
           className="px-4 py-8 text-center text-sm text-[#b59b85]"
         >
           条件に一致するタスクがありません。検索条件を見直してください。
@@ -209,22 +250,82 @@ export const TasksTable = ({ tasks }: TasksTableProps) => {
     <div className="space-y-4">
       <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
         <div className="flex flex-1 flex-wrap items-end gap-3">
-          <label className="flex min-w-[220px] flex-1 flex-col gap-1 md:min-w-[260px]">
-            <span className={fieldLabelClass}>キーワード</span>
-            <input
-              type="search"
-              value={query}
-              onChange={(event) => setQuery(event.target.value)}
-              placeholder="タスク名・PJ名・担当者"
+          <form
+            onSubmit={handleKeywordSubmit}
+            className="flex min-w-[220px] flex-1 flex-col gap-1 md:min-w-[260px]"
+          >
+            <label className="flex flex-col gap-1">
+              <span className={fieldLabelClass}>キーワード</span>
+              <input
+                key={query.q ?? ""}
+                type="search"
+                name="q"
+                defaultValue={query.q ?? ""}
+                placeholder="タスク名・PJ名・担当者（Enterで検索）"
+                className={inputBaseClass}
+              />
+            </label>
+          </form>
+          <label className="flex w-full max-w-[180px] flex-col gap-1">
+            <span className={fieldLabelClass}>担当者</span>
+            <select
+              value={query.assignee ?? ""}
+              onChange={(event) =>
+                updateFilters({ assignee: event.target.value || null })
+              }
               className={inputBaseClass}
-            />
+            >
+              <option value="">すべて</option>
+              {assigneeOptions.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex w-full max-w-[200px] flex-col gap-1">
+            <span className={fieldLabelClass}>プロジェクト</span>
+            <select
+              value={query.project ?? ""}
+              onChange={(event) =>
+                updateFilters({ project: event.target.value || null })
+              }
+              className={inputBaseClass}
+            >
+              <option value="">すべて</option>
+              {projectOptions.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex w-full max-w-[160px] flex-col gap-1">
+            <span className={fieldLabelClass}>カテゴリ</span>
+            <select
+              value={query.category ?? ""}
+              onChange={(event) =>
+                updateFilters({ category: event.target.value || null })
+              }
+              className={inputBaseClass}
+            >
+              <option value="">すべて</option>
+              {categoryOptions.map((option) => (
+                <option key={option} value={option}>
+                  #{option}
+                </option>
+              ))}
+            </select>
           </label>
           <label className="flex w-full max-w-[160px] flex-col gap-1">
             <span className={fieldLabelClass}>優先度</span>
             <select
-              value={priorityFilter}
+              value={query.priority?.length === 1 ? query.priority[0] : "all"}
               onChange={(event) =>
-                setPriorityFilter(event.target.value as "all" | Task["priority"])
+                updateFilters({
+                  priority:
+                    event.target.value === "all" ? null : event.target.value,
+                })
               }
               className={inputBaseClass}
             >
@@ -241,8 +342,10 @@ export const TasksTable = ({ tasks }: TasksTableProps) => {
               <span className={fieldLabelClass}>期限(開始)</span>
               <input
                 type="date"
-                value={dueFrom}
-                onChange={(event) => setDueFrom(event.target.value)}
+                value={query.dueFrom ?? ""}
+                onChange={(event) =>
+                  updateFilters({ dueFrom: event.target.value || null })
+                }
                 className={dateInputClass}
               />
             </label>
@@ -250,16 +353,60 @@ export const TasksTable = ({ tasks }: TasksTableProps) => {
               <span className={fieldLabelClass}>期限(終了)</span>
               <input
                 type="date"
-                value={dueTo}
-                onChange={(event) => setDueTo(event.target.value)}
+                value={query.dueTo ?? ""}
+                onChange={(event) =>
+                  updateFilters({ dueTo: event.target.value || null })
+                }
                 className={dateInputClass}
               />
             </label>
           </div>
+          <label className="flex w-full max-w-[220px] flex-col gap-1">
+            <span className={fieldLabelClass}>並び順</span>
+            <select
+              value={query.sort}
+              onChange={(event) =>
+                updateFilters({
+                  sort:
+                    event.target.value === "default" ? null : event.target.value,
+                })
+              }
+              className={inputBaseClass}
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
         </div>
         <div className="flex flex-col items-end gap-2 text-xs text-[#7f6b5a]">
+          <div className="flex gap-1">
+            {DISPLAY_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                aria-pressed={displayMode === option.value}
+                onClick={() =>
+                  router.replace(
+                    buildHref({ display: option.value, cursor: null }),
+                    { scroll: false },
+                  )
+                }
+                className={`rounded-full border px-3 py-1 font-semibold transition ${
+                  displayMode === option.value
+                    ? "border-[#ad7a46] bg-[#ad7a46] text-white"
+                    : "border-[#ead8c4] bg-white text-[#7f6b5a] hover:bg-[#fff4da]"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
           <div>
-            表示中 {filteredTasks.length} 件 / 全体 {tasks.length} 件
+            表示中 {displayMode === "gantt" ? ganttTasks.length : tasks.length} 件 / 該当 {result.total} 件 / 全体{" "}
+            {allTasks.length} 件
           </div>
           {hasActiveFilters && (
             <button
@@ -272,92 +419,179 @@ export const TasksTable = ({ tasks }: TasksTableProps) => {
           )}
         </div>
       </div>
-      {hasRangeError && (
-        <p className="text-xs font-semibold text-[#c04747]">
-          期限(開始)は期限(終了)より前の日付を選択してください。
-        </p>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={fieldLabelClass}>状態</span>
+        {STATUS_ORDER.map((status) => {
+          const active = selectedStatuses.includes(status);
+          return (
+            <button
+              key={status}
+              type="button"
+              aria-pressed={active}
+              onClick={() => toggleStatus(status)}
+              className={`rounded-full border px-3 py-1 text-xs font-semibold transition ${
+                active
+                  ? "border-[#ad7a46] bg-[#ad7a46] text-white"
+                  : "border-[#ead8c4] bg-white text-[#7f6b5a] hover:bg-[#fff4da]"
+              }`}
+            >
+              {status}
+            </button>
+          );
+        })}
+      </div>
+      {errorMessage && (
+        <p className="text-xs font-semibold text-[#c04747]">{errorMessage}</p>
       )}
 
-      <div className="overflow-hidden rounded-xl border border-dashed border-[#ead8c4] bg-[#fffaf5]">
-        <table className="min-w-full divide-y divide-[#ead8c4] text-sm">
-          <thead className="bg-[#f9efe3] text-left text-xs uppercase tracking-wide text-[#ad7a46]">
-            <tr>
-              <th className="px-4 py-3 font-semibold">タスク</th>
-              <th className="px-4 py-3 font-semibold">担当</th>
-              <th className="px-4 py-3 font-semibold">状態</th>
-              <th className="px-4 py-3 font-semibold">開始日</th>
-              <th className="px-4 py-3 font-semibold">期限</th>
-              <th className="px-4 py-3 font-semibold">終了日</th>
-              <th className="px-4 py-3 font-semibold">優先度</th>
-            </tr>
-          </thead>
-          <tbody className="divide-y divide-[#f1e6d8] bg-[#fffdf9] text-[#5b4c40]">
-            {filteredTasks.length === 0
-              ? renderEmptyState()
-              : filteredTasks.map((task) => (
-                  <tr
-                    key={task.taskId}
-                    className="group transition-colors duration-200 hover:bg-[#f9efe3]/60"
-                  >
-                    <td className="px-4 py-3">
-                      <Link
-                        href={`/tasks/${task.taskId}`}
-                        className="font-semibold text-[#ad7a46] underline-offset-4 hover:underline"
-                      >
-                        {task.title}
-                      </Link>
-                      <div className="mt-1 text-xs text-[#7f6b5a]">
-                        {task.projectName}
-                      </div>
-                      {task.detailUrl && (
-                        <div className="mt-1 text-xs">
-                          <a
-                            href={task.detailUrl}
-                            target="_blank"
-                            rel="noreferrer"
-                            className="text-[#ad7a46] underline-offset-4 hover:underline"
-                          >
-                            詳細を見る
-                          </a>
-                        </div>
+      {showSelection && (
+        <TaskBulkBar
+          selectedTaskIds={selectedTaskIds}
+          tasksById={tasksById}
+          assigneeOptions={assigneeOptions}
+          tagOptions={categoryOptions}
+          sheetTitles={taskSheetTitles}
+          onClear={() => setSelectedIds(new Set())}
+          onComplete={(failedTaskIds) => setSelectedIds(new Set(failedTaskIds))}
+        />
+      )}
+
+      {displayMode === "gantt" ? (
+        <TasksGantt tasks={ganttTasks} editor={editor} />
+      ) : (
+        <div className="overflow-hidden rounded-xl border border-dashed border-[#ead8c4] bg-[#fffaf5]">
+          <table className="min-w-full divide-y divide-[#ead8c4] text-sm">
+            <thead className="bg-[#f9efe3] text-left text-xs uppercase tracking-wide text-[#ad7a46]">
+              <tr>
+                {showSelection && (
+                  <th className="w-10 px-4 py-3">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={toggleAllSelected}
+                      disabled={editableTaskIds.length === 0}
+                      aria-label="表示中のタスクをすべて選択"
+                      className="h-4 w-4 accent-[#ad7a46]"
+                    />
+                  </th>
+                )}
+                <th className="px-4 py-3 font-semibold">タスク</th>
+                <th className="px-4 py-3 font-semibold">担当</th>
+                <th className="px-4 py-3 font-semibold">状態</th>
+                <th className="px-4 py-3 font-semibold">開始日</th>
+                <th className="px-4 py-3 font-semibold">期限</th>
+                <th className="px-4 py-3 font-semibold">終了日</th>
+                <th className="px-4 py-3 font-semibold">優先度</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[#f1e6d8] bg-[#fffdf9] text-[#5b4c40]">
+              {tasks.length === 0
+                ? renderEmptyState()
+                : tasks.map((task) => (
+                    <tr
+                      key={task.taskId}
+                      className={`group transition-colors duration-200 hover:bg-[#f9efe3]/60 ${
+                        selectedIds.has(task.taskId) ? "bg-[#fff4da]/70" : ""
+                      }`}
+                    >
+                      {showSelection && (
+                        <td className="w-10 px-4 py-3">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.has(task.taskId)}
+                            onChange={() => toggleSelected(task.taskId)}
+                            disabled={!editableTaskIds.includes(task.taskId)}
+                            aria-label={`${task.title}を選択`}
+                            className="h-4 w-4 accent-[#ad7a46]"
+                          />
+                        </td>
                       )}
-                    </td>
-                    <td className="px-4 py-3">{task.assigneeName}</td>
-                    <td className="px-4 py-3">
-                      <span className="inline-flex rounded-full bg-[#fff0de] px-3 py-1 text-xs font-semibold uppercase tracking-wide text-[#ad7a46]">
-                        {task.status}
-                      </span>
-                    </td>
-                    <td className="px-4 py-3">
-                      {task.startDate ? (
-                        <span className="text-xs font-medium text-[#7f6b5a]">
-                          {task.startDate}
+                      <td className="px-4 py-3">
+                        <Link
+                          href={`/tasks/${task.taskId}`}
+                          className="font-semibold text-[#ad7a46] underline-offset-4 hover:underline"
+                        >
+                          {task.title}
+                        </Link>
+                        <div className="mt-1 text-xs text-[#7f6b5a]">
+                          {task.projectName}
+                        </div>
+                        {renderChecklistProgress(task)}
+                        {task.detailUrl && (
+                          <div className="mt-1 text-xs">
+                            <a
+                              href={task.detailUrl}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="text-[#ad7a46] underline-offset-4 hover:underline"
+                            >
+                              詳細を見る
+                            </a>
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">{task.assigneeName}</td>
+                      <td className="px-4 py-3">
+                        <span className="inline-flex rounded-full bg-[#fff0de] px-3 py-1 text-xs font-semibold uppercase tracking-wide text-[#ad7a46]">
+                          {task.status}
                         </span>
-                      ) : (
-                        <span className="text-xs text-[#b59b85]">未設定</span>
-                      )}
-                    </td>
-                    <td className="px-4 py-3">{renderDueDateBadge(task)}</td>
-                    <td className="px-4 py-3">
-                      {task.doneDate ? (
-                        <span className="text-xs font-medium text-[#7f6b5a]">
-                          {task.doneDate}
+                        {renderBlockedBadge(task)}
+                      </td>
+                      <td className="px-4 py-3">
+                        {task.startDate ? (
+                          <span className="text-xs font-medium text-[#7f6b5a]">
+                            {task.startDate}
+                          </span>
+                        ) : (
+                          <span className="text-xs text-[#b59b85]">未設定</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <TaskDueBadge task={task} now={now} />
+                      </td>
+                      <td className="px-4 py-3">
+                        {task.doneDate ? (
+                          <span className="text-xs font-medium text-[#7f6b5a]">
+                            {task.doneDate}
+                          </span>
+                        ) : (
+                          <span className="text-xs text-[#b59b85]">未設定</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span className="inline-flex items-center gap-1 rounded-full border border-[#ead8c4] bg-white/70 px-3 py-1 text-xs font-medium text-[#7f6b5a]">
+                          <span className="inline-flex h-1.5 w-1.5 rounded-full bg-[#ad7a46]" />
+                          {task.priority}
                         </span>
-                      ) : (
-                        <span className="text-xs text-[#b59b85]">未設定</span>
-                      )}
-                    </td>
-                    <td className="px-4 py-3">
-                      <span className="inline-flex items-center gap-1 rounded-full border border-[#ead8c4] bg-white/70 px-3 py-1 text-xs font-medium text-[#7f6b5a]">
-                        <span className="inline-flex h-1.5 w-1.5 rounded-full bg-[#ad7a46]" />
-                        {task.priority}
-                      </span>
-                    </td>
-                  </tr>
-                ))}
-          </tbody>
-        </table>
-      </div>
+                      </td>
+                    </tr>
+                  ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {displayMode === "table" && (query.cursor || result.nextCursor) && (
+        <div className="flex items-center justify-end gap-3 text-xs font-semibold">
+          {query.cursor && (
+            <Link
+              href={buildHref({ cursor: null })}
+              scroll={false}
+              className="text-[#ad7a46] underline-offset-4 hover:underline"
+            >
+              先頭へ
+            </Link>
+          )}
+          {result.nextCursor && (
+            <Link
+              href={buildHref({ cursor: result.nextCursor })}
+              scroll={false}
+              className="rounded-full border border-[#ead8c4] px-3 py-2 text-[#ad7a46] transition hover:bg-[#fff4da]"
+            >
+              次の{query.limit}件
+            </Link>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,236 @@
+import type { ReactNode } from "react";
+
+// 依存を増やさないための最小限のMarkdown表示。HTMLは解釈せず、すべてReact要素として描画する
+const INLINE_PATTERN =
+  /(`[^`\n]+`)|(\*\*[^*\n]+\*\*)|(\*[^*\s][^*\n]*\*)|(\[[^\]\n]+\]\(https?:\/\/[^\s)]+\))|(https?:\/\/[^\s<]+)|((?:^|(?<=[^a-z0-9@._-]))@[a-z0-9][a-z0-9-]*)/gi;
+
+const linkClassName =
+  "text-[#ad7a46] underline underline-offset-2 hover:text-[#8c5f31]";
+
+const renderInline = (text: string, keyPrefix: string): ReactNode[] => {
+  const nodes: ReactNode[] = [];
+  let cursor = 0;
+  let index = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const [token] = match;
+    const start = match.index ?? 0;
+    if (start > cursor) {
+      nodes.push(text.slice(cursor, start));
+    }
+    const key = `${keyPrefix}-${index}`;
+    index += 1;
+
+    if (match[1]) {
+      nodes.push(
+        <code
+          key={key}
+          className="rounded bg-[#f5f0ea] px-1 py-0.5 font-mono text-[0.85em] text-[#7f6b5a]"
+        >
+          {token.slice(1, -1)}
+        </code>,
+      );
+    } else if (match[2]) {
+      nodes.push(
+        <strong key={key} className="font-semibold">
+          {renderInline(token.slice(2, -2), key)}
+        </strong>,
+      );
+    } else if (match[3]) {
+      nodes.push(<em key={key}>{renderInline(token.slice(1, -1), key)}</em>);
+    } else if (match[4]) {
+      const linkMatch = /^\[([^\]]+)\]\(([^)]+)\)$/.exec(token);
+      nodes.push(
+        <a
+          key={key}
+          href={linkMatch?.[2]}
+          target="_blank"
+          rel="noreferrer noopener"
+          className={linkClassName}
+        >
+          {linkMatch?.[1] ?? token}
+        </a>,
+      );
+    } else if (match[5]) {
+      nodes.push(
+        <a
+          key={key}
+          href={token}
+          target="_blank"
+          rel="noreferrer noopener"
+          className={linkClassName}
+        >
+          {token}
+        </a>,
+      );
+    } else {
+      nodes.push(
+        <span
+          key={key}
+          className="rounded bg-[#fff0de] px-1 font-semibold text-[#ad7a46]"
+        >
+          {token}
+        </span>,
+      );
+    }
+    cursor = start + token.length;
+  }
+
+  if (cursor < text.length) {
+    nodes.push(text.slice(cursor));
+  }
+  return nodes;
+};
+
+const renderLines = (lines: string[], keyPrefix: string): ReactNode[] =>
+  lines.flatMap((line, index) => [
+    ...(index > 0 ? [<br key={`${keyPrefix}-br-${index}`} />] : []),
+    ...renderInline(line, `${keyPrefix}-${index}`),
+  ]);
+
+type Block =
+  | { kind: "paragraph"; lines: string[] }
+  | { kind: "heading"; text: string }
+  | { kind: "quote"; lines: string[] }
+  | { kind: "code"; lines: string[] }
+  | { kind: "list"; ordered: boolean; items: string[] };
+
+const UNORDERED_ITEM = /^\s*[-*]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+
+const parseBlocks = (source: string): Block[] => {
+  const blocks: Block[] = [];
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (line.trim().startsWith("```")) {
+      const codeLines: string[] = [];
+      index += 1;
+      while (index < lines.length && !lines[index].trim().startsWith("```")) {
+        codeLines.push(lines[index]);
+        index += 1;
+      }
+      index += 1; // 閉じフェンス
+      blocks.push({ kind: "code", lines: codeLines });
+      continue;
+    }
+
+    if (!line.trim()) {
+      index += 1;
+      continue;
+    }
+
+    const heading = /^#{1,6}\s+(.*)$/.exec(line);
+    if (heading) {
+      blocks.push({ kind: "heading", text: heading[1] });
+      index += 1;
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      const quoteLines: string[] = [];
+      while (index < lines.length && lines[index].startsWith(">")) {
+        quoteLines.push(lines[index].replace(/^>\s?/, ""));
+        index += 1;
+      }
+      blocks.push({ kind: "quote", lines: quoteLines });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM.test(line);
+    if (ordered || UNORDERED_ITEM.test(line)) {
+      const pattern = ordered ? ORDERED_ITEM : UNORDERED_ITEM;
+      const items: string[] = [];
+      while (index < lines.length && pattern.test(lines[index])) {
+        items.push(pattern.exec(lines[index])?.[1] ?? "");
+        index += 1;
+      }
+      blocks.push({ kind: "list", ordered, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      !lines[index].trim().startsWith("```") &&
+      !/^#{1,6}\s/.test(lines[index]) &&
+      !lines[index].startsWith(">") &&
+      !UNORDERED_ITEM.test(lines[index]) &&
+      !ORDERED_ITEM.test(lines[index])
+    ) {
+      paragraph.push(lines[index]);
+      index += 1;
+    }
+    blocks.push({ kind: "paragraph", lines: paragraph });
+  }
+
+  return blocks;
+};
+
+interface MarkdownProps {
+  source: string;
+  className?: string;
+}
+
+export const Markdown = ({ source, className }: MarkdownProps) => (
+  <div
+    className={[
+      "space-y-2 break-words text-sm leading-relaxed text-[#3d3128]",
+      className ?? "",
+    ].join(" ")}
+  >
+    {parseBlocks(source).map((block, index) => {
+      const key = `md-${index}`;
+      switch (block.kind) {
+        case "heading":
+          return (
+            <p key={key} className="font-semibold text-[#3d3128]">
+              {renderInline(block.text, key)}
+            </p>
+          );
+        case "quote":
+          return (
+            <blockquote
+              key={key}
+              className="border-l-2 border-[#ead8c4] pl-3 text-[#7f6b5a]"
+            >
+              {renderLines(block.lines, key)}
+            </blockquote>
+          );
+        case "code":
+          return (
+            <pre
+              key={key}
+              className="overflow-x-auto rounded-xl bg-[#f5f0ea] px-3 py-2 font-mono text-xs text-[#5b4c40]"
+            >
+              {block.lines.join("\n")}
+            </pre>
+          );
+        case "list": {
+          const ListTag = block.ordered ? "ol" : "ul";
+          return (
+            <ListTag
+              key={key}
+              className={[
+                "space-y-1 pl-5 marker:text-[#c89b6d]",
+                block.ordered ? "list-decimal" : "list-disc",
+              ].join(" ")}
+            >
+              {block.items.map((item, itemIndex) => (
+                <li key={`${key}-${itemIndex}`}>
+                  {renderInline(item, `${key}-${itemIndex}`)}
+                </li>
+              ))}
+            </ListTag>
+          );
+        }
+        default:
+          return <p key={key}>{renderLines(block.lines, key)}</p>;
+      }
+    })}
+  </div>
+);
@@ -2,3 +2,6 @@ export const APP_NAME = "Polycle Member";
 export const DEFAULT_TIMEZONE = "Asia/Taipei";
 export const SATISFACTION_FIELD_KEY = "satisfaction_today";
 export const START_OF_WEEK = 1; // Monday per spec
+export const DR_BACKFILL_DEFAULT_WINDOW_DAYS = 7; // 過去何日分まで日報をさかのぼって提出できるか。DR_BACKFILL_WINDOW_DAYS で上書き
+export const TASK_ALERT_DUE_SOON_DAYS = 3; // 期限アラートで「まもなく期限」とみなす日数
+export const DR_REMINDER_DEFAULT_TIME = "20:00"; // DR未提出リマインドを送る時刻（Asia/Taipei）。DR_REMINDER_TIME で上書き
@@ -42,6 +42,18 @@ export const USER_SLUG_OF_SLACK: Record<string, string> = {
   "U05DZ52MLBY": "mizoguchi-yuki"
 };
 
+// 3) 任意: タスクの担当者名（シートの表記）→ userSlug
+export const USER_SLUG_OF_ASSIGNEE: Record<string, string> = {
+  // "山本": "yamamoto",
+};
+
+export function resolveSlackUserIdForSlug(userSlug: string): string | null {
+  const entry = Object.entries(USER_SLUG_OF_SLACK).find(
+    ([, slug]) => slug === userSlug,
+  );
+  return entry ? entry[0] : null;
+}
+
 export function resolveUserSlug(input: {
   userSlug?: string | null;
   slackUserId?: string | null;
@@ -81,6 +93,17 @@ export function resolveUserSlug(input: {
   return null;
 }
 
+// タスクの担当者名（シート表記）→ userSlug。USER_SLUG_OF_ASSIGNEE を優先し、なければスラッグとして解決する
+export function resolveAssigneeSlug(assigneeName: string): string | null {
+  const name = assigneeName.trim();
+  if (!name) return null;
+  if (USER_SLUG_OF_ASSIGNEE[name]) return USER_SLUG_OF_ASSIGNEE[name];
+  if (/^U[A-Z0-9]{6,}$/.test(name)) {
+    return resolveUserSlug({ slackUserId: name });
+  }
+  return resolveUserSlug({ userSlug: name });
+}
+
 export function resolveDepartment(args: {
   userSlug?: string | null;
   slackUserId?: string | null;
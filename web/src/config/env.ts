@@ -30,6 +30,18 @@ const envSchema = z.object({
     .string()
     .min(1, "SLACK_APP_LEVEL_TOKEN is required for the Events API"),
   SLACK_BOT_TOKEN: z.string().min(1, "SLACK_BOT_TOKEN is required"),
+  SLACK_TOKEN_ENCRYPTION_KEY: z.string().optional(),
+  ADMIN_USER_SLUGS: z.string().optional(),
+  CRON_SECRET: z.string().optional(),
+  DR_REMINDER_TIME: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "DR_REMINDER_TIME must be HH:mm")
+    .optional(),
+  DR_REMINDER_MANAGER_SLUGS: z.string().optional(),
+  DR_BACKFILL_WINDOW_DAYS: z
+    .string()
+    .regex(/^\d*$/, "DR_BACKFILL_WINDOW_DAYS must be a number of days")
+    .optional(),
 });
 
 const clientEnvSchema = z.object({
@@ -61,6 +73,14 @@ const parseEnv = () => {
           process.env.SLACK_DAILY_REPORT_CHANNEL_ID ?? "",
         SLACK_APP_LEVEL_TOKEN: process.env.SLACK_APP_LEVEL_TOKEN ?? "",
         SLACK_BOT_TOKEN: process.env.SLACK_BOT_TOKEN ?? "",
+        SLACK_TOKEN_ENCRYPTION_KEY:
+          process.env.SLACK_TOKEN_ENCRYPTION_KEY ?? "",
+        ADMIN_USER_SLUGS: process.env.ADMIN_USER_SLUGS ?? "",
+        CRON_SECRET: process.env.CRON_SECRET ?? "",
+        DR_REMINDER_TIME: process.env.DR_REMINDER_TIME ?? "",
+        DR_REMINDER_MANAGER_SLUGS:
+          process.env.DR_REMINDER_MANAGER_SLUGS ?? "",
+        DR_BACKFILL_WINDOW_DAYS: process.env.DR_BACKFILL_WINDOW_DAYS ?? "",
       },
       client: {
         NEXT_PUBLIC_APP_NAME:
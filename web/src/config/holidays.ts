@@ -0,0 +1,8 @@
+// DRリマインドを送らず、タスク期限の初期値（翌営業日）からも外す休日（YYYY-MM-DD → 名称）。土日は別途スキップされるので平日の休日のみ登録する
+export const HOLIDAYS: Record<string, string> = {
+  // "2026-10-09": "國慶日（振替）",
+};
+
+export function isHoliday(dateISO: string): boolean {
+  return Boolean(HOLIDAYS[dateISO]);
+}
@@ -0,0 +1,39 @@
+import { env } from "@/config/env";
+import { DEPARTMENT_OF_USER } from "@/config/departments";
+import type { UserRole } from "@/types";
+
+// userSlug または SlackユーザーID → ロール（未設定なら DEPARTMENT_OF_USER に載っていれば member、それ以外は viewer）
+export const ROLE_OF_USER: Record<string, UserRole> = {
+  // "yamamoto": "viewer",
+  // "U0ABCDEF12": "admin",
+};
+
+const parseSlugList = (raw: string | undefined): Set<string> =>
+  new Set(
+    (raw ?? "")
+      .split(",")
+      .map((slug) => slug.trim().toLowerCase())
+      .filter(Boolean),
+  );
+
+// 管理者の userSlug（ADMIN_USER_SLUGS をカンマ区切りで指定）。ROLE_OF_USER より優先する
+export const ADMIN_USER_SLUGS = parseSlugList(env.server.ADMIN_USER_SLUGS);
+
+export function resolveUserRole(input: {
+  userSlug?: string | null;
+  slackUserId?: string | null;
+}): UserRole {
+  const slug = input.userSlug?.trim().toLowerCase() ?? "";
+  if (slug && ADMIN_USER_SLUGS.has(slug)) {
+    return "admin";
+  }
+
+  const configured =
+    (input.slackUserId ? ROLE_OF_USER[input.slackUserId] : undefined) ??
+    (slug ? ROLE_OF_USER[slug] : undefined);
+  if (configured) {
+    return configured;
+  }
+
+  return slug && DEPARTMENT_OF_USER[slug] ? "member" : "viewer";
+}
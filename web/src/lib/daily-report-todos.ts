@@ -0,0 +1,107 @@
+import type {
+  DailyReport,
+  DailyReportTodoItem,
+  DailyReportTodoSuggestion,
+  Task,
+} from "@/types";
+import { getNextWorkingDate } from "@/lib/time";
+
+// 行頭の箇条書き記号・番号・チェックボックス（"- [ ] " など）
+const BULLET_PATTERN =
+  /^(?:[-*+・•●○◦▪■□]|\d+[.)．、]|[（(]\d+[)）]|[①-⑳])?\s*(?:\[[ xX]?\]\s*)?/;
+// 行頭の【PJ名】や [PJ名] はプロジェクトとして扱う
+const PROJECT_PREFIX_PATTERN = /^(?:【([^】]+)】|\[([^\]]+)\])\s*/;
+const URGENT_PATTERN = /至急|急ぎ|最優先|asap|[!！]$/i;
+
+// 表記揺れ（全角・空白）を吸収して、行とタスクの対応付けに使う
+export const normalizeTodoLine = (line: string): string =>
+  line.normalize("NFKC").replace(/\s+/g, " ").trim();
+
+export const parseTodoTomorrowLines = (text: string): string[] => {
+  const seen = new Set<string>();
+  return text.split(/\r?\n/).flatMap((raw) => {
+    const line = raw.trim().replace(BULLET_PATTERN, "").trim();
+    const key = normalizeTodoLine(line);
+    if (!key || seen.has(key)) {
+      return [];
+    }
+    seen.add(key);
+    return [line];
+  });
+};
+
+/**
+ * 1 行からタスクの初期値を作る。プロジェクトは行頭の【】/[]、
+ * 行に含まれる既存プロジェクト名、投稿者が最近更新したタスクの順で決める。
+ */
+export const suggestTaskFromTodoLine = (
+  line: string,
+  context: {
+    reportDate: string;
+    projectNames: string[];
+    fallbackProjectName?: string;
+  },
+): DailyReportTodoSuggestion => {
+  const prefix = line.match(PROJECT_PREFIX_PATTERN);
+  const title = prefix ? line.slice(prefix[0].length).trim() || line : line;
+  const mentionedProject = context.projectNames
+    .filter((name) => name && line.includes(name))
+    .sort((left, right) => right.length - left.length)[0];
+
+  return {
+    title,
+    projectName:
+      (prefix?.[1] ?? prefix?.[2])?.trim() ||
+      mentionedProject ||
+      context.fallbackProjectName ||
+      "",
+    priority: URGENT_PATTERN.test(line) ? "高" : "中",
+    dueDate: getNextWorkingDate(context.reportDate),
+  };
+};
+
+export const buildDailyReportTodoItems = (
+  report: Pick<DailyReport, "reportId" | "date" | "userName" | "todoTomorrow">,
+  tasks: Task[],
+): DailyReportTodoItem[] => {
+  const linkedTasks = tasks.filter(
+    (task) => task.sourceReportId === report.reportId,
+  );
+  const taskByLine = new Map(
+    linkedTasks.map((task) => [
+      normalizeTodoLine(task.sourceReportLine ?? task.title),
+      task,
+    ]),
+  );
+  const projectNames = Array.from(
+    new Set(tasks.map((task) => task.projectName).filter(Boolean)),
+  );
+  const fallbackProjectName = tasks
+    .filter((task) => task.assigneeName === report.userName && task.projectName)
+    .sort((left, right) => right.updatedAt.localeCompare(left.updatedAt))[0]
+    ?.projectName;
+
+  const toItem = (line: string): DailyReportTodoItem => {
+    const task = taskByLine.get(normalizeTodoLine(line));
+    return {
+      line,
+      suggestion: suggestTaskFromTodoLine(line, {
+        reportDate: report.date,
+        projectNames,
+        fallbackProjectName,
+      }),
+      task: task
+        ? { taskId: task.taskId, title: task.title, status: task.status }
+        : null,
+    };
+  };
+
+  const lines = parseTodoTomorrowLines(report.todoTomorrow);
+  const lineKeys = new Set(lines.map(normalizeTodoLine));
+  // 日報を編集して行が消えても、作成済みのタスクは一覧に残す
+  const orphanLines = linkedTasks
+    .map((task) => task.sourceReportLine ?? task.title)
+    .filter((line) => !lineKeys.has(normalizeTodoLine(line)));
+
+  return [...lines, ...orphanLines].map(toItem);
+};
@@ -0,0 +1,20 @@
+import type { UserRole } from "@/types";
+
+export const USER_ROLES: UserRole[] = ["admin", "member", "viewer"];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "管理者",
+  member: "メンバー",
+  viewer: "閲覧者",
+};
+
+const ROLE_RANK: Record<UserRole, number> = {
+  viewer: 0,
+  member: 1,
+  admin: 2,
+};
+
+export const hasRole = (
+  role: UserRole | null | undefined,
+  required: UserRole,
+): boolean => ROLE_RANK[role ?? "viewer"] >= ROLE_RANK[required];
@@ -0,0 +1,48 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import { env } from "@/config/env";
+
+const ALGORITHM = "aes-256-gcm";
+const PAYLOAD_VERSION = "v1";
+
+const resolveKey = (): Buffer => {
+  const secret = env.server.SLACK_TOKEN_ENCRYPTION_KEY?.trim();
+  if (!secret) {
+    throw new Error(
+      "SLACK_TOKEN_ENCRYPTION_KEY is not configured. Slack user tokens cannot be stored.",
+    );
+  }
+  return createHash("sha256").update(secret, "utf8").digest();
+};
+
+export const isSecretEncryptionConfigured = (): boolean =>
+  Boolean(env.server.SLACK_TOKEN_ENCRYPTION_KEY?.trim());
+
+export const encryptSecret = (plain: string): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, resolveKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [
+    PAYLOAD_VERSION,
+    iv.toString("base64"),
+    tag.toString("base64"),
+    encrypted.toString("base64"),
+  ].join(":");
+};
+
+export const decryptSecret = (payload: string): string => {
+  const [version, iv, tag, encrypted] = payload.split(":");
+  if (version !== PAYLOAD_VERSION || !iv || !tag || !encrypted) {
+    throw new Error("Unsupported secret payload format");
+  }
+  const decipher = createDecipheriv(
+    ALGORITHM,
+    resolveKey(),
+    Buffer.from(iv, "base64"),
+  );
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(encrypted, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+};
@@ -0,0 +1,96 @@
+import type { AuditLogEntry } from "@/types";
+import {
+  appendSystemTabRows,
+  ensureSystemTab,
+  readSystemTabRows,
+} from "./system-tabs";
+
+const AUDIT_LOG_SHEET_NAME = "audit_log";
+const AUDIT_LOG_COLUMNS = "A:L";
+const AUDIT_LOG_HEADER = [
+  "id",
+  "happenedAt",
+  "actorId",
+  "actorName",
+  "actorRole",
+  "action",
+  "entityType",
+  "entityId",
+  "diff",
+  "source",
+  "ip",
+  "userAgent",
+];
+
+const parseDiff = (raw: string): AuditLogEntry["diff"] => {
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === "object"
+      ? (parsed as AuditLogEntry["diff"])
+      : {};
+  } catch {
+    return {};
+  }
+};
+
+const mapRowToEntry = (row: string[]): AuditLogEntry | null => {
+  const id = (row[0] ?? "").trim();
+  if (!id) {
+    return null;
+  }
+  return {
+    id,
+    happenedAt: row[1] ?? "",
+    actorId: row[2] ?? "",
+    actorName: row[3] ?? "",
+    actorRole: row[4] ?? "",
+    action: (row[5] ?? "") as AuditLogEntry["action"],
+    entityType: (row[6] ?? "") as AuditLogEntry["entityType"],
+    entityId: row[7] ?? "",
+    diff: parseDiff(row[8] ?? ""),
+    source: (row[9] ?? "web") as AuditLogEntry["source"],
+    ip: row[10] ?? "",
+    userAgent: row[11] ?? "",
+  };
+};
+
+const toRow = (entry: AuditLogEntry): string[] => [
+  entry.id,
+  entry.happenedAt,
+  entry.actorId,
+  entry.actorName,
+  entry.actorRole,
+  entry.action,
+  entry.entityType,
+  entry.entityId,
+  JSON.stringify(entry.diff),
+  entry.source,
+  entry.ip,
+  entry.userAgent,
+];
+
+export const listAuditLogEntries = async (): Promise<AuditLogEntry[]> => {
+  const rows = await readSystemTabRows(AUDIT_LOG_SHEET_NAME, AUDIT_LOG_COLUMNS);
+  return rows
+    .map(mapRowToEntry)
+    .filter((entry): entry is AuditLogEntry => entry !== null);
+};
+
+export const appendAuditLogEntries = async (
+  entries: AuditLogEntry[],
+): Promise<void> => {
+  if (entries.length === 0) {
+    return;
+  }
+  await ensureSystemTab(AUDIT_LOG_SHEET_NAME, AUDIT_LOG_HEADER, {
+    hidden: true,
+  });
+  await appendSystemTabRows(
+    AUDIT_LOG_SHEET_NAME,
+    AUDIT_LOG_COLUMNS,
+    entries.map(toRow),
+  );
+};
@@ -74,8 +74,12 @@ const DAILY_REPORT_COLUMNS = [
   "createdAt",
   "updatedAt",
   "userSlug",
+  "slackDeletedAt",
 ];
 
+// O〜U は予備列。読み込み範囲に含めておき、書き戻し時に既存値を保持する。
+const DAILY_REPORT_SHEET_COLUMNS_RANGE = "A:U";
+
 const DAILY_REPORT_CACHE_TTL_MS = 15_000;
 
 const columnIndexToLetter = (index: number): string => {
@@ -101,10 +105,14 @@ const splitSheetValues = (values: string[][]) => {
   };
 };
 
+// ヘッダーは slackDeletedAt / slack_deleted_at のどちらの表記でも同じ列として扱う
+const normalizeHeaderKey = (name: string): string =>
+  name.trim().toLowerCase().replace(/_/g, "");
+
 const buildHeaderIndex = (header: string[]): Record<string, number> => {
   const index: Record<string, number> = {};
   header.forEach((raw, columnIndex) => {
-    const key = safeString(raw).trim().toLowerCase();
+    const key = normalizeHeaderKey(safeString(raw));
     if (!key) {
       return;
     }
@@ -119,7 +127,7 @@ const getColumnIndex = (
   headerIndex: Record<string, number>,
   columnName: string,
 ): number | undefined => {
-  return headerIndex[columnName.toLowerCase()];
+  return headerIndex[normalizeHeaderKey(columnName)];
 };
 
 const getCell = (
@@ -246,7 +254,8 @@ const loadDailyReportCollection = async (): Promise<DailyReportCollection> => {
   }
 
   const ranges = sheetTitles.map(
-    (title) => `'${escapeSheetName(title)}'!A:N`,
+    (title) =>
+      `'${escapeSheetName(title)}'!${DAILY_REPORT_SHEET_COLUMNS_RANGE}`,
   );
 
   const response = await retryWithBackoff(() =>
@@ -324,6 +333,7 @@ const mapRowToDailyReport = (
     tags: parseTags(tagsCell),
     source,
     slackTs: getCell(row, headerIndex, "slackTs") || undefined,
+    slackDeletedAt: getCell(row, headerIndex, "slackDeletedAt") || undefined,
     createdAt: getCell(row, headerIndex, "createdAt"),
     updatedAt: getCell(row, headerIndex, "updatedAt"),
   };
@@ -374,13 +384,46 @@ const locateDailyReportRow = (
   return null;
 };
 
+const locateDailyReportRowBySlackTs = (
+  collection: DailyReportCollection,
+  slackTs: string,
+): DailyReportRowLocator | null => {
+  const targetTs = slackTs.trim();
+  if (!targetTs) {
+    return null;
+  }
+
+  for (const sheet of collection.sheets) {
+    const tsColumn = getColumnIndex(sheet.headerIndex, "slackTs");
+    if (tsColumn === undefined) {
+      continue;
+    }
+
+    for (let index = 0; index < sheet.rows.length; index += 1) {
+      const row = sheet.rows[index] ?? [];
+      if (safeString(row[tsColumn]).trim() === targetTs) {
+        return {
+          sheet,
+          sheetRowNumber: index + 2, // account for header row
+          row,
+        };
+      }
+    }
+  }
+
+  return null;
+};
+
 const buildDailyReportRow = (
   report: DailyReport,
   sheet: DailyReportSheetData,
+  existingRow?: string[],
 ): (string | number)[] => {
   const columnCount =
     sheet.header.length > 0 ? sheet.header.length : DAILY_REPORT_COLUMNS.length;
-  const row = Array(columnCount).fill("") as (string | number)[];
+  const row = Array.from({ length: columnCount }, (_, index) =>
+    safeString(existingRow?.[index]),
+  ) as (string | number)[];
 
   const assign = (key: string, value: string | number | undefined) => {
     const columnIndex = getColumnIndex(sheet.headerIndex, key);
@@ -405,6 +448,7 @@ const buildDailyReportRow = (
   assign("createdAt", report.createdAt ?? "");
   assign("updatedAt", report.updatedAt ?? "");
   assign("userSlug", report.userSlug ?? "");
+  assign("slackDeletedAt", report.slackDeletedAt ?? "");
 
   return row;
 };
@@ -510,6 +554,80 @@ export const setSlackTsOnSheet = async (
   });
 };
 
+export const findDailyReportBySlackTs = async (
+  slackTs: string,
+): Promise<DailyReport | null> => {
+  const collection = await loadDailyReportCollection();
+  const locator = locateDailyReportRowBySlackTs(collection, slackTs);
+  if (!locator) {
+    return null;
+  }
+  return mapRowToDailyReport(locator.sheet, locator.row);
+};
+
+export const markDailyReportDeletedOnSlack = async (
+  slackTs: string,
+  deletedAt: string,
+): Promise<DailyReport | null> => {
+  const collection = await loadDailyReportCollection();
+  const locator = locateDailyReportRowBySlackTs(collection, slackTs);
+
+  if (!locator) {
+    console.warn("sheets.daily_reports.mark_deleted.missing_row", {
+      slackTs,
+    });
+    return null;
+  }
+
+  const report = mapRowToDailyReport(locator.sheet, locator.row);
+  const deletedColumnIndex = getColumnIndex(
+    locator.sheet.headerIndex,
+    "slackDeletedAt",
+  );
+  if (deletedColumnIndex === undefined) {
+    console.error("sheets.daily_reports.mark_deleted.missing_column", {
+      column: "slackDeletedAt",
+      sheet: locator.sheet.title,
+      slackTs,
+    });
+    // 記録できないまま削除済みとして扱わないよう、失敗として呼び出し元へ返す
+    throw new Error(
+      `slackDeletedAt column is missing in sheet "${locator.sheet.title}"`,
+    );
+  }
+
+  const columnLetter = columnIndexToLetter(deletedColumnIndex);
+  const escapedTitle = escapeSheetName(locator.sheet.title);
+  const range = `'${escapedTitle}'!${columnLetter}${locator.sheetRowNumber}:${columnLetter}${locator.sheetRowNumber}`;
+
+  const spreadsheetId = env.server.SHEETS_DR_SPREADSHEET_ID;
+  const sheets = await getSheetsClient();
+
+  await retryWithBackoff(async (attempt) => {
+    try {
+      await sheets.spreadsheets.values.update({
+        spreadsheetId,
+        range,
+        valueInputOption: "RAW",
+        requestBody: { values: [[deletedAt]] },
+      });
+      invalidateDailyReportCache();
+    } catch (error) {
+      const errorMessage = extractErrorMessage(error);
+      console.error("sheets.daily_reports.mark_deleted.error", {
+        attempt,
+        spreadsheetId,
+        range,
+        slackTs,
+        error: errorMessage,
+      });
+      throw error;
+    }
+  });
+
+  return report ? { ...report, slackDeletedAt: deletedAt } : null;
+};
+
 export const upsertDailyReport = async (
   report: DailyReport,
 ): Promise<void> => {
@@ -551,6 +669,9 @@ export const upsertDailyReport = async (
   const existingSlackTs = existingLocator
     ? getCell(existingLocator.row, targetSheet.headerIndex, "slackTs")
     : "";
+  const existingSlackDeletedAt = existingLocator
+    ? getCell(existingLocator.row, targetSheet.headerIndex, "slackDeletedAt")
+    : "";
 
   const normalized: DailyReport = {
     ...report,
@@ -563,9 +684,12 @@ export const upsertDailyReport = async (
     createdAt: report.createdAt || existingCreatedAt || now,
     updatedAt: report.updatedAt || now,
     slackTs: report.slackTs || existingSlackTs,
+    slackDeletedAt: report.slackDeletedAt || existingSlackDeletedAt,
   };
 
-  const payload = [buildDailyReportRow(normalized, targetSheet)];
+  const payload = [
+    buildDailyReportRow(normalized, targetSheet, existingLocator?.row),
+  ];
 
   const range = existingLocator
     ? toColumnRange(targetSheet, existingLocator.sheetRowNumber)
@@ -642,27 +766,8 @@ const pickPreferredReport = (
   return existing;
 };
 
-export const fetchDailyReports = async (
-  options: DailyReportQueryOptions,
-): Promise<DailyReport[]> => {
-  const weekStart =
-    options.weekStart ??
-    getWeekStart(new Date().toISOString(), DEFAULT_TIMEZONE);
-  const weekEnd =
-    options.weekEnd ??
-    formatISO(addDays(parseISO(weekStart), 6), { representation: "date" });
-
-  const collection = await loadDailyReportCollection();
-
-  const reports = collection.sheets
-    .flatMap((sheet) =>
-      sheet.rows
-        .map((row) => mapRowToDailyReport(sheet, row))
-        .filter((report): report is DailyReport => report !== null),
-    )
-    .filter((report) => report.date >= weekStart && report.date <= weekEnd);
-
-  const deduplicated = Array.from(
+const dedupeDailyReports = (reports: DailyReport[]): DailyReport[] =>
+  Array.from(
     reports.reduce((accumulator, report) => {
       const key = report.reportId?.trim();
       if (!key) {
@@ -680,5 +785,36 @@ export const fetchDailyReports = async (
     }, new Map<string, DailyReport>()).values(),
   );
 
-  return deduplicated;
+const collectDailyReports = (
+  collection: DailyReportCollection,
+): DailyReport[] =>
+  collection.sheets.flatMap((sheet) =>
+    sheet.rows
+      .map((row) => mapRowToDailyReport(sheet, row))
+      .filter((report): report is DailyReport => report !== null),
+  );
+
+export const fetchDailyReports = async (
+  options: DailyReportQueryOptions,
+): Promise<DailyReport[]> => {
+  const weekStart =
+    options.weekStart ??
+    getWeekStart(new Date().toISOString(), DEFAULT_TIMEZONE);
+  const weekEnd =
+    options.weekEnd ??
+    formatISO(addDays(parseISO(weekStart), 6), { representation: "date" });
+
+  const collection = await loadDailyReportCollection();
+
+  const reports = collectDailyReports(collection).filter(
+    (report) => report.date >= weekStart && report.date <= weekEnd,
+  );
+
+  return dedupeDailyReports(reports);
+};
+
+// 全期間の日報（検索用）。週で絞らずにシート全体を返す
+export const fetchAllDailyReports = async (): Promise<DailyReport[]> => {
+  const collection = await loadDailyReportCollection();
+  return dedupeDailyReports(collectDailyReports(collection));
 };
@@ -0,0 +1,69 @@
+import {
+  appendSystemTabRows,
+  ensureSystemTab,
+  readSystemTabRows,
+} from "./system-tabs";
+
+// タブ名に "task" を含めるとタスクシートとして読み込まれるため避ける
+const DEADLINE_ALERTS_SHEET_NAME = "deadline_alerts";
+const DEADLINE_ALERTS_COLUMNS = "A:F";
+const DEADLINE_ALERTS_HEADER = [
+  "alertDate",
+  "taskId",
+  "kind",
+  "assigneeName",
+  "slackUserId",
+  "sentAt",
+];
+
+export type DeadlineAlertKind = "overdue" | "due_today" | "due_soon";
+
+export interface DeadlineAlertRecord {
+  alertDate: string; // YYYY-MM-DD (Asia/Taipei)
+  taskId: string;
+  kind: DeadlineAlertKind;
+  assigneeName: string;
+  slackUserId: string;
+  sentAt: string;
+}
+
+/**
+ * 指定日に送信済みの taskId を返す（1タスクにつき1日1回まで）。
+ */
+export const listAlertedTaskIds = async (
+  alertDate: string,
+): Promise<Set<string>> => {
+  const rows = await readSystemTabRows(
+    DEADLINE_ALERTS_SHEET_NAME,
+    DEADLINE_ALERTS_COLUMNS,
+  );
+  return new Set(
+    rows
+      .filter((row) => (row[0] ?? "").trim() === alertDate)
+      .map((row) => (row[1] ?? "").trim())
+      .filter(Boolean),
+  );
+};
+
+export const recordDeadlineAlerts = async (
+  records: DeadlineAlertRecord[],
+): Promise<void> => {
+  if (records.length === 0) {
+    return;
+  }
+  await ensureSystemTab(DEADLINE_ALERTS_SHEET_NAME, DEADLINE_ALERTS_HEADER, {
+    hidden: true,
+  });
+  await appendSystemTabRows(
+    DEADLINE_ALERTS_SHEET_NAME,
+    DEADLINE_ALERTS_COLUMNS,
+    records.map((record) => [
+      record.alertDate,
+      record.taskId,
+      record.kind,
+      record.assigneeName,
+      record.slackUserId,
+      record.sentAt,
+    ]),
+  );
+};
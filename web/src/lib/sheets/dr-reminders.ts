@@ -0,0 +1,97 @@
+import {
+  appendSystemTabRows,
+  ensureSystemTab,
+  readSystemTabRows,
+} from "./system-tabs";
+
+const DR_REMINDERS_SHEET_NAME = "dr_reminders";
+const DR_REMINDERS_COLUMNS = "A:D";
+const DR_REMINDERS_HEADER = ["reportDate", "userSlug", "slackUserId", "sentAt"];
+
+const DR_REMINDER_OPT_OUTS_SHEET_NAME = "dr_reminder_opt_outs";
+const DR_REMINDER_OPT_OUTS_COLUMNS = "A:C";
+const DR_REMINDER_OPT_OUTS_HEADER = ["userSlug", "optedOut", "updatedAt"];
+
+export interface DrReminderRecord {
+  reportDate: string; // YYYY-MM-DD (29時ルール)
+  userSlug: string;
+  slackUserId: string;
+  sentAt: string;
+}
+
+/**
+ * 指定日にリマインド済みの userSlug を返す（1人につき1日1回まで）。
+ */
+export const listRemindedUserSlugs = async (
+  reportDate: string,
+): Promise<Set<string>> => {
+  const rows = await readSystemTabRows(
+    DR_REMINDERS_SHEET_NAME,
+    DR_REMINDERS_COLUMNS,
+  );
+  return new Set(
+    rows
+      .filter((row) => (row[0] ?? "").trim() === reportDate)
+      .map((row) => (row[1] ?? "").trim())
+      .filter(Boolean),
+  );
+};
+
+export const recordDrReminders = async (
+  records: DrReminderRecord[],
+): Promise<void> => {
+  if (records.length === 0) {
+    return;
+  }
+  await ensureSystemTab(DR_REMINDERS_SHEET_NAME, DR_REMINDERS_HEADER, {
+    hidden: true,
+  });
+  await appendSystemTabRows(
+    DR_REMINDERS_SHEET_NAME,
+    DR_REMINDERS_COLUMNS,
+    records.map((record) => [
+      record.reportDate,
+      record.userSlug,
+      record.slackUserId,
+      record.sentAt,
+    ]),
+  );
+};
+
+/**
+ * リマインドを停止している userSlug を返す。行は追記のみで、同じユーザーは最後の行が有効。
+ */
+export const listDrReminderOptOuts = async (): Promise<Set<string>> => {
+  const rows = await readSystemTabRows(
+    DR_REMINDER_OPT_OUTS_SHEET_NAME,
+    DR_REMINDER_OPT_OUTS_COLUMNS,
+  );
+  const latest = new Map<string, boolean>();
+  rows.forEach((row) => {
+    const userSlug = (row[0] ?? "").trim();
+    if (userSlug) {
+      latest.set(userSlug, (row[1] ?? "").trim().toLowerCase() === "true");
+    }
+  });
+  return new Set(
+    Array.from(latest.entries())
+      .filter(([, optedOut]) => optedOut)
+      .map(([userSlug]) => userSlug),
+  );
+};
+
+export const recordDrReminderOptOut = async (
+  userSlug: string,
+  optedOut: boolean,
+): Promise<void> => {
+  await ensureSystemTab(
+    DR_REMINDER_OPT_OUTS_SHEET_NAME,
+    DR_REMINDER_OPT_OUTS_HEADER,
+    { hidden: true },
+  );
+  await appendSystemTabRows(
+    DR_REMINDER_OPT_OUTS_SHEET_NAME,
+    DR_REMINDER_OPT_OUTS_COLUMNS,
+    [[userSlug, optedOut ? "true" : "false", new Date().toISOString()]],
+  );
+};
@@ -0,0 +1,100 @@
+import type { AppNotification } from "@/types";
+import {
+  appendSystemTabRows,
+  batchUpdateSystemTabRanges,
+  ensureSystemTab,
+  readSystemTabRows,
+  systemTabRowRange,
+} from "./system-tabs";
+
+const NOTIFICATIONS_SHEET_NAME = "notifications";
+const NOTIFICATIONS_COLUMNS = "A:H";
+const NOTIFICATIONS_HEADER = [
+  "id",
+  "recipientSlug",
+  "type",
+  "title",
+  "body",
+  "link",
+  "createdAt",
+  "readAt",
+];
+
+export interface NotificationRow {
+  rowNumber: number;
+  notification: AppNotification;
+}
+
+const mapRowToNotification = (row: string[]): AppNotification | null => {
+  const id = (row[0] ?? "").trim();
+  const recipientSlug = (row[1] ?? "").trim();
+  if (!id || !recipientSlug) {
+    return null;
+  }
+  return {
+    id,
+    recipientSlug,
+    type: (row[2] ?? "") as AppNotification["type"],
+    title: row[3] ?? "",
+    body: row[4] ?? "",
+    link: row[5] || undefined,
+    createdAt: row[6] ?? "",
+    readAt: row[7] || undefined,
+  };
+};
+
+const toRow = (notification: AppNotification): string[] => [
+  notification.id,
+  notification.recipientSlug,
+  notification.type,
+  notification.title,
+  notification.body,
+  notification.link ?? "",
+  notification.createdAt,
+  notification.readAt ?? "",
+];
+
+export const listNotificationRows = async (): Promise<NotificationRow[]> => {
+  const rows = await readSystemTabRows(
+    NOTIFICATIONS_SHEET_NAME,
+    NOTIFICATIONS_COLUMNS,
+  );
+  return rows.flatMap((row, index) => {
+    const notification = mapRowToNotification(row);
+    return notification
+      ? [{ rowNumber: index + 2, notification }] // account for header row
+      : [];
+  });
+};
+
+export const appendNotifications = async (
+  notifications: AppNotification[],
+): Promise<void> => {
+  if (notifications.length === 0) {
+    return;
+  }
+  await ensureSystemTab(NOTIFICATIONS_SHEET_NAME, NOTIFICATIONS_HEADER, {
+    hidden: true,
+  });
+  await appendSystemTabRows(
+    NOTIFICATIONS_SHEET_NAME,
+    NOTIFICATIONS_COLUMNS,
+    notifications.map(toRow),
+  );
+};
+
+export const setNotificationsReadAt = async (
+  rowNumbers: number[],
+  readAt: string,
+): Promise<void> => {
+  await batchUpdateSystemTabRanges(
+    rowNumbers.map((rowNumber) => ({
+      range: systemTabRowRange(
+        NOTIFICATIONS_SHEET_NAME,
+        { first: "H", last: "H" },
+        rowNumber,
+      ),
+      values: [[readAt]],
+    })),
+  );
+};
@@ -0,0 +1,164 @@
+import { randomUUID } from "node:crypto";
+import {
+  ensureSystemTab,
+  prependSystemTabRows,
+  readSystemTabRows,
+} from "./system-tabs";
+
+const SLACK_EVENTS_SHEET_NAME = "slack_events";
+const SLACK_EVENTS_HEADER = [
+  "eventId",
+  "eventType",
+  "status",
+  "detail",
+  "retryNum",
+  "processedAt",
+];
+// 行はヘッダー直下に差し込むため、先頭から読めば新しい順になる。
+// Slack の再送は数分以内に届くので、直近の行だけ見れば足りる
+const SLACK_EVENTS_RECENT_ROWS = 500;
+// 処理中のまま残った印（インスタンスが落ちた等）は、この時間を過ぎたら再送で取り直せる
+const IN_PROGRESS_STALE_MS = 5 * 60_000;
+const PROCESSED_EVENTS_CACHE_TTL_MS = 60_000;
+const CLAIM_DETAIL_PREFIX = "claim:";
+
+export type SlackEventRecordStatus =
+  | "in_progress"
+  | "processed"
+  | "skipped"
+  | "failed";
+
+export interface SlackEventRecord {
+  eventId: string;
+  eventType: string;
+  status: SlackEventRecordStatus;
+  detail: string;
+  retryNum: number;
+  processedAt: string;
+}
+
+export type SlackEventClaim =
+  | { ok: true; claimId: string }
+  | { ok: false; reason: "processed" | "in_progress" };
+
+let processedCache: { timestamp: number; eventIds: Set<string> } | null = null;
+
+const isCachedAsProcessed = (eventId: string) =>
+  processedCache !== null &&
+  Date.now() - processedCache.timestamp <= PROCESSED_EVENTS_CACHE_TTL_MS &&
+  processedCache.eventIds.has(eventId);
+
+const rememberProcessed = (eventId: string) => {
+  if (
+    !processedCache ||
+    Date.now() - processedCache.timestamp > PROCESSED_EVENTS_CACHE_TTL_MS
+  ) {
+    processedCache = { timestamp: Date.now(), eventIds: new Set() };
+  }
+  processedCache.eventIds.add(eventId);
+};
+
+// readSystemTabRows はヘッダー行を除いて返すので、範囲はヘッダーから取る
+const readRecentEventRows = async (): Promise<string[][]> =>
+  readSystemTabRows(
+    SLACK_EVENTS_SHEET_NAME,
+    `A1:F${SLACK_EVENTS_RECENT_ROWS + 1}`,
+  );
+
+type EventState =
+  | { type: "processed" }
+  | { type: "in_progress"; claimId: string }
+  | { type: "open" };
+
+/**
+ * 直近の行からイベントの状態を決める。処理済み・対象外の行があれば処理済み。
+ * 最後の失敗より後に、期限内の処理中の印があれば最初に付けた印の持ち主が処理中。
+ */
+const resolveEventState = (rows: string[][], eventId: string): EventState => {
+  // 新しい順に並んでいるので、古い順に直して見る
+  const eventRows = rows.filter((row) => row[0] === eventId).reverse();
+  if (eventRows.some((row) => row[2] === "processed" || row[2] === "skipped")) {
+    return { type: "processed" };
+  }
+
+  const lastFailedIndex = eventRows.findLastIndex((row) => row[2] === "failed");
+  const now = Date.now();
+  const claim = eventRows
+    .slice(lastFailedIndex + 1)
+    .find(
+      (row) =>
+        row[2] === "in_progress" &&
+        (row[3] ?? "").startsWith(CLAIM_DETAIL_PREFIX) &&
+        now - (Date.parse(row[5] ?? "") || 0) < IN_PROGRESS_STALE_MS,
+    );
+  return claim
+    ? {
+        type: "in_progress",
+        claimId: (claim[3] ?? "").slice(CLAIM_DETAIL_PREFIX.length),
+      }
+    : { type: "open" };
+};
+
+const toRow = (record: SlackEventRecord): (string | number)[] => [
+  record.eventId,
+  record.eventType,
+  record.status,
+  record.detail,
+  record.retryNum,
+  record.processedAt,
+];
+
+/**
+ * 処理を始める前にイベントへ「処理中」の印を付ける。再送が別インスタンスに
+ * 同時に届いても、印を書いた後に読み直して最初の印の持ち主だけが処理する。
+ */
+export const claimSlackEvent = async (
+  record: Pick<SlackEventRecord, "eventId" | "eventType" | "retryNum">,
+): Promise<SlackEventClaim> => {
+  if (isCachedAsProcessed(record.eventId)) {
+    return { ok: false, reason: "processed" };
+  }
+
+  const before = resolveEventState(await readRecentEventRows(), record.eventId);
+  if (before.type !== "open") {
+    if (before.type === "processed") {
+      rememberProcessed(record.eventId);
+    }
+    return { ok: false, reason: before.type };
+  }
+
+  const claimId = randomUUID();
+  await ensureSystemTab(SLACK_EVENTS_SHEET_NAME, SLACK_EVENTS_HEADER, {
+    hidden: true,
+  });
+  await prependSystemTabRows(SLACK_EVENTS_SHEET_NAME, [
+    toRow({
+      ...record,
+      status: "in_progress",
+      detail: `${CLAIM_DETAIL_PREFIX}${claimId}`,
+      processedAt: new Date().toISOString(),
+    }),
+  ]);
+
+  const after = resolveEventState(await readRecentEventRows(), record.eventId);
+  if (after.type === "in_progress" && after.claimId === claimId) {
+    return { ok: true, claimId };
+  }
+  return {
+    ok: false,
+    reason: after.type === "processed" ? "processed" : "in_progress",
+  };
+};
+
+export const recordSlackEvent = async (
+  record: SlackEventRecord,
+): Promise<void> => {
+  await ensureSystemTab(SLACK_EVENTS_SHEET_NAME, SLACK_EVENTS_HEADER, {
+    hidden: true,
+  });
+  await prependSystemTabRows(SLACK_EVENTS_SHEET_NAME, [toRow(record)]);
+
+  if (record.status === "processed" || record.status === "skipped") {
+    rememberProcessed(record.eventId);
+  }
+};
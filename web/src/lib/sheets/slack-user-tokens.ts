@@ -0,0 +1,111 @@
+import {
+  appendSystemTabRows,
+  ensureSystemTab,
+  readSystemTabRows,
+  systemTabRowRange,
+  updateSystemTabRange,
+} from "./system-tabs";
+
+const SLACK_USER_TOKENS_SHEET_NAME = "slack_user_tokens";
+const SLACK_USER_TOKENS_COLUMNS = "A:I";
+const SLACK_USER_TOKENS_HEADER = [
+  "slackUserId",
+  "slackTeamId",
+  "userSlug",
+  "accessToken",
+  "refreshToken",
+  "scope",
+  "expiresAt",
+  "status",
+  "updatedAt",
+];
+
+export type SlackUserTokenStatus = "active" | "revoked";
+
+/**
+ * accessToken / refreshToken は暗号化済みの値をそのまま保持する。
+ */
+export interface SlackUserTokenRecord {
+  slackUserId: string;
+  slackTeamId: string;
+  userSlug: string;
+  accessToken: string;
+  refreshToken: string;
+  scope: string;
+  expiresAt: string;
+  status: SlackUserTokenStatus;
+  updatedAt: string;
+}
+
+const mapRowToRecord = (row: string[]): SlackUserTokenRecord | null => {
+  const slackUserId = (row[0] ?? "").trim();
+  if (!slackUserId) {
+    return null;
+  }
+  return {
+    slackUserId,
+    slackTeamId: row[1] ?? "",
+    userSlug: row[2] ?? "",
+    accessToken: row[3] ?? "",
+    refreshToken: row[4] ?? "",
+    scope: row[5] ?? "",
+    expiresAt: row[6] ?? "",
+    status: row[7] === "revoked" ? "revoked" : "active",
+    updatedAt: row[8] ?? "",
+  };
+};
+
+const toRow = (record: SlackUserTokenRecord): string[] => [
+  record.slackUserId,
+  record.slackTeamId,
+  record.userSlug,
+  record.accessToken,
+  record.refreshToken,
+  record.scope,
+  record.expiresAt,
+  record.status,
+  record.updatedAt,
+];
+
+export const listSlackUserTokens = async (): Promise<SlackUserTokenRecord[]> => {
+  const rows = await readSystemTabRows(
+    SLACK_USER_TOKENS_SHEET_NAME,
+    SLACK_USER_TOKENS_COLUMNS,
+  );
+  return rows
+    .map(mapRowToRecord)
+    .filter((record): record is SlackUserTokenRecord => record !== null);
+};
+
+export const upsertSlackUserToken = async (
+  record: SlackUserTokenRecord,
+): Promise<void> => {
+  await ensureSystemTab(SLACK_USER_TOKENS_SHEET_NAME, SLACK_USER_TOKENS_HEADER, {
+    hidden: true,
+  });
+  const rows = await readSystemTabRows(
+    SLACK_USER_TOKENS_SHEET_NAME,
+    SLACK_USER_TOKENS_COLUMNS,
+  );
+  const index = rows.findIndex(
+    (row) => (row[0] ?? "").trim() === record.slackUserId,
+  );
+
+  if (index === -1) {
+    await appendSystemTabRows(
+      SLACK_USER_TOKENS_SHEET_NAME,
+      SLACK_USER_TOKENS_COLUMNS,
+      [toRow(record)],
+    );
+    return;
+  }
+
+  await updateSystemTabRange(
+    systemTabRowRange(
+      SLACK_USER_TOKENS_SHEET_NAME,
+      { first: "A", last: "I" },
+      index + 2, // account for header row
+    ),
+    [toRow(record)],
+  );
+};
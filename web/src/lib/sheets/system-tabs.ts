@@ -0,0 +1,336 @@
+import { env } from "@/config/env";
+import { retryWithBackoff } from "@/lib/retry";
+import { getSheetsClient } from "./google";
+
+// アプリ運用用のタブ（監査ログ・Slackイベント記録など）はタスク用スプレッドシートに置く。
+// DR用スプレッドシートは全タブを個人シートとして読むため、そちらには作成しない。
+
+const extractErrorMessage = (error: unknown): string => {
+  if (!error) return "";
+  if (typeof error === "string") {
+    return error;
+  }
+  if (error instanceof Error) {
+    return error.message;
+  }
+  if (
+    typeof error === "object" &&
+    error !== null &&
+    typeof (error as { message?: unknown }).message === "string"
+  ) {
+    return (error as { message: string }).message;
+  }
+  return String(error);
+};
+
+const isRangeParseError = (message: string): boolean =>
+  message.includes("Unable to parse range");
+
+const escapeSheetName = (name: string): string => name.replace(/'/g, "''");
+
+const knownTabs = new Set<string>();
+
+export const systemTabRange = (sheetName: string, columns: string): string =>
+  `'${escapeSheetName(sheetName)}'!${columns}`;
+
+export const systemTabRowRange = (
+  sheetName: string,
+  columns: { first: string; last: string },
+  rowNumber: number,
+): string =>
+  `'${escapeSheetName(sheetName)}'!${columns.first}${rowNumber}:${columns.last}${rowNumber}`;
+
+export const ensureSystemTab = async (
+  sheetName: string,
+  header: string[],
+  options: { hidden?: boolean } = {},
+): Promise<void> => {
+  if (knownTabs.has(sheetName)) {
+    return;
+  }
+
+  const spreadsheetId = env.server.SHEETS_TASKS_SPREADSHEET_ID;
+  const sheets = await getSheetsClient();
+
+  const metadata = await retryWithBackoff(() =>
+    sheets.spreadsheets.get({
+      spreadsheetId,
+      fields: "sheets.properties.title",
+    }),
+  );
+  const exists = (metadata.data.sheets ?? []).some(
+    (sheet) => sheet.properties?.title === sheetName,
+  );
+
+  if (!exists) {
+    await retryWithBackoff(async (attempt) => {
+      try {
+        await sheets.spreadsheets.batchUpdate({
+          spreadsheetId,
+          requestBody: {
+            requests: [
+              {
+                addSheet: {
+                  properties: {
+                    title: sheetName,
+                    hidden: options.hidden ?? false,
+                  },
+                },
+              },
+            ],
+          },
+        });
+        await sheets.spreadsheets.values.update({
+          spreadsheetId,
+          range: systemTabRange(sheetName, "A1"),
+          valueInputOption: "RAW",
+          requestBody: { values: [header] },
+        });
+      } catch (error) {
+        console.error("sheets.system_tabs.create.error", {
+          attempt,
+          spreadsheetId,
+          sheetName,
+          error: extractErrorMessage(error),
+        });
+        throw error;
+      }
+    });
+    console.info("sheets.system_tabs.created", { spreadsheetId, sheetName });
+  }
+
+  knownTabs.add(sheetName);
+};
+
+/**
+ * ヘッダー行を除いた行を返す。タブが存在しない場合は空配列。
+ */
+export const readSystemTabRows = async (
+  sheetName: string,
+  columns: string,
+): Promise<string[][]> => {
+  const spreadsheetId = env.server.SHEETS_TASKS_SPREADSHEET_ID;
+  const sheets = await getSheetsClient();
+  const range = systemTabRange(sheetName, columns);
+
+  const values = await retryWithBackoff<string[][] | null>(async (attempt) => {
+    try {
+      const response = await sheets.spreadsheets.values.get({
+        spreadsheetId,
+        range,
+        valueRenderOption: "UNFORMATTED_VALUE",
+      });
+      return (response.data.values ?? []).map((row) =>
+        row.map((cell) =>
+          cell === undefined || cell === null ? "" : String(cell),
+        ),
+      );
+    } catch (error) {
+      const errorMessage = extractErrorMessage(error);
+      if (isRangeParseError(errorMessage)) {
+        if (attempt === 0) {
+          console.warn("sheets.system_tabs.read.missing_sheet", {
+            spreadsheetId,
+            range,
+          });
+        }
+        return null;
+      }
+      console.error("sheets.system_tabs.read.error", {
+        attempt,
+        spreadsheetId,
+        range,
+        error: errorMessage,
+      });
+      throw error;
+    }
+  });
+
+  if (values === null) {
+    return [];
+  }
+
+  const [, ...rows] = values;
+  return rows;
+};
+
+export const appendSystemTabRows = async (
+  sheetName: string,
+  columns: string,
+  rows: (string | number)[][],
+): Promise<void> => {
+  if (rows.length === 0) {
+    return;
+  }
+
+  const spreadsheetId = env.server.SHEETS_TASKS_SPREADSHEET_ID;
+  const sheets = await getSheetsClient();
+  const range = systemTabRange(sheetName, columns);
+
+  await retryWithBackoff(async (attempt) => {
+    try {
+      await sheets.spreadsheets.values.append({
+        spreadsheetId,
+        range,
+        valueInputOption: "RAW",
+        insertDataOption: "INSERT_ROWS",
+        requestBody: { values: rows },
+      });
+    } catch (error) {
+      console.error("sheets.system_tabs.append.error", {
+        attempt,
+        spreadsheetId,
+        range,
+        error: extractErrorMessage(error),
+      });
+      throw error;
+    }
+  });
+};
+
+export const updateSystemTabRange = async (
+  range: string,
+  rows: (string | number)[][],
+): Promise<void> => {
+  const spreadsheetId = env.server.SHEETS_TASKS_SPREADSHEET_ID;
+  const sheets = await getSheetsClient();
+
+  await retryWithBackoff(async (attempt) => {
+    try {
+      await sheets.spreadsheets.values.update({
+        spreadsheetId,
+        range,
+        valueInputOption: "RAW",
+        requestBody: { values: rows },
+      });
+    } catch (error) {
+      console.error("sheets.system_tabs.update.error", {
+        attempt,
+        spreadsheetId,
+        range,
+        error: extractErrorMessage(error),
+      });
+      throw error;
+    }
+  });
+};
+
+export const batchUpdateSystemTabRanges = async (
+  data: Array<{ range: string; values: (string | number)[][] }>,
+): Promise<void> => {
+  if (data.length === 0) {
+    return;
+  }
+
+  const spreadsheetId = env.server.SHEETS_TASKS_SPREADSHEET_ID;
+  const sheets = await getSheetsClient();
+
+  await retryWithBackoff(async (attempt) => {
+    try {
+      await sheets.spreadsheets.values.batchUpdate({
+        spreadsheetId,
+        requestBody: {
+          valueInputOption: "RAW",
+          data,
+        },
+      });
+    } catch (error) {
+      console.error("sheets.system_tabs.batch_update.error", {
+        attempt,
+        spreadsheetId,
+        ranges: data.length,
+        error: extractErrorMessage(error),
+      });
+      throw error;
+    }
+  });
+};
+
+const sheetIdCache = new Map<string, number>();
+
+const getSystemTabSheetId = async (sheetName: string): Promise<number> => {
+  const cached = sheetIdCache.get(sheetName);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const spreadsheetId = env.server.SHEETS_TASKS_SPREADSHEET_ID;
+  const sheets = await getSheetsClient();
+  const metadata = await retryWithBackoff(() =>
+    sheets.spreadsheets.get({
+      spreadsheetId,
+      fields: "sheets.properties(title,sheetId)",
+    }),
+  );
+  const sheetId = (metadata.data.sheets ?? []).find(
+    (sheet) => sheet.properties?.title === sheetName,
+  )?.properties?.sheetId;
+  if (typeof sheetId !== "number") {
+    throw new Error(`system tab not found: ${sheetName}`);
+  }
+  sheetIdCache.set(sheetName, sheetId);
+  return sheetId;
+};
+
+/**
+ * ヘッダー直下に行を差し込む（新しい行ほど上）。直近の行だけを
+ * 先頭から決まった範囲で読めるようにしたいタブで使う。
+ * 行の挿入と書き込みは 1 回の batchUpdate なので、途中の状態は見えない。
+ */
+export const prependSystemTabRows = async (
+  sheetName: string,
+  rows: (string | number)[][],
+): Promise<void> => {
+  if (rows.length === 0) {
+    return;
+  }
+
+  const spreadsheetId = env.server.SHEETS_TASKS_SPREADSHEET_ID;
+  const sheets = await getSheetsClient();
+  const sheetId = await getSystemTabSheetId(sheetName);
+
+  await retryWithBackoff(async (attempt) => {
+    try {
+      await sheets.spreadsheets.batchUpdate({
+        spreadsheetId,
+        requestBody: {
+          requests: [
+            {
+              insertDimension: {
+                range: {
+                  sheetId,
+                  dimension: "ROWS",
+                  startIndex: 1,
+                  endIndex: 1 + rows.length,
+                },
+                inheritFromBefore: false,
+              },
+            },
+            {
+              updateCells: {
+                start: { sheetId, rowIndex: 1, columnIndex: 0 },
+                rows: rows.map((row) => ({
+                  values: row.map((value) => ({
+                    userEnteredValue:
+                      typeof value === "number"
+                        ? { numberValue: value }
+                        : { stringValue: value },
+                  })),
+                })),
+                fields: "userEnteredValue",
+              },
+            },
+          ],
+        },
+      });
+    } catch (error) {
+      console.error("sheets.system_tabs.prepend.error", {
+        attempt,
+        spreadsheetId,
+        sheetName,
+        error: extractErrorMessage(error),
+      });
+      throw error;
+    }
+  });
+};
@@ -0,0 +1,98 @@
+import type { TaskChecklistItem } from "@/types";
+import {
+  appendSystemTabRows,
+  batchUpdateSystemTabRanges,
+  ensureSystemTab,
+  readSystemTabRows,
+  systemTabRowRange,
+} from "./system-tabs";
+
+// task_history と同じく taskId をキーにした行で持つ（タスクシートとしては読まない）
+export const TASK_CHECKLIST_SHEET_NAME = "task_checklist";
+const TASK_CHECKLIST_COLUMNS = "A:J";
+const TASK_CHECKLIST_HEADER = [
+  "taskId",
+  "itemId",
+  "position",
+  "title",
+  "done",
+  "assigneeName",
+  "dueDate",
+  "doneAt",
+  "updatedAt",
+  "deletedAt",
+];
+
+export interface TaskChecklistRow {
+  rowNumber: number;
+  item: TaskChecklistItem;
+}
+
+const mapRowToItem = (row: string[]): TaskChecklistItem | null => {
+  const taskId = (row[0] ?? "").trim();
+  const id = (row[1] ?? "").trim();
+  // 削除済み（J列あり）の行は読み飛ばす
+  if (!taskId || !id || (row[9] ?? "").trim()) {
+    return null;
+  }
+  const position = Number(row[2]);
+  return {
+    id,
+    taskId,
+    position: Number.isFinite(position) ? position : 0,
+    title: row[3] ?? "",
+    done: (row[4] ?? "").trim().toLowerCase() === "true",
+    assigneeName: (row[5] ?? "").trim() || undefined,
+    dueDate: (row[6] ?? "").trim().slice(0, 10) || undefined,
+    doneAt: (row[7] ?? "").trim() || undefined,
+    updatedAt: row[8] ?? "",
+  };
+};
+
+const toRow = (item: TaskChecklistItem, deletedAt = ""): (string | number)[] => [
+  item.taskId,
+  item.id,
+  item.position,
+  item.title,
+  item.done ? "true" : "false",
+  item.assigneeName ?? "",
+  item.dueDate ?? "",
+  item.doneAt ?? "",
+  item.updatedAt,
+  deletedAt,
+];
+
+export const listTaskChecklistRows = async (): Promise<TaskChecklistRow[]> => {
+  const rows = await readSystemTabRows(
+    TASK_CHECKLIST_SHEET_NAME,
+    TASK_CHECKLIST_COLUMNS,
+  );
+  return rows.flatMap((row, index) => {
+    const item = mapRowToItem(row);
+    return item ? [{ rowNumber: index + 2, item }] : []; // account for header row
+  });
+};
+
+export const appendTaskChecklistItem = async (
+  item: TaskChecklistItem,
+): Promise<void> => {
+  await ensureSystemTab(TASK_CHECKLIST_SHEET_NAME, TASK_CHECKLIST_HEADER);
+  await appendSystemTabRows(TASK_CHECKLIST_SHEET_NAME, TASK_CHECKLIST_COLUMNS, [
+    toRow(item),
+  ]);
+};
+
+export const updateTaskChecklistRows = async (
+  rows: Array<TaskChecklistRow & { deletedAt?: string }>,
+): Promise<void> => {
+  await batchUpdateSystemTabRanges(
+    rows.map(({ rowNumber, item, deletedAt }) => ({
+      range: systemTabRowRange(
+        TASK_CHECKLIST_SHEET_NAME,
+        { first: "A", last: "J" },
+        rowNumber,
+      ),
+      values: [toRow(item, deletedAt)],
+    })),
+  );
+};
@@ -0,0 +1,132 @@
+import type { SavedTaskView } from "@/types";
+import {
+  appendSystemTabRows,
+  ensureSystemTab,
+  readSystemTabRows,
+  systemTabRowRange,
+  updateSystemTabRange,
+} from "./system-tabs";
+
+// タブ名に "task" を含めるとタスクシートとして読まれるため、saved_views とする
+const SAVED_VIEWS_SHEET_NAME = "saved_views";
+const SAVED_VIEWS_COLUMNS = "A:I";
+const SAVED_VIEWS_HEADER = [
+  "id",
+  "ownerSlug",
+  "name",
+  "visibility",
+  "query",
+  "displayMode",
+  "createdAt",
+  "updatedAt",
+  "deletedAt",
+];
+
+const SAVED_VIEW_DEFAULTS_SHEET_NAME = "saved_view_defaults";
+const SAVED_VIEW_DEFAULTS_COLUMNS = "A:C";
+const SAVED_VIEW_DEFAULTS_HEADER = ["userSlug", "viewId", "updatedAt"];
+
+export interface SavedViewRow {
+  rowNumber: number;
+  view: SavedTaskView;
+}
+
+const mapRowToView = (row: string[]): SavedTaskView | null => {
+  const id = (row[0] ?? "").trim();
+  const ownerSlug = (row[1] ?? "").trim();
+  // 削除済み（I列あり）の行は読み飛ばす
+  if (!id || !ownerSlug || (row[8] ?? "").trim()) {
+    return null;
+  }
+  return {
+    id,
+    ownerSlug,
+    name: row[2] ?? "",
+    visibility: row[3] === "team" ? "team" : "private",
+    query: row[4] ?? "",
+    displayMode: row[5] === "gantt" ? "gantt" : "table",
+    createdAt: row[6] ?? "",
+    updatedAt: row[7] ?? "",
+  };
+};
+
+const toRow = (view: SavedTaskView, deletedAt = ""): string[] => [
+  view.id,
+  view.ownerSlug,
+  view.name,
+  view.visibility,
+  view.query,
+  view.displayMode,
+  view.createdAt,
+  view.updatedAt,
+  deletedAt,
+];
+
+export const listSavedViewRows = async (): Promise<SavedViewRow[]> => {
+  const rows = await readSystemTabRows(
+    SAVED_VIEWS_SHEET_NAME,
+    SAVED_VIEWS_COLUMNS,
+  );
+  return rows.flatMap((row, index) => {
+    const view = mapRowToView(row);
+    return view ? [{ rowNumber: index + 2, view }] : []; // account for header row
+  });
+};
+
+export const appendSavedView = async (view: SavedTaskView): Promise<void> => {
+  await ensureSystemTab(SAVED_VIEWS_SHEET_NAME, SAVED_VIEWS_HEADER, {
+    hidden: true,
+  });
+  await appendSystemTabRows(SAVED_VIEWS_SHEET_NAME, SAVED_VIEWS_COLUMNS, [
+    toRow(view),
+  ]);
+};
+
+export const updateSavedViewRow = async (
+  rowNumber: number,
+  view: SavedTaskView,
+  options: { deletedAt?: string } = {},
+): Promise<void> => {
+  await updateSystemTabRange(
+    systemTabRowRange(
+      SAVED_VIEWS_SHEET_NAME,
+      { first: "A", last: "I" },
+      rowNumber,
+    ),
+    [toRow(view, options.deletedAt)],
+  );
+};
+
+/**
+ * userSlug ごとの既定ビューIDを返す。行は追記のみで、同じユーザーは最後の行が有効（空なら既定なし）。
+ */
+export const listSavedViewDefaults = async (): Promise<Map<string, string>> => {
+  const rows = await readSystemTabRows(
+    SAVED_VIEW_DEFAULTS_SHEET_NAME,
+    SAVED_VIEW_DEFAULTS_COLUMNS,
+  );
+  const latest = new Map<string, string>();
+  rows.forEach((row) => {
+    const userSlug = (row[0] ?? "").trim();
+    if (userSlug) {
+      latest.set(userSlug, (row[1] ?? "").trim());
+    }
+  });
+  return latest;
+};
+
+export const recordSavedViewDefault = async (
+  userSlug: string,
+  viewId: string | null,
+): Promise<void> => {
+  await ensureSystemTab(
+    SAVED_VIEW_DEFAULTS_SHEET_NAME,
+    SAVED_VIEW_DEFAULTS_HEADER,
+    { hidden: true },
+  );
+  await appendSystemTabRows(
+    SAVED_VIEW_DEFAULTS_SHEET_NAME,
+    SAVED_VIEW_DEFAULTS_COLUMNS,
+    [[userSlug, viewId ?? "", new Date().toISOString()]],
+  );
+};
@@ -1,15 +1,28 @@
-import { Task, TaskHistoryEvent } from "@/types";
+import type { sheets_v4 } from "googleapis";
+import { Task, TaskChecklistItem, TaskHistoryEvent } from "@/types";
+import {
+  formatTaskRecurrence,
+  parseTaskRecurrence,
+} from "@/lib/task-recurrence";
 import { env } from "@/config/env";
 import { retryWithBackoff } from "@/lib/retry";
 import { getSheetsClient } from "./google";
+import {
+  listTaskChecklistRows,
+  TASK_CHECKLIST_SHEET_NAME,
+} from "./task-checklist";
+import { sortChecklistItems } from "@/lib/task-checklist";
+import { normalizeTaskTag } from "@/lib/task-tags";
 
 const DEFAULT_TASK_SHEET_NAME = "tasks";
 const TASK_HISTORY_SHEET_NAME = "task_history";
-const TASK_SHEET_COLUMNS_RANGE = "A:N";
+const TASK_SHEET_COLUMNS_RANGE = "A:S";
 const TASK_HISTORY_RANGE = `'${TASK_HISTORY_SHEET_NAME}'!A:G`;
 const KNOWN_HISTORY_TYPES: readonly TaskHistoryEvent["type"][] = [
   "status_change",
   "comment",
+  "comment_edit",
+  "comment_delete",
   "update",
 ];
 
@@ -57,6 +70,10 @@ const TASK_SHEET_EXCLUDE = new Set([
   "taskhistory",
   "task-history",
   "task history",
+  normalizeSheetTitle(TASK_CHECKLIST_SHEET_NAME),
+  "taskchecklist",
+  "task-checklist",
+  "task checklist",
 ]);
 
 const isTaskSheetTitle = (title: string): boolean => {
@@ -96,6 +113,7 @@ const splitSheetValues = (values: string[][]) => {
 type TaskSheetData = {
   title: string;
   normalizedTitle: string;
+  sheetId: number | undefined;
   header: string[];
   rows: string[][];
 };
@@ -204,33 +222,72 @@ const mapRowToTaskHistory = (
   };
 };
 
+type TaskSheetProperties = {
+  title: string;
+  sheetId: number | undefined;
+};
+
+// タスクシートとして読むタブの一覧（表記揺れで重複するタブは先頭だけ）
+const readTaskSheetProperties = async (
+  sheets: sheets_v4.Sheets,
+  spreadsheetId: string,
+): Promise<TaskSheetProperties[]> => {
+  const metadata = await retryWithBackoff(() =>
+    sheets.spreadsheets.get({
+      spreadsheetId,
+      fields: "sheets.properties(title,sheetId)",
+    }),
+  );
+
+  const properties: TaskSheetProperties[] = [];
+  const seenTitles = new Set<string>();
+  for (const sheet of metadata.data.sheets ?? []) {
+    const title = sheet.properties?.title;
+    if (typeof title !== "string" || title.trim().length === 0) {
+      continue;
+    }
+    if (!isTaskSheetTitle(title)) {
+      continue;
+    }
+    const normalized = normalizeSheetTitle(title);
+    if (seenTitles.has(normalized)) {
+      continue;
+    }
+    seenTitles.add(normalized);
+    // 一括更新（batchUpdate）は範囲指定に sheetId を使う
+    properties.push({
+      title,
+      sheetId: sheet.properties?.sheetId ?? undefined,
+    });
+  }
+  return properties;
+};
+
+export const listTaskSheetTitles = async (): Promise<string[]> => {
+  const spreadsheetId = env.server.SHEETS_TASKS_SPREADSHEET_ID;
+  const sheets = await getSheetsClient();
+  try {
+    const properties = await readTaskSheetProperties(sheets, spreadsheetId);
+    return properties.map((property) => property.title);
+  } catch (error) {
+    console.warn("sheets.tasks.list_titles.failed", {
+      spreadsheetId,
+      error: extractErrorMessage(error),
+    });
+    return [];
+  }
+};
+
 export const readTasks = async (): Promise<TaskSheetData[]> => {
   const spreadsheetId = env.server.SHEETS_TASKS_SPREADSHEET_ID;
   const sheets = await getSheetsClient();
 
   try {
-    const metadata = await retryWithBackoff(() =>
-      sheets.spreadsheets.get({
-        spreadsheetId,
-        fields: "sheets.properties.title",
-      }),
+    const sheetProperties = await readTaskSheetProperties(sheets, spreadsheetId);
+    const sheetIdByTitle = new Map(
+      sheetProperties.map((property) => [property.title, property.sheetId]),
     );
-
-    const sheetTitles = (metadata.data.sheets ?? [])
-      .map((sheet) => sheet.properties?.title)
-      .filter((title): title is string => typeof title === "string" && title.trim().length > 0)
-      .filter((title) => isTaskSheetTitle(title));
-
-    const uniqueTitles: string[] = [];
-    const seenTitles = new Set<string>();
-    for (const title of sheetTitles) {
-      const normalized = normalizeSheetTitle(title);
-      if (seenTitles.has(normalized)) {
-        continue;
-      }
-      seenTitles.add(normalized);
-      uniqueTitles.push(title);
-    }
+    const uniqueTitles = sheetProperties.map((property) => property.title);
 
     if (uniqueTitles.length === 0) {
       console.warn("sheets.tasks.read.no_task_sheets", {
@@ -290,6 +347,7 @@ export const readTasks = async (): Promise<TaskSheetData[]> => {
           return {
             title,
             normalizedTitle: normalizeSheetTitle(title),
+            sheetId: sheetIdByTitle.get(title),
             header,
             rows,
           } satisfies TaskSheetData;
@@ -386,16 +444,7 @@ const mapRowToTask = (
   const tags = tagsCell
     ? tagsCell
         .split(/\s+/)
-        .map((tag) =>
-          tag
-            .replace(/^#/, "")
-            .normalize("NFKC")
-            .replace(/\u200B/g, "")
-            .replace(/\+/g, " ")
-            .replace(/\s+/g, " ")
-            .trim()
-            .toLowerCase(),
-        )
+        .map(normalizeTaskTag)
         .filter(Boolean)
     : [];
 
@@ -414,6 +463,11 @@ const mapRowToTask = (
     tags,
     createdAt: safeString(row[12]) || "",
     updatedAt: safeString(row[13]) || "",
+    dependsOn: safeString(row[14]).split(/[\s,]+/).filter(Boolean),
+    recurrence: parseTaskRecurrence(safeString(row[15])),
+    seriesId: safeString(row[16]).trim() || undefined,
+    sourceReportId: safeString(row[17]).trim() || undefined,
+    sourceReportLine: safeString(row[18]).trim() || undefined,
     sheetTitle,
     history,
   };
@@ -434,6 +488,11 @@ const toTaskRow = (task: Task): (string | number)[] => [
   (task.tags ?? []).map((tag) => tag.trim()).filter(Boolean).join(" "),
   task.createdAt ?? "",
   task.updatedAt ?? "",
+  (task.dependsOn ?? []).join(" "),
+  formatTaskRecurrence(task.recurrence),
+  task.seriesId ?? "",
+  task.sourceReportId ?? "",
+  task.sourceReportLine ?? "",
 ];
 
 type TaskRowLocator = {
@@ -513,11 +572,26 @@ const resolveTargetSheetTitle = (
 };
 
 export const fetchTasks = async (): Promise<Task[]> => {
-  const [taskSheets, historyValues] = await Promise.all([
+  const [taskSheets, historyValues, checklistRows] = await Promise.all([
     readTasks(),
     readTaskHistory(),
+    listTaskChecklistRows().catch((error) => {
+      // チェックリストが読めなくてもタスク一覧は表示する
+      console.warn("sheets.tasks.checklist.read.failed", {
+        error: extractErrorMessage(error),
+      });
+      return [];
+    }),
   ]);
 
+  const checklistByTaskId = new Map<string, TaskChecklistItem[]>();
+  checklistRows.forEach(({ item }) => {
+    checklistByTaskId.set(item.taskId, [
+      ...(checklistByTaskId.get(item.taskId) ?? []),
+      item,
+    ]);
+  });
+
   const { rows: historyRows } = splitSheetValues(historyValues);
 
   const historyByTaskId = new Map<string, TaskHistoryEvent[]>();
@@ -582,6 +656,12 @@ export const fetchTasks = async (): Promise<Task[]> => {
         tags: (task.tags ?? [])
           .map((tag) => normalizeCell(tag))
           .filter(Boolean),
+        dependsOn: (task.dependsOn ?? [])
+          .map((dependency) => normalizeCell(dependency))
+          .filter(Boolean),
+        checklist: sortChecklistItems(
+          checklistByTaskId.get(normalizeCell(task.taskId)) ?? [],
+        ),
         createdAt:
           normalizeOptional(task.createdAt) ?? new Date().toISOString(),
         updatedAt:
@@ -607,7 +687,7 @@ export const upsertTask = async (task: Task): Promise<void> => {
 
   if (locator) {
     const targetSheetTitle = locator.sheet.title;
-    const range = `'${escapeSheetName(targetSheetTitle)}'!A${locator.sheetRowNumber}:N${locator.sheetRowNumber}`;
+    const range = `'${escapeSheetName(targetSheetTitle)}'!A${locator.sheetRowNumber}:S${locator.sheetRowNumber}`;
     task.sheetTitle = targetSheetTitle;
     await retryWithBackoff(async (attempt) => {
       try {
@@ -664,20 +744,206 @@ export const upsertTask = async (task: Task): Promise<void> => {
   }
 };
 
-export const appendTaskHistoryEvent = async (
-  event: TaskHistoryEvent,
+export type TaskBatchWrite = {
+  task: Task;
+  // 指定すると別のタスクシートへ行を移動する
+  targetSheetTitle?: string;
+};
+
+export type TaskBatchWriteResult =
+  | { taskId: string; ok: true }
+  | { taskId: string; ok: false; error: string };
+
+const toCellData = (value: string | number): sheets_v4.Schema$CellData => ({
+  userEnteredValue:
+    typeof value === "number" ? { numberValue: value } : { stringValue: value },
+});
+
+// 移動元の行を taskId で探し直す（読み直したシートで見つからなければ null）
+const findRowIndexInSheet = (
+  sheets: TaskSheetData[],
+  sheetTitle: string,
+  taskId: string,
+): { sheetId: number; rowIndex: number } | null => {
+  const sheet = sheets.find(
+    (item) => item.normalizedTitle === normalizeSheetTitle(sheetTitle),
+  );
+  if (!sheet || sheet.sheetId === undefined) {
+    return null;
+  }
+  const index = sheet.rows.findIndex((row) => safeString(row[0]) === taskId);
+  return index === -1 ? null : { sheetId: sheet.sheetId, rowIndex: index + 1 };
+};
+
+/**
+ * 複数タスクの更新・シート間移動を batchUpdate で書き込む。
+ * 更新と移動先への追記を 1 回で行い、移動元の行は読み直して taskId を確かめてから消す。
+ * 追記や削除が二重に走らないよう、batchUpdate は再試行しない。
+ * 行が見つからないタスクは結果に失敗として返し、最初の書き込みの失敗は例外にする。
+ */
+export const batchWriteTasks = async (
+  writes: TaskBatchWrite[],
+): Promise<TaskBatchWriteResult[]> => {
+  const spreadsheetId = env.server.SHEETS_TASKS_SPREADSHEET_ID;
+  const sheets = await getSheetsClient();
+  const taskSheets = await readTasks();
+
+  const results: TaskBatchWriteResult[] = [];
+  const updateRequests: sheets_v4.Schema$Request[] = [];
+  const appendRequests: sheets_v4.Schema$Request[] = [];
+  const moves: Array<{ taskId: string; sourceSheetTitle: string }> = [];
+
+  for (const { task, targetSheetTitle } of writes) {
+    const locator = findTaskRowLocator(taskSheets, task.taskId, task.sheetTitle);
+    if (!locator || locator.sheet.sheetId === undefined) {
+      results.push({
+        taskId: task.taskId,
+        ok: false,
+        error: "タスクの行が見つかりませんでした。",
+      });
+      continue;
+    }
+
+    const source = locator.sheet;
+    const sourceSheetId = locator.sheet.sheetId;
+    const target = targetSheetTitle
+      ? taskSheets.find(
+          (sheet) =>
+            sheet.normalizedTitle === normalizeSheetTitle(targetSheetTitle),
+        )
+      : source;
+    if (!target || target.sheetId === undefined) {
+      results.push({
+        taskId: task.taskId,
+        ok: false,
+        error: `移動先のシート「${targetSheetTitle}」が見つかりませんでした。`,
+      });
+      continue;
+    }
+
+    task.sheetTitle = target.title;
+    const rowData = { values: toTaskRow(task).map(toCellData) };
+    const rowIndex = locator.sheetRowNumber - 1;
+
+    if (target.sheetId === sourceSheetId) {
+      updateRequests.push({
+        updateCells: {
+          start: { sheetId: sourceSheetId, rowIndex, columnIndex: 0 },
+          rows: [rowData],
+          fields: "userEnteredValue",
+        },
+      });
+    } else {
+      appendRequests.push({
+        appendCells: {
+          sheetId: target.sheetId,
+          rows: [rowData],
+          fields: "userEnteredValue",
+        },
+      });
+      moves.push({ taskId: task.taskId, sourceSheetTitle: source.title });
+    }
+    results.push({ taskId: task.taskId, ok: true });
+  }
+
+  const requests = [...updateRequests, ...appendRequests];
+  if (requests.length === 0) {
+    return results;
+  }
+
+  try {
+    await sheets.spreadsheets.batchUpdate({
+      spreadsheetId,
+      requestBody: { requests },
+    });
+  } catch (error) {
+    console.error("sheets.tasks.batch_update.error", {
+      spreadsheetId,
+      requestCount: requests.length,
+      error: extractErrorMessage(error),
+    });
+    throw error;
+  }
+
+  if (moves.length === 0) {
+    return results;
+  }
+
+  const markMoveFailed = (taskIds: string[]) => {
+    const failedIds = new Set(taskIds);
+    return results.map((result): TaskBatchWriteResult =>
+      failedIds.has(result.taskId)
+        ? {
+            taskId: result.taskId,
+            ok: false,
+            error: "移動先には追加しましたが、移動元の行を削除できませんでした。",
+          }
+        : result,
+    );
+  };
+
+  // 他の人の行の追加・削除で行番号がずれていても別のタスクを消さないよう、読み直した位置を使う
+  const latestSheets = await readTasks();
+  if (latestSheets.length === 0) {
+    return markMoveFailed(moves.map((move) => move.taskId));
+  }
+  const deletions = moves.flatMap(({ taskId, sourceSheetTitle }) => {
+    const found = findRowIndexInSheet(latestSheets, sourceSheetTitle, taskId);
+    return found ? [{ taskId, ...found }] : [];
+  });
+  if (deletions.length === 0) {
+    return results;
+  }
+
+  // 下の行から消して、後続の行番号がずれないようにする
+  const deleteRequests = deletions
+    .sort((a, b) => b.rowIndex - a.rowIndex)
+    .map(({ sheetId, rowIndex }): sheets_v4.Schema$Request => ({
+      deleteDimension: {
+        range: {
+          sheetId,
+          dimension: "ROWS",
+          startIndex: rowIndex,
+          endIndex: rowIndex + 1,
+        },
+      },
+    }));
+
+  try {
+    await sheets.spreadsheets.batchUpdate({
+      spreadsheetId,
+      requestBody: { requests: deleteRequests },
+    });
+  } catch (error) {
+    console.error("sheets.tasks.batch_delete.error", {
+      spreadsheetId,
+      taskIds: deletions.map((deletion) => deletion.taskId),
+      error: extractErrorMessage(error),
+    });
+    return markMoveFailed(deletions.map((deletion) => deletion.taskId));
+  }
+
+  return results;
+};
+
+const toTaskHistoryRow = (event: TaskHistoryEvent): string[] => [
+  event.taskId,
+  event.id,
+  event.happenedAt,
+  event.actorId,
+  event.actorName,
+  event.type,
+  event.details,
+];
+
+export const appendTaskHistoryEvents = async (
+  events: TaskHistoryEvent[],
 ): Promise<void> => {
+  if (events.length === 0) {
+    return;
+  }
   const spreadsheetId = env.server.SHEETS_TASKS_SPREADSHEET_ID;
   const sheets = await getSheetsClient();
-  const row = [
-    event.taskId,
-    event.id,
-    event.happenedAt,
-    event.actorId,
-    event.actorName,
-    event.type,
-    event.details,
-  ];
 
   await retryWithBackoff(async (attempt) => {
     try {
@@ -686,7 +952,7 @@ export const appendTaskHistoryEvent = async (
         range: TASK_HISTORY_RANGE,
         valueInputOption: "RAW",
         insertDataOption: "INSERT_ROWS",
-        requestBody: { values: [row] },
+        requestBody: { values: events.map(toTaskHistoryRow) },
       });
     } catch (error) {
       const errorMessage =
@@ -694,10 +960,14 @@ export const appendTaskHistoryEvent = async (
       console.error("sheets.tasks.history.append.error", {
         attempt,
         spreadsheetId,
-        taskId: event.taskId,
+        taskIds: events.map((event) => event.taskId),
         error: errorMessage,
       });
       throw error;
     }
   });
 };
+
+export const appendTaskHistoryEvent = async (
+  event: TaskHistoryEvent,
+): Promise<void> => appendTaskHistoryEvents([event]);
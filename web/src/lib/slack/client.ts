@@ -1,6 +1,10 @@
 import { WebClient, LogLevel } from "@slack/web-api";
 import type { Block, KnownBlock } from "@slack/web-api";
+import { parseISO } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
+import { DEFAULT_TIMEZONE } from "@/config/constants";
 import { env } from "@/config/env";
+import { isBackfilledDailyReport } from "@/lib/time";
 import { DailyReport } from "@/types";
 import {
   formatDailyReportMessage,
@@ -39,9 +43,18 @@ export interface SlackPostResult {
   needed?: string;
   provided?: string;
   usedTokenType: "user" | "bot";
+  userTokenError?: string;
+  action?: "posted" | "updated";
   raw: unknown;
 }
 
+export interface SlackUpdateOptions {
+  channelId: string;
+  ts: string;
+  userAccessToken?: string | null;
+  editedAt?: Date;
+}
+
 const toDrFields = (report: DailyReport): DrFields => ({
   date: report.date,
   userName: report.userName ?? "",
@@ -62,10 +75,30 @@ export const buildSlackMessagePayload = (report: DailyReport) => {
   const tagsLine = report.tags.length
     ? `\n\n${report.tags.map((tag) => `#${tag}`).join(" ")}`
     : "";
+  const lateNotice = isBackfilledDailyReport(report)
+    ? `:hourglass_flowing_sand: ${formatInTimeZone(
+        parseISO(report.createdAt),
+        DEFAULT_TIMEZONE,
+        "yyyy-MM-dd",
+      )} に後から提出された ${report.date} 分の日報です`
+    : null;
 
   return {
     text: `${text}${tagsLine}`,
     blocks: [
+      ...(lateNotice
+        ? [
+            {
+              type: "context" as const,
+              elements: [
+                {
+                  type: "mrkdwn" as const,
+                  text: lateNotice,
+                },
+              ],
+            },
+          ]
+        : []),
       ...blocks,
       ...(tagsLine
         ? [
@@ -84,6 +117,39 @@ export const buildSlackMessagePayload = (report: DailyReport) => {
   };
 };
 
+const parseSlackError = (unknownError: unknown) => {
+  const toRecord = (value: unknown): Record<string, unknown> | undefined =>
+    value && typeof value === "object" ? (value as Record<string, unknown>) : undefined;
+  const pickString = (value: unknown): string | undefined =>
+    typeof value === "string" ? value : undefined;
+  const pickNumber = (value: unknown): number | null =>
+    typeof value === "number" ? value : null;
+
+  const err = (unknownError ?? {}) as Record<string, unknown>;
+  const responseObj = toRecord((err as { response?: unknown }).response);
+  const responseData =
+    toRecord(responseObj?.data) ?? toRecord((err as { data?: unknown }).data);
+
+  const status =
+    pickNumber(responseObj?.status) ??
+    pickNumber(err.status) ??
+    pickNumber(err.code) ??
+    null;
+
+  const message = pickString(err.message);
+  const errorCode = pickString(responseData?.error) ?? message ?? "slack_unknown_error";
+  const needed = pickString(responseData?.needed);
+  const provided = pickString(responseData?.provided);
+
+  return { status, message, errorCode, needed, provided, responseData };
+};
+
+const createUserClient = (token: string) =>
+  new WebClient(token, {
+    logLevel:
+      process.env.NODE_ENV === "development" ? LogLevel.DEBUG : LogLevel.ERROR,
+  });
+
 export const postDailyReportToSlack = async (
   report: DailyReport,
   options: SlackPostOptions,
@@ -112,14 +178,7 @@ export const postDailyReportToSlack = async (
   ): Promise<SlackPostResult> => {
     const tokenPrefix = token.slice(0, 5);
     const client =
-      usedTokenType === "user"
-        ? new WebClient(token, {
-            logLevel:
-              process.env.NODE_ENV === "development"
-                ? LogLevel.DEBUG
-                : LogLevel.ERROR,
-          })
-        : getSlackClient();
+      usedTokenType === "user" ? createUserClient(token) : getSlackClient();
 
     console.log("DEBUG slack.postMessage.request", {
       using: usedTokenType,
@@ -167,28 +226,8 @@ export const postDailyReportToSlack = async (
         raw: response,
       };
     } catch (unknownError) {
-      const toRecord = (value: unknown): Record<string, unknown> | undefined =>
-        value && typeof value === "object" ? (value as Record<string, unknown>) : undefined;
-      const pickString = (value: unknown): string | undefined =>
-        typeof value === "string" ? value : undefined;
-      const pickNumber = (value: unknown): number | null =>
-        typeof value === "number" ? value : null;
-
-      const err = (unknownError ?? {}) as Record<string, unknown>;
-      const responseObj = toRecord((err as { response?: unknown }).response);
-      const responseData =
-        toRecord(responseObj?.data) ?? toRecord((err as { data?: unknown }).data);
-
-      const status =
-        pickNumber(responseObj?.status) ??
-        pickNumber(err.status) ??
-        pickNumber(err.code) ??
-        null;
-
-      const message = pickString(err.message);
-      const errorCode = pickString(responseData?.error) ?? message ?? "slack_unknown_error";
-      const needed = pickString(responseData?.needed);
-      const provided = pickString(responseData?.provided);
+      const { status, message, errorCode, needed, provided, responseData } =
+        parseSlackError(unknownError);
 
       console.error("slack.post_daily_report.error", {
         channel: channelId,
@@ -210,11 +249,13 @@ export const postDailyReportToSlack = async (
     }
   };
 
+  let userTokenError: string | undefined;
   if (userToken) {
     const userResult = await sendWithToken(userToken, "user");
     if (userResult.ok || !allowBotFallback) {
       return userResult;
     }
+    userTokenError = userResult.error;
   }
 
   const botToken = env.server.SLACK_BOT_TOKEN.trim();
@@ -223,9 +264,204 @@ export const postDailyReportToSlack = async (
       ok: false,
       error: "bot_token_missing",
       usedTokenType: "bot",
+      userTokenError,
       raw: null,
     };
   }
 
-  return sendWithToken(botToken, "bot");
+  const botResult = await sendWithToken(botToken, "bot");
+  return { ...botResult, userTokenError };
+};
+
+export const updateDailyReportOnSlack = async (
+  report: DailyReport,
+  options: SlackUpdateOptions,
+): Promise<SlackPostResult> => {
+  const payload = buildSlackMessagePayload(report);
+  const editedLabel = formatInTimeZone(
+    options.editedAt ?? new Date(),
+    DEFAULT_TIMEZONE,
+    "yyyy-MM-dd HH:mm",
+  );
+  const blocks = [
+    ...payload.blocks,
+    {
+      type: "context" as const,
+      elements: [
+        {
+          type: "mrkdwn" as const,
+          text: `:pencil2: 編集済み（${editedLabel}）`,
+        },
+      ],
+    },
+  ] as unknown as (Block | KnownBlock)[];
+  const channelId = options.channelId.trim();
+  const userToken =
+    typeof options.userAccessToken === "string" &&
+    options.userAccessToken.trim().startsWith("xoxp-")
+      ? options.userAccessToken.trim()
+      : null;
+
+  const updateWithToken = async (
+    token: string,
+    usedTokenType: "user" | "bot",
+  ): Promise<SlackPostResult> => {
+    const client =
+      usedTokenType === "user" ? createUserClient(token) : getSlackClient();
+    try {
+      const response = await client.chat.update({
+        channel: channelId,
+        ts: options.ts,
+        text: payload.text,
+        blocks,
+      });
+      return {
+        ok: Boolean(response.ok),
+        ts: typeof response.ts === "string" ? response.ts : options.ts,
+        channel:
+          typeof response.channel === "string" ? response.channel : undefined,
+        error: response.error,
+        usedTokenType,
+        action: "updated",
+        raw: response,
+      };
+    } catch (unknownError) {
+      const { status, message, errorCode, needed, provided, responseData } =
+        parseSlackError(unknownError);
+      console.error("slack.update_daily_report.error", {
+        channel: channelId,
+        ts: options.ts,
+        reportId: report.reportId,
+        usingUserToken: usedTokenType === "user",
+        message,
+        data: responseData,
+        status,
+      });
+      return {
+        ok: false,
+        error: errorCode,
+        needed,
+        provided,
+        usedTokenType,
+        action: "updated",
+        raw: unknownError,
+      };
+    }
+  };
+
+  // chat.update は元投稿と同じ主体でしか成功しないため、本人トークン→Botの順で試す
+  let userTokenError: string | undefined;
+  if (userToken) {
+    const userResult = await updateWithToken(userToken, "user");
+    if (userResult.ok) {
+      return userResult;
+    }
+    userTokenError = userResult.error;
+  }
+
+  const botResult = await updateWithToken(env.server.SLACK_BOT_TOKEN, "bot");
+  return { ...botResult, userTokenError };
+};
+
+export interface SlackDirectMessage {
+  text: string;
+  blocks?: (Block | KnownBlock)[];
+}
+
+export interface SlackDirectMessageResult {
+  ok: boolean;
+  channel?: string;
+  ts?: string;
+  error?: string;
+}
+
+/**
+ * Botトークンで相手とのIMを開き、DMを送る（Botに im:write / chat:write が必要）。
+ */
+export const sendSlackDirectMessage = async (
+  slackUserId: string,
+  message: SlackDirectMessage,
+): Promise<SlackDirectMessageResult> => {
+  const client = getSlackClient();
+  try {
+    const opened = await client.conversations.open({ users: slackUserId });
+    const channel = opened.channel?.id;
+    if (!opened.ok || !channel) {
+      return { ok: false, error: opened.error ?? "im_open_failed" };
+    }
+
+    const response = await client.chat.postMessage({
+      channel,
+      text: message.text,
+      blocks: message.blocks,
+      unfurl_links: false,
+    });
+    return {
+      ok: Boolean(response.ok),
+      channel,
+      ts: typeof response.ts === "string" ? response.ts : undefined,
+      error: response.error,
+    };
+  } catch (unknownError) {
+    const { status, message: errorMessage, errorCode } =
+      parseSlackError(unknownError);
+    console.error("slack.direct_message.error", {
+      slackUserId,
+      message: errorMessage,
+      status,
+    });
+    return { ok: false, error: errorCode };
+  }
+};
+
+export interface SlackUserProfile {
+  name: string;
+  email: string;
+}
+
+const SLACK_PROFILE_CACHE_TTL_MS = 10 * 60_000;
+const slackProfileCache = new Map<
+  string,
+  { timestamp: number; profile: SlackUserProfile }
+>();
+
+/**
+ * Botトークンで Slack のプロフィールから表示名とメールを取る（Botに users:read /
+ * users:read.email が必要）。取得できない場合は null。
+ */
+export const fetchSlackUserProfile = async (
+  slackUserId: string,
+): Promise<SlackUserProfile | null> => {
+  const cached = slackProfileCache.get(slackUserId);
+  if (cached && Date.now() - cached.timestamp <= SLACK_PROFILE_CACHE_TTL_MS) {
+    return cached.profile;
+  }
+
+  try {
+    const response = await getSlackClient().users.info({ user: slackUserId });
+    const user = response.user;
+    if (!response.ok || !user) {
+      return null;
+    }
+    const profile: SlackUserProfile = {
+      name:
+        user.profile?.real_name?.trim() ||
+        user.profile?.display_name?.trim() ||
+        user.real_name?.trim() ||
+        user.name?.trim() ||
+        "",
+      email: user.profile?.email?.trim() ?? "",
+    };
+    slackProfileCache.set(slackUserId, { timestamp: Date.now(), profile });
+    return profile;
+  } catch (unknownError) {
+    const { status, message, errorCode } = parseSlackError(unknownError);
+    console.error("slack.users_info.error", {
+      slackUserId,
+      message,
+      error: errorCode,
+      status,
+    });
+    return null;
+  }
 };
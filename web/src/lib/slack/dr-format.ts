@@ -136,3 +136,46 @@ export function parseDailyReportFromSlack(text: string): Partial<DrFields> {
 
   return result;
 }
+
+const SLACK_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+};
+
+export function decodeSlackText(text: string): string {
+  return text.replace(/&(amp|lt|gt);/g, (entity) => SLACK_ENTITIES[entity]);
+}
+
+// 見出し行（":spiral_calendar_pad: YYYY-MM-DD 名前 #dr"）とタグ行を本文から切り出す
+export function extractDailyReportMetaFromSlack(text: string): {
+  body: string;
+  date: string | null;
+  tags: string[];
+} {
+  const lines = text.split(/\r?\n/);
+  const headerLine = lines.find((line) =>
+    line.trim().startsWith(":spiral_calendar_pad:"),
+  );
+  const date = headerLine?.match(/\d{4}-\d{2}-\d{2}/)?.[0] ?? null;
+
+  const tags: string[] = [];
+  const bodyLines = lines.filter((line) => {
+    const trimmed = line.trim();
+    if (!trimmed || !/^(#\S+\s*)+$/.test(trimmed)) {
+      return true;
+    }
+    trimmed
+      .split(/\s+/)
+      .map((tag) => tag.replace(/^#/, "").trim())
+      .filter(Boolean)
+      .forEach((tag) => {
+        if (!tags.includes(tag)) {
+          tags.push(tag);
+        }
+      });
+    return false;
+  });
+
+  return { body: bodyLines.join("\n"), date, tags };
+}
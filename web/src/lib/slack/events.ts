@@ -0,0 +1,52 @@
+export interface SlackMessagePayload {
+  type?: string;
+  subtype?: string;
+  user?: string;
+  text?: string;
+  ts?: string;
+  thread_ts?: string;
+  bot_id?: string;
+  team?: string;
+  edited?: { user?: string; ts?: string };
+}
+
+export interface SlackMessageEvent extends SlackMessagePayload {
+  type: "message";
+  channel?: string;
+  channel_type?: string;
+  event_ts?: string;
+  message?: SlackMessagePayload;
+  previous_message?: SlackMessagePayload;
+  deleted_ts?: string;
+}
+
+export interface SlackTokensRevokedEvent {
+  type: "tokens_revoked";
+  tokens?: { oauth?: string[]; bot?: string[] };
+}
+
+export interface SlackUrlVerificationPayload {
+  type: "url_verification";
+  challenge: string;
+}
+
+export interface SlackEventCallbackPayload {
+  type: "event_callback";
+  event_id: string;
+  event_time?: number;
+  team_id?: string;
+  event: SlackMessageEvent | SlackTokensRevokedEvent | { type: string };
+}
+
+export type SlackEventsPayload =
+  | SlackUrlVerificationPayload
+  | SlackEventCallbackPayload
+  | { type: string };
+
+export const isSlackMessageEvent = (
+  event: SlackEventCallbackPayload["event"],
+): event is SlackMessageEvent => event.type === "message";
+
+export const isSlackTokensRevokedEvent = (
+  event: SlackEventCallbackPayload["event"],
+): event is SlackTokensRevokedEvent => event.type === "tokens_revoked";
@@ -0,0 +1,133 @@
+import type { Task } from "@/types";
+import type { TaskBulkAction } from "@/validation";
+import {
+  canTransitionTaskStatus,
+  resolveDoneDateForStatus,
+  statusRequiresReason,
+} from "@/lib/task-status";
+
+export const TASK_BULK_ACTION_LABELS: Record<TaskBulkAction["type"], string> = {
+  status: "状態を変更",
+  priority: "優先度を変更",
+  assignee: "担当者を変更",
+  dueDate: "期限を変更",
+  addTags: "タグを追加",
+  removeTags: "タグを外す",
+  moveSheet: "シートを移動",
+};
+
+export type TaskBulkChange =
+  | {
+      ok: true;
+      task: Task;
+      // 履歴に残す変更内容。空なら変更なし
+      changes: string[];
+      targetSheetTitle?: string;
+    }
+  | { ok: false; error: string };
+
+/**
+ * 一括操作を 1 件のタスクに当てはめる。状態遷移の検証は個別更新と同じ表を使う。
+ */
+export const applyTaskBulkAction = (
+  task: Task,
+  action: TaskBulkAction,
+): TaskBulkChange => {
+  switch (action.type) {
+    case "status": {
+      if (action.status === task.status) {
+        return { ok: true, task, changes: [] };
+      }
+      if (!canTransitionTaskStatus(task.status, action.status)) {
+        return {
+          ok: false,
+          error: `${task.status} から ${action.status} には変更できません`,
+        };
+      }
+      if (statusRequiresReason(action.status) && !action.reason) {
+        return {
+          ok: false,
+          error: `${action.status} にするには理由を入力してください`,
+        };
+      }
+      const reason = action.reason ? `（理由: ${action.reason}）` : "";
+      return {
+        ok: true,
+        task: {
+          ...task,
+          status: action.status,
+          doneDate: resolveDoneDateForStatus(action.status, task.doneDate),
+        },
+        changes: [`状態を ${task.status} から ${action.status} に変更${reason}`],
+      };
+    }
+    case "priority":
+      return action.priority === task.priority
+        ? { ok: true, task, changes: [] }
+        : {
+            ok: true,
+            task: { ...task, priority: action.priority },
+            changes: [
+              `優先度を ${task.priority} から ${action.priority} に変更`,
+            ],
+          };
+    case "assignee":
+      return action.assigneeName === task.assigneeName
+        ? { ok: true, task, changes: [] }
+        : {
+            ok: true,
+            task: { ...task, assigneeName: action.assigneeName },
+            changes: [
+              `担当者を ${task.assigneeName || "未設定"} から ${action.assigneeName} に変更`,
+            ],
+          };
+    case "dueDate": {
+      const dueDate = action.dueDate || undefined;
+      return (dueDate ?? "") === (task.dueDate ?? "")
+        ? { ok: true, task, changes: [] }
+        : {
+            ok: true,
+            task: { ...task, dueDate },
+            changes: [
+              `期限を ${task.dueDate ?? "未設定"} から ${dueDate ?? "未設定"} に変更`,
+            ],
+          };
+    }
+    case "addTags": {
+      const current = task.tags ?? [];
+      const added = action.tags.filter((tag) => !current.includes(tag));
+      return added.length === 0
+        ? { ok: true, task, changes: [] }
+        : {
+            ok: true,
+            task: { ...task, tags: [...current, ...added] },
+            changes: [`タグ ${added.join(", ")} を追加`],
+          };
+    }
+    case "removeTags": {
+      const current = task.tags ?? [];
+      const removed = current.filter((tag) => action.tags.includes(tag));
+      return removed.length === 0
+        ? { ok: true, task, changes: [] }
+        : {
+            ok: true,
+            task: {
+              ...task,
+              tags: current.filter((tag) => !action.tags.includes(tag)),
+            },
+            changes: [`タグ ${removed.join(", ")} を削除`],
+          };
+    }
+    case "moveSheet":
+      return action.sheetTitle === task.sheetTitle
+        ? { ok: true, task, changes: [] }
+        : {
+            ok: true,
+            task,
+            targetSheetTitle: action.sheetTitle,
+            changes: [
+              `シートを ${task.sheetTitle ?? "未設定"} から ${action.sheetTitle} に移動`,
+            ],
+          };
+  }
+};
@@ -0,0 +1,33 @@
+import type { TaskChecklistItem } from "@/types";
+
+export const TASK_CHECKLIST_MAX_ITEMS = 50;
+
+export interface TaskChecklistProgress {
+  done: number;
+  total: number;
+}
+
+export const sortChecklistItems = (
+  items: TaskChecklistItem[],
+): TaskChecklistItem[] =>
+  items
+    .slice()
+    .sort(
+      (a, b) => a.position - b.position || a.updatedAt.localeCompare(b.updatedAt),
+    );
+
+// チェックリストがないタスクは null（一覧やガントでは何も表示しない）
+export const summarizeChecklist = (
+  items: TaskChecklistItem[] | undefined,
+): TaskChecklistProgress | null => {
+  if (!items || items.length === 0) {
+    return null;
+  }
+  return {
+    done: items.filter((item) => item.done).length,
+    total: items.length,
+  };
+};
+
+export const formatChecklistProgress = (progress: TaskChecklistProgress) =>
+  `${progress.done}/${progress.total}`;
@@ -0,0 +1,97 @@
+import { DEPARTMENT_OF_USER } from "@/config/departments";
+import type { TaskComment, TaskHistoryEvent } from "@/types";
+
+export const TASK_COMMENT_MAX_LENGTH = 4000;
+
+const MENTION_PATTERN = /(^|[^a-z0-9@._-])@([a-z0-9][a-z0-9-]*)/gi;
+
+// 本文中の @userSlug のうち、名簿（DEPARTMENT_OF_USER）にいるメンバーだけを返す
+export const extractMentionedSlugs = (body: string): string[] => {
+  const slugs = new Set<string>();
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    const slug = match[2].toLowerCase();
+    if (DEPARTMENT_OF_USER[slug]) {
+      slugs.add(slug);
+    }
+  }
+  return Array.from(slugs);
+};
+
+interface CommentRevisionDetails {
+  commentId: string;
+  body?: string;
+}
+
+// comment_edit / comment_delete の details は対象コメントIDを含むJSONで保存する
+export const serializeCommentRevision = (
+  details: CommentRevisionDetails,
+): string => JSON.stringify(details);
+
+const parseCommentRevision = (
+  details: string,
+): CommentRevisionDetails | null => {
+  try {
+    const parsed = JSON.parse(details) as Partial<CommentRevisionDetails>;
+    return typeof parsed.commentId === "string"
+      ? { commentId: parsed.commentId, body: parsed.body }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * 履歴イベントからコメントスレッドを組み立てる。
+ * 編集・削除は元の投稿者によるものだけを反映し、削除済みのコメントは本文を空にして残す。
+ */
+export const buildTaskComments = (
+  history: TaskHistoryEvent[],
+): TaskComment[] => {
+  const comments = new Map<string, TaskComment>();
+
+  history.forEach((event) => {
+    if (event.type === "comment") {
+      comments.set(event.id, {
+        id: event.id,
+        taskId: event.taskId,
+        authorId: event.actorId,
+        authorName: event.actorName,
+        body: event.details,
+        createdAt: event.happenedAt,
+      });
+      return;
+    }
+
+    if (event.type !== "comment_edit" && event.type !== "comment_delete") {
+      return;
+    }
+    const revision = parseCommentRevision(event.details);
+    const target = revision ? comments.get(revision.commentId) : undefined;
+    if (!revision || !target || target.authorId !== event.actorId) {
+      return;
+    }
+    if (target.deletedAt) {
+      return;
+    }
+    if (event.type === "comment_delete") {
+      target.body = "";
+      target.deletedAt = event.happenedAt;
+    } else {
+      target.body = revision.body ?? target.body;
+      target.editedAt = event.happenedAt;
+    }
+  });
+
+  return Array.from(comments.values());
+};
+
+export const describeTaskHistoryEvent = (event: TaskHistoryEvent): string => {
+  switch (event.type) {
+    case "comment_edit":
+      return "コメントを編集しました。";
+    case "comment_delete":
+      return "コメントを削除しました。";
+    default:
+      return event.details;
+  }
+};
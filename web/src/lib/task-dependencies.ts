@@ -0,0 +1,114 @@
+import type { Task } from "@/types";
+
+type DependencyNode = Pick<Task, "taskId" | "dependsOn">;
+
+// 重複と自分自身を取り除いた依存タスクIDの一覧
+export const normalizeDependsOn = (
+  taskId: string,
+  dependsOn: string[] | undefined,
+): string[] =>
+  Array.from(
+    new Set(
+      (dependsOn ?? [])
+        .map((dependency) => dependency.trim())
+        .filter((dependency) => dependency && dependency !== taskId),
+    ),
+  );
+
+/**
+ * taskId の依存先を dependsOn に置き換えたときに循環が生じるかを調べる。
+ * 循環があればその経路（例: [A, B, C, A]）を、なければ null を返す。
+ */
+export const findDependencyCycle = (
+  tasks: DependencyNode[],
+  taskId: string,
+  dependsOn: string[],
+): string[] | null => {
+  const graph = new Map<string, string[]>();
+  tasks.forEach((task) => graph.set(task.taskId, task.dependsOn ?? []));
+  graph.set(taskId, dependsOn);
+
+  const visited = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (current: string): string[] | null => {
+    if (current === taskId && path.length > 0) {
+      return [...path, current];
+    }
+    if (visited.has(current)) {
+      return null;
+    }
+    visited.add(current);
+    path.push(current);
+    for (const next of graph.get(current) ?? []) {
+      const cycle = visit(next);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    return null;
+  };
+
+  return visit(taskId);
+};
+
+// 完了・棄却した依存先は待つ必要がない。棄却は完了とは別に getRejectedDependencies で示す
+const RESOLVED_STATUSES = new Set<Task["status"]>(["完了", "棄却"]);
+
+// 完了も棄却もしていない依存先のタスク（依存先が見つからないIDは無視する）
+export const getBlockingTasks = <T extends Pick<Task, "status">>(
+  task: Pick<Task, "dependsOn">,
+  tasksById: Map<string, T>,
+): T[] =>
+  (task.dependsOn ?? [])
+    .map((dependency) => tasksById.get(dependency))
+    .filter(
+      (dependency): dependency is T =>
+        dependency !== undefined && !RESOLVED_STATUSES.has(dependency.status),
+    );
+
+// 棄却された依存先。ブロックはしないが、完了したと誤解されないよう画面で別に示す
+export const getRejectedDependencies = <T extends Pick<Task, "status">>(
+  task: Pick<Task, "dependsOn">,
+  tasksById: Map<string, T>,
+): T[] =>
+  (task.dependsOn ?? [])
+    .map((dependency) => tasksById.get(dependency))
+    .filter(
+      (dependency): dependency is T =>
+        dependency !== undefined && dependency.status === "棄却",
+    );
+
+export const indexTasksById = (tasks: Task[]): Map<string, Task> =>
+  new Map(tasks.map((task) => [task.taskId, task]));
+
+type DependsOnValidation =
+  | { ok: true; dependsOn: string[] }
+  | { ok: false; error: string };
+
+// 保存前の検証: 存在しないタスクへの依存と、循環する依存を拒否する
+export const validateDependsOn = (
+  tasks: Task[],
+  taskId: string,
+  dependsOn: string[] | undefined,
+): DependsOnValidation => {
+  const normalized = normalizeDependsOn(taskId, dependsOn);
+  const tasksById = indexTasksById(tasks);
+  const unknown = normalized.filter((dependency) => !tasksById.has(dependency));
+  if (unknown.length > 0) {
+    return {
+      ok: false,
+      error: `依存タスクが見つかりません: ${unknown.join(", ")}`,
+    };
+  }
+
+  const cycle = findDependencyCycle(tasks, taskId, normalized);
+  if (cycle) {
+    const titles = cycle.map((id) => tasksById.get(id)?.title || id);
+    return {
+      ok: false,
+      error: `依存関係が循環しています: ${titles.join(" → ")}`,
+    };
+  }
+
+  return { ok: true, dependsOn: normalized };
+};
@@ -0,0 +1,52 @@
+import { resolveAssigneeSlug } from "@/config/departments";
+import { hasRole } from "@/lib/roles";
+import type { Task, UserRole } from "@/types";
+
+// タスクの編集可否を判定するための閲覧者の情報（サーバーで組み立て、画面にも渡す）
+export interface TaskEditor {
+  role: UserRole;
+  userSlug: string;
+  userName: string;
+  // 履歴の actorId と照合する値（userSlug / セッションID / メール / SlackユーザーID）
+  actorIds: string[];
+}
+
+export const TASK_EDIT_FORBIDDEN_MESSAGE =
+  "このタスクを編集できるのは担当者・作成者・管理者のみです";
+
+// 最初の履歴の操作者を作成者とみなす（シートに直接追加したタスクは作成者なし）
+export const getTaskCreatorId = (task: Pick<Task, "history">): string | null =>
+  task.history[0]?.actorId || null;
+
+const isTaskAssignee = (editor: TaskEditor, assigneeName: string): boolean => {
+  const name = assigneeName.trim();
+  if (!name) {
+    return false;
+  }
+  return (
+    name === editor.userName ||
+    editor.actorIds.includes(name) ||
+    resolveAssigneeSlug(name) === editor.userSlug
+  );
+};
+
+// 管理者と、担当者・作成者のメンバーだけがタスクを編集できる
+export const canEditTask = (
+  editor: TaskEditor | null | undefined,
+  task: Pick<Task, "assigneeName" | "history">,
+): boolean => {
+  if (!editor) {
+    return false;
+  }
+  if (editor.role === "admin") {
+    return true;
+  }
+  if (!hasRole(editor.role, "member")) {
+    return false;
+  }
+  const creatorId = getTaskCreatorId(task);
+  return (
+    isTaskAssignee(editor, task.assigneeName) ||
+    (creatorId !== null && editor.actorIds.includes(creatorId))
+  );
+};
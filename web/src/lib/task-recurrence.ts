@@ -0,0 +1,161 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  format,
+  getDaysInMonth,
+  parseISO,
+} from "date-fns";
+import type { Task, TaskRecurrence } from "@/types";
+
+export const WEEKDAY_LABELS = ["日", "月", "火", "水", "木", "金", "土"];
+
+export const TASK_RECURRENCE_TYPE_LABELS: Record<TaskRecurrence["type"], string> =
+  {
+    daily: "毎日",
+    weekly: "毎週（曜日指定）",
+    monthly: "毎月（日付指定）",
+    afterCompletion: "完了からN日後",
+  };
+
+const toInteger = (value: string) =>
+  /^\d+$/.test(value.trim()) ? Number(value.trim()) : null;
+
+/**
+ * シートのP列の値を繰り返しルールに変換する。解釈できない値は繰り返しなしとして扱う。
+ */
+export const parseTaskRecurrence = (
+  value?: string | null,
+): TaskRecurrence | undefined => {
+  const [kind = "", argument = ""] = (value ?? "")
+    .trim()
+    .toLowerCase()
+    .split(":");
+  if (kind === "daily") {
+    return { type: "daily" };
+  }
+  if (kind === "weekly") {
+    const weekdays = Array.from(
+      new Set(
+        argument
+          .split(",")
+          .map(toInteger)
+          .filter((day): day is number => day !== null && day <= 6),
+      ),
+    ).sort((left, right) => left - right);
+    return weekdays.length > 0 ? { type: "weekly", weekdays } : undefined;
+  }
+  if (kind === "monthly") {
+    const day = toInteger(argument);
+    return day !== null && day >= 1 && day <= 31
+      ? { type: "monthly", day }
+      : undefined;
+  }
+  if (kind === "after") {
+    const days = toInteger(argument);
+    return days !== null && days >= 1
+      ? { type: "afterCompletion", days }
+      : undefined;
+  }
+  return undefined;
+};
+
+export const formatTaskRecurrence = (recurrence?: TaskRecurrence): string => {
+  if (!recurrence) return "";
+  switch (recurrence.type) {
+    case "daily":
+      return "daily";
+    case "weekly":
+      return `weekly:${recurrence.weekdays.join(",")}`;
+    case "monthly":
+      return `monthly:${recurrence.day}`;
+    case "afterCompletion":
+      return `after:${recurrence.days}`;
+  }
+};
+
+export const describeTaskRecurrence = (recurrence: TaskRecurrence): string => {
+  switch (recurrence.type) {
+    case "daily":
+      return "毎日";
+    case "weekly":
+      return `毎週 ${recurrence.weekdays.map((day) => WEEKDAY_LABELS[day]).join("・")}`;
+    case "monthly":
+      return `毎月 ${recurrence.day}日`;
+    case "afterCompletion":
+      return `完了の${recurrence.days}日後`;
+  }
+};
+
+// 完了を待たず、日付が来たら次回分を作れる（スケジュール型の）ルールか
+export const isScheduledRecurrence = (recurrence: TaskRecurrence): boolean =>
+  recurrence.type !== "afterCompletion";
+
+const toDate = (value: string) => parseISO(value.slice(0, 10));
+const toDateString = (value: Date) => format(value, "yyyy-MM-dd");
+
+// 月末を超える日付（31日など）はその月の末日にそろえる
+const monthlyDateIn = (base: Date, day: number) =>
+  new Date(
+    base.getFullYear(),
+    base.getMonth(),
+    Math.min(day, getDaysInMonth(base)),
+  );
+
+const nextScheduledDate = (
+  recurrence: Exclude<TaskRecurrence, { type: "afterCompletion" }>,
+  after: Date,
+): Date => {
+  switch (recurrence.type) {
+    case "daily":
+      return addDays(after, 1);
+    case "weekly": {
+      for (let offset = 1; offset <= 7; offset += 1) {
+        const candidate = addDays(after, offset);
+        if (recurrence.weekdays.includes(candidate.getDay())) {
+          return candidate;
+        }
+      }
+      return addDays(after, 7);
+    }
+    case "monthly": {
+      const sameMonth = monthlyDateIn(after, recurrence.day);
+      return sameMonth > after
+        ? sameMonth
+        : monthlyDateIn(addMonths(after, 1), recurrence.day);
+    }
+  }
+};
+
+/**
+ * 次回分の開始日・期限を求める。
+ * 基準日（期限 → 開始日 → 完了日の順）を次の発生日へ動かし、開始日と期限は同じ日数だけずらす。
+ */
+export const computeNextOccurrenceDates = (
+  task: Pick<Task, "recurrence" | "startDate" | "dueDate">,
+  completedOn: string,
+): Pick<Task, "startDate" | "dueDate"> | null => {
+  const { recurrence } = task;
+  if (!recurrence) {
+    return null;
+  }
+
+  const anchor = task.dueDate ?? task.startDate;
+  const anchorDate = toDate(anchor ?? completedOn);
+  const nextAnchor =
+    recurrence.type === "afterCompletion"
+      ? addDays(toDate(completedOn), recurrence.days)
+      : nextScheduledDate(recurrence, anchorDate);
+
+  if (!anchor) {
+    return { dueDate: toDateString(nextAnchor) };
+  }
+
+  const shift = differenceInCalendarDays(nextAnchor, anchorDate);
+  const shiftDate = (value?: string) =>
+    value ? toDateString(addDays(toDate(value), shift)) : undefined;
+  return {
+    startDate: shiftDate(task.startDate),
+    dueDate: shiftDate(task.dueDate),
+  };
+};
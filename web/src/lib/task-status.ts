@@ -0,0 +1,66 @@
+import { formatInTimeZone } from "date-fns-tz";
+import { DEFAULT_TIMEZONE } from "@/config/constants";
+import type { TaskStatus } from "@/types";
+
+interface TaskStatusRule {
+  next: TaskStatus[];
+  // 遷移先になったときの終了日の扱い
+  doneDate: "set" | "clear" | "keep";
+  // 遷移先にするときに理由の入力を求めるか
+  requiresReason: boolean;
+}
+
+/**
+ * 状態遷移表（仕様: 未着手 → 進行中 → レビュー待ち → 完了、例外として 未着手 ↔ 保留、どこからでも 棄却）。
+ * API と画面の両方がこの表を参照する。
+ */
+export const TASK_STATUS_RULES: Record<TaskStatus, TaskStatusRule> = {
+  未着手: {
+    next: ["進行中", "保留", "棄却"],
+    doneDate: "clear",
+    requiresReason: false,
+  },
+  進行中: {
+    next: ["レビュー待ち", "棄却"],
+    doneDate: "clear",
+    requiresReason: false,
+  },
+  レビュー待ち: {
+    next: ["完了", "棄却"],
+    doneDate: "clear",
+    requiresReason: false,
+  },
+  完了: { next: ["棄却"], doneDate: "set", requiresReason: false },
+  保留: { next: ["未着手", "棄却"], doneDate: "clear", requiresReason: true },
+  棄却: { next: [], doneDate: "keep", requiresReason: true },
+};
+
+export const getAllowedNextStatuses = (from: TaskStatus): TaskStatus[] =>
+  TASK_STATUS_RULES[from].next;
+
+export const canTransitionTaskStatus = (
+  from: TaskStatus,
+  to: TaskStatus,
+): boolean => from === to || TASK_STATUS_RULES[from].next.includes(to);
+
+export const statusRequiresReason = (to: TaskStatus): boolean =>
+  TASK_STATUS_RULES[to].requiresReason;
+
+/**
+ * 遷移後の終了日を決める。完了にしたときは未入力なら今日を入れ、
+ * 完了以外に戻したときは消す。棄却は入力値をそのまま残す。
+ */
+export const resolveDoneDateForStatus = (
+  to: TaskStatus,
+  doneDate: string | undefined,
+  now: Date = new Date(),
+): string | undefined => {
+  switch (TASK_STATUS_RULES[to].doneDate) {
+    case "set":
+      return doneDate || formatInTimeZone(now, DEFAULT_TIMEZONE, "yyyy-MM-dd");
+    case "clear":
+      return undefined;
+    default:
+      return doneDate;
+  }
+};
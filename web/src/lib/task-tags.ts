@@ -0,0 +1,10 @@
+// シートのL列から読んだタグと、画面・APIから受け取ったタグを同じ表記にそろえる
+export const normalizeTaskTag = (tag: string): string =>
+  tag
+    .replace(/^#/, "")
+    .normalize("NFKC")
+    .replace(/\u200B/g, "")
+    .replace(/\+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
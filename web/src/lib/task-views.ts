@@ -0,0 +1,38 @@
+import type { SavedTaskView, TaskViewDisplayMode } from "@/types";
+
+export const TASKS_PATH = "/tasks";
+
+// 表示中のページ位置と表示モードはビューの条件に含めない
+const NON_FILTER_PARAMS = new Set(["cursor", "display"]);
+
+/**
+ * 検索条件を比較・保存できる形にそろえる（空の値と cursor / display を除き、キー順に並べる）。
+ */
+export const normalizeTaskViewQuery = (
+  search: string | URLSearchParams,
+): string => {
+  const params = new URLSearchParams(search);
+  const entries = Array.from(params.entries())
+    .filter(([key, value]) => !NON_FILTER_PARAMS.has(key) && value.trim())
+    .sort(([left], [right]) => left.localeCompare(right));
+  return new URLSearchParams(entries).toString();
+};
+
+export const parseTaskViewDisplayMode = (value: unknown): TaskViewDisplayMode =>
+  value === "gantt" ? "gantt" : "table";
+
+/**
+ * /tasks へのリンク。display を必ず付け、条件なしのURL（既定ビューへの振り分け対象）と区別する。
+ */
+export const buildTasksHref = (
+  query: string,
+  displayMode: TaskViewDisplayMode,
+): string => {
+  const params = new URLSearchParams(normalizeTaskViewQuery(query));
+  params.set("display", displayMode);
+  return `${TASKS_PATH}?${params.toString()}`;
+};
+
+export const buildTaskViewHref = (
+  view: Pick<SavedTaskView, "query" | "displayMode">,
+): string => buildTasksHref(view.query, view.displayMode);
@@ -1,6 +1,11 @@
 import { formatInTimeZone, toZonedTime, fromZonedTime } from "date-fns-tz";
 import { startOfWeek, formatISO, parseISO, addDays } from "date-fns";
-import { DEFAULT_TIMEZONE, START_OF_WEEK } from "@/config/constants";
+import {
+  DEFAULT_TIMEZONE,
+  DR_BACKFILL_DEFAULT_WINDOW_DAYS,
+  START_OF_WEEK,
+} from "@/config/constants";
+import { isHoliday } from "@/config/holidays";
 import type { DailyReport } from "@/types";
 
 export const toTimezone = (date: Date | string, tz = DEFAULT_TIMEZONE) => {
@@ -24,6 +29,30 @@ export const getWeekStart = (
   return formatISO(weekStart, { representation: "date" });
 };
 
+// 週の開始日（月曜）から7日分の日付（YYYY-MM-DD）
+export const getWeekDates = (weekStart: string): string[] =>
+  Array.from({ length: 7 }, (_, index) =>
+    formatISO(addDays(parseISO(weekStart), index), { representation: "date" }),
+  );
+
+export const shiftWeekStart = (weekStart: string, weeks: number): string =>
+  formatISO(addDays(parseISO(weekStart), weeks * 7), {
+    representation: "date",
+  });
+
+// 土日と HOLIDAYS に登録した休日を飛ばした翌営業日
+export const getNextWorkingDate = (dateISO: string): string => {
+  let next = addDays(parseISO(dateISO), 1);
+  while (
+    next.getDay() === 0 ||
+    next.getDay() === 6 ||
+    isHoliday(formatISO(next, { representation: "date" }))
+  ) {
+    next = addDays(next, 1);
+  }
+  return formatISO(next, { representation: "date" });
+};
+
 export const getWeekdayCode = (
   date: Date | string,
   tz = DEFAULT_TIMEZONE,
@@ -80,3 +109,34 @@ export const reportDateBy29hRule = (
   const dateISO = formatInTimeZone(target, tz, "yyyy-MM-dd");
   return { dateISO, isPreviousDay };
 };
+
+// 29時ルール上の「今日」から windowDays（DR_BACKFILL_WINDOW_DAYS）日前までが提出可能な範囲
+export const getDailyReportDateRange = (
+  now = new Date(),
+  tz = DEFAULT_TIMEZONE,
+  windowDays = DR_BACKFILL_DEFAULT_WINDOW_DAYS,
+): {
+  minDateISO: string;
+  maxDateISO: string;
+} => {
+  const { dateISO } = reportDateBy29hRule(now, tz);
+  const minDateISO = formatISO(addDays(parseISO(dateISO), -windowDays), {
+    representation: "date",
+  });
+  return { minDateISO, maxDateISO: dateISO };
+};
+
+// 作成時点の「今日」より前の日付で登録された日報（後追い提出）かどうか
+export const isBackfilledDailyReport = (
+  report: Pick<DailyReport, "date" | "createdAt">,
+  tz = DEFAULT_TIMEZONE,
+): boolean => {
+  if (!report.createdAt) {
+    return false;
+  }
+  const createdAt = parseISO(report.createdAt);
+  if (Number.isNaN(createdAt.getTime())) {
+    return false;
+  }
+  return reportDateBy29hRule(createdAt, tz).dateISO > report.date;
+};
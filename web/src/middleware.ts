@@ -6,5 +6,6 @@ export const config = {
     "/daily-reports/:path*",
     "/tasks/:path*",
     "/settings",
+    "/audit-log",
   ],
 };
@@ -0,0 +1,210 @@
+import "server-only";
+
+import { randomUUID } from "node:crypto";
+import type {
+  AuditAction,
+  AuditEntityType,
+  AuditLogEntry,
+  AuditSource,
+} from "@/types";
+import {
+  appendAuditLogEntries,
+  listAuditLogEntries,
+} from "@/lib/sheets/audit-log";
+import type { SessionUserIdentity } from "@/server/session-user";
+
+export interface AuditActor {
+  actorId: string;
+  actorName: string;
+  actorRole: string;
+}
+
+export interface AuditRequestContext {
+  source: AuditSource;
+  ip: string;
+  userAgent: string;
+}
+
+export interface RecordAuditLogInput {
+  actor: AuditActor;
+  context: AuditRequestContext;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before: object | null;
+  after: object | null;
+}
+
+export interface AuditLogFilters {
+  action?: string;
+  entityType?: string;
+  actor?: string;
+  entityId?: string;
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+}
+
+// 差分に含めない項目（毎回変わる・別途履歴がある）
+const IGNORED_DIFF_KEYS = new Set(["updatedAt", "history"]);
+
+const stringifyValue = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(stringifyValue).join(", ");
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+export const auditActorFromIdentity = (
+  identity: SessionUserIdentity,
+): AuditActor => ({
+  actorId: identity.slackUserId || identity.email || identity.userSlug,
+  actorName: identity.userName,
+  actorRole: identity.role,
+});
+
+export const getAuditRequestContext = (
+  request: Request,
+): AuditRequestContext => {
+  const forwardedFor = request.headers.get("x-forwarded-for") ?? "";
+  const ip =
+    forwardedFor.split(",")[0]?.trim() ||
+    request.headers.get("x-real-ip")?.trim() ||
+    "";
+  return {
+    source: "web",
+    ip,
+    userAgent: request.headers.get("user-agent") ?? "",
+  };
+};
+
+export const buildAuditDiff = (
+  before: object | null,
+  after: object | null,
+): AuditLogEntry["diff"] => {
+  const beforeRecord = (before ?? {}) as Record<string, unknown>;
+  const afterRecord = (after ?? {}) as Record<string, unknown>;
+  const keys = new Set([
+    ...Object.keys(beforeRecord),
+    ...Object.keys(afterRecord),
+  ]);
+
+  const diff: AuditLogEntry["diff"] = {};
+  keys.forEach((key) => {
+    if (IGNORED_DIFF_KEYS.has(key)) return;
+    const beforeValue = stringifyValue(beforeRecord[key]);
+    const afterValue = stringifyValue(afterRecord[key]);
+    if (beforeValue !== afterValue) {
+      diff[key] = { before: beforeValue, after: afterValue };
+    }
+  });
+  return diff;
+};
+
+const toAuditLogEntry = (input: RecordAuditLogInput): AuditLogEntry => ({
+  id: `audit_${Date.now()}_${randomUUID().slice(0, 8)}`,
+  happenedAt: new Date().toISOString(),
+  ...input.actor,
+  action: input.action,
+  entityType: input.entityType,
+  entityId: input.entityId,
+  diff: buildAuditDiff(input.before, input.after),
+  ...input.context,
+});
+
+/**
+ * 監査ログの書き込み失敗で本処理を失敗させないよう、例外はログに留める。
+ * 一括操作では複数件を 1 回の追記にまとめる。
+ */
+export const recordAuditLogs = async (
+  inputs: RecordAuditLogInput[],
+): Promise<void> => {
+  if (inputs.length === 0) {
+    return;
+  }
+  const entries = inputs.map(toAuditLogEntry);
+
+  try {
+    await appendAuditLogEntries(entries);
+  } catch (error) {
+    console.error("audit_log.record.error", {
+      action: entries[0].action,
+      entityIds: entries.map((entry) => entry.entityId),
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+export const recordAuditLog = async (
+  input: RecordAuditLogInput,
+): Promise<void> => recordAuditLogs([input]);
+
+export const listAuditLog = async (
+  filters: AuditLogFilters = {},
+): Promise<AuditLogEntry[]> => {
+  const entries = await listAuditLogEntries();
+  const actorQuery = filters.actor?.trim().toLowerCase() ?? "";
+  const entityQuery = filters.entityId?.trim() ?? "";
+
+  return entries
+    .filter((entry) => {
+      if (filters.action && entry.action !== filters.action) return false;
+      if (filters.entityType && entry.entityType !== filters.entityType) {
+        return false;
+      }
+      if (
+        actorQuery &&
+        !entry.actorName.toLowerCase().includes(actorQuery) &&
+        !entry.actorId.toLowerCase().includes(actorQuery)
+      ) {
+        return false;
+      }
+      if (entityQuery && !entry.entityId.includes(entityQuery)) return false;
+      const day = entry.happenedAt.slice(0, 10);
+      if (filters.from && day < filters.from) return false;
+      if (filters.to && day > filters.to) return false;
+      return true;
+    })
+    .sort((a, b) => b.happenedAt.localeCompare(a.happenedAt));
+};
+
+// 表計算ソフトで式として評価されないよう、先頭が記号のセルはエスケープする
+const escapeCsvCell = (raw: string): string => {
+  const value = /^[=+\-@]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toAuditLogCsv = (entries: AuditLogEntry[]): string => {
+  const header = [
+    "id",
+    "happenedAt",
+    "actorId",
+    "actorName",
+    "actorRole",
+    "action",
+    "entityType",
+    "entityId",
+    "diff",
+    "source",
+    "ip",
+    "userAgent",
+  ];
+  const rows = entries.map((entry) =>
+    [
+      entry.id,
+      entry.happenedAt,
+      entry.actorId,
+      entry.actorName,
+      entry.actorRole,
+      entry.action,
+      entry.entityType,
+      entry.entityId,
+      JSON.stringify(entry.diff),
+      entry.source,
+      entry.ip,
+      entry.userAgent,
+    ]
+      .map(escapeCsvCell)
+      .join(","),
+  );
+  return [header.join(","), ...rows].join("\r\n");
+};
@@ -1,6 +1,8 @@
 import NextAuth from "next-auth";
 import Slack from "next-auth/providers/slack";
 import { env } from "@/config/env";
+import type { UserRole } from "@/types";
+import { resolveSessionUser } from "@/server/session-user";
 
 declare module "next-auth" {
   interface Session {
@@ -11,6 +13,8 @@ declare module "next-auth" {
       image?: string | null;
       slackUserId?: string | null;
       slackTeamId?: string | null;
+      userSlug?: string;
+      role?: UserRole;
     };
   }
 }
@@ -52,6 +56,10 @@ export const { auth, handlers, signIn, signOut } = NextAuth({
         session.user.slackTeamId = token.slackTeamId as string;
       }
 
+      const identity = resolveSessionUser(session.user);
+      session.user.userSlug = identity.userSlug;
+      session.user.role = identity.role;
+
       return session;
     },
     async jwt({ token, profile }) {
@@ -0,0 +1,46 @@
+import "server-only";
+
+import { NextResponse } from "next/server";
+import type { Session } from "next-auth";
+import { hasRole } from "@/lib/roles";
+import type { UserRole } from "@/types";
+import { auth } from "@/server/auth";
+import {
+  resolveSessionUser,
+  type SessionUserIdentity,
+} from "@/server/session-user";
+
+export type AuthorizationResult =
+  | { ok: true; session: Session; identity: SessionUserIdentity }
+  | { ok: false; response: NextResponse };
+
+// 更新系APIの共通ガード。未ログインは401、ロール不足は403を返す
+export const requireRole = async (
+  required: UserRole,
+): Promise<AuthorizationResult> => {
+  const session = await auth();
+  if (!session?.user) {
+    return {
+      ok: false,
+      response: NextResponse.json({ error: "Unauthorized" }, { status: 401 }),
+    };
+  }
+
+  const identity = resolveSessionUser(session.user);
+  if (!hasRole(identity.role, required)) {
+    console.warn("auth.guard.forbidden", {
+      userSlug: identity.userSlug,
+      role: identity.role,
+      required,
+    });
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { error: "この操作を行う権限がありません" },
+        { status: 403 },
+      ),
+    };
+  }
+
+  return { ok: true, session, identity };
+};
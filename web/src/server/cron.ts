@@ -0,0 +1,36 @@
+import "server-only";
+
+import { timingSafeEqual } from "node:crypto";
+import { NextResponse } from "next/server";
+import { env } from "@/config/env";
+
+const safeEqual = (left: string, right: string): boolean => {
+  const leftBuffer = Buffer.from(left);
+  const rightBuffer = Buffer.from(right);
+  return (
+    leftBuffer.length === rightBuffer.length &&
+    timingSafeEqual(leftBuffer, rightBuffer)
+  );
+};
+
+/**
+ * 定期実行ルートの認証。`Authorization: Bearer <CRON_SECRET>` が一致しなければエラーレスポンスを返す。
+ */
+export const authorizeCronRequest = (request: Request): NextResponse | null => {
+  const secret = env.server.CRON_SECRET?.trim();
+  if (!secret) {
+    console.error("cron.auth.secret_missing");
+    return NextResponse.json(
+      { error: "CRON_SECRET is not configured" },
+      { status: 503 },
+    );
+  }
+
+  const header = request.headers.get("authorization") ?? "";
+  const token = header.replace(/^Bearer\s+/i, "").trim();
+  if (!token || !safeEqual(token, secret)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return null;
+};
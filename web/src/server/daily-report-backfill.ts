@@ -0,0 +1,12 @@
+import "server-only";
+
+import { DR_BACKFILL_DEFAULT_WINDOW_DAYS } from "@/config/constants";
+import { env } from "@/config/env";
+
+// 日報をさかのぼって提出できる日数。DR_BACKFILL_WINDOW_DAYS が未設定なら既定の7日
+export const getDailyReportBackfillWindowDays = (): number => {
+  const configured = env.server.DR_BACKFILL_WINDOW_DAYS?.trim();
+  return configured
+    ? Number.parseInt(configured, 10)
+    : DR_BACKFILL_DEFAULT_WINDOW_DAYS;
+};
@@ -0,0 +1,280 @@
+import "server-only";
+
+import { resolveDepartment, resolveUserSlug } from "@/config/departments";
+import { fetchAllDailyReports } from "@/lib/sheets/daily-reports";
+import type {
+  DailyReport,
+  DailyReportSearchField,
+  DailyReportSearchHit,
+  DailyReportSearchResult,
+  SearchSnippetSegment,
+} from "@/types";
+import type { DailyReportSearchQuery } from "@/validation";
+
+export const DAILY_REPORT_SEARCH_FIELDS: DailyReportSearchField[] = [
+  "doneToday",
+  "goodMoreBackground",
+  "moreNext",
+  "todoTomorrow",
+  "wishTomorrow",
+  "personalNews",
+];
+
+const SNIPPET_CONTEXT_LENGTH = 40;
+
+const segmenter = new Intl.Segmenter("ja", { granularity: "grapheme" });
+
+// 全角/半角・大文字/小文字の揺れを吸収する（ｶﾞ → ガ、ＡＢＣ → abc）
+export const normalizeSearchText = (value: string): string =>
+  value.normalize("NFKC").toLowerCase();
+
+export const splitSearchTerms = (query: string): string[] =>
+  Array.from(
+    new Set(
+      normalizeSearchText(query)
+        .split(/\s+/)
+        .map((term) => term.trim())
+        .filter(Boolean),
+    ),
+  );
+
+interface NormalizedText {
+  value: string;
+  // 正規化後の各文字が元の文字列のどこに対応するか
+  starts: number[];
+  ends: number[];
+  boundaries: number[];
+}
+
+// 書記素単位で正規化し、ハイライト位置を元の文字列へ戻せるよう対応表を持つ
+const normalizeWithOffsets = (text: string): NormalizedText => {
+  let value = "";
+  const starts: number[] = [];
+  const ends: number[] = [];
+  const boundaries: number[] = [];
+  for (const { segment, index } of segmenter.segment(text)) {
+    const normalized = normalizeSearchText(segment);
+    boundaries.push(index);
+    for (let i = 0; i < normalized.length; i += 1) {
+      starts.push(index);
+      ends.push(index + segment.length);
+    }
+    value += normalized;
+  }
+  boundaries.push(text.length);
+  return { value, starts, ends, boundaries };
+};
+
+type Range = { start: number; end: number };
+
+const findMatchRanges = (text: NormalizedText, terms: string[]): Range[] => {
+  const ranges: Range[] = [];
+  terms.forEach((term) => {
+    let position = text.value.indexOf(term);
+    while (position !== -1) {
+      ranges.push({
+        start: text.starts[position],
+        end: text.ends[position + term.length - 1],
+      });
+      position = text.value.indexOf(term, position + term.length);
+    }
+  });
+
+  ranges.sort((a, b) => a.start - b.start);
+  return ranges.reduce<Range[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
+};
+
+const snapToBoundary = (
+  boundaries: number[],
+  position: number,
+  direction: "backward" | "forward",
+): number => {
+  if (direction === "backward") {
+    return boundaries.filter((boundary) => boundary <= position).pop() ?? 0;
+  }
+  return (
+    boundaries.find((boundary) => boundary >= position) ??
+    boundaries[boundaries.length - 1]
+  );
+};
+
+const buildSnippet = (
+  original: string,
+  text: NormalizedText,
+  ranges: Range[],
+): SearchSnippetSegment[] => {
+  const first = ranges[0];
+  const windowStart = snapToBoundary(
+    text.boundaries,
+    Math.max(0, first.start - SNIPPET_CONTEXT_LENGTH),
+    "backward",
+  );
+  const windowEnd = snapToBoundary(
+    text.boundaries,
+    Math.min(original.length, first.end + SNIPPET_CONTEXT_LENGTH),
+    "forward",
+  );
+
+  const segments: SearchSnippetSegment[] = [];
+  const push = (value: string, highlight: boolean) => {
+    const collapsed = value.replace(/\s+/g, " ");
+    if (collapsed) {
+      segments.push({ text: collapsed, highlight });
+    }
+  };
+
+  let cursor = windowStart;
+  ranges
+    .filter((range) => range.start < windowEnd && range.end > windowStart)
+    .forEach((range) => {
+      const start = Math.max(range.start, windowStart);
+      const end = Math.min(range.end, windowEnd);
+      push(original.slice(cursor, start), false);
+      push(original.slice(start, end), true);
+      cursor = end;
+    });
+  push(original.slice(cursor, windowEnd), false);
+
+  if (windowStart > 0) {
+    segments.unshift({ text: "…", highlight: false });
+  }
+  if (windowEnd < original.length) {
+    segments.push({ text: "…", highlight: false });
+  }
+  return segments;
+};
+
+const parseSatisfactionScore = (value: string): number | null => {
+  if (!value) return null;
+  const match = value.match(/-?\d+(?:\.\d+)?/);
+  if (!match) return null;
+  const score = Number.parseFloat(match[0]);
+  return Number.isFinite(score) ? score : null;
+};
+
+const matchesFilters = (
+  report: DailyReport,
+  meta: { userSlug: string; department: string },
+  query: DailyReportSearchQuery,
+): boolean => {
+  if (query.user && meta.userSlug !== query.user) {
+    return false;
+  }
+  if (query.department && meta.department !== query.department) {
+    return false;
+  }
+  if (query.from && report.date < query.from) {
+    return false;
+  }
+  if (query.to && report.date > query.to) {
+    return false;
+  }
+  if (query.tag) {
+    const tag = normalizeSearchText(query.tag.replace(/^#/, ""));
+    const matchesTag = report.tags.some((item) =>
+      normalizeSearchText(item).includes(tag),
+    );
+    if (!matchesTag) {
+      return false;
+    }
+  }
+  if (
+    query.satisfactionMin !== undefined ||
+    query.satisfactionMax !== undefined
+  ) {
+    const score = parseSatisfactionScore(report.satisfactionToday);
+    if (score === null) {
+      return false;
+    }
+    if (query.satisfactionMin !== undefined && score < query.satisfactionMin) {
+      return false;
+    }
+    if (query.satisfactionMax !== undefined && score > query.satisfactionMax) {
+      return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * 全期間の日報からキーワード（空白区切りのAND検索）とフィルタで絞り込み、ハイライト付きの抜粋を返す。
+ */
+export const searchDailyReports = async (
+  query: DailyReportSearchQuery,
+): Promise<DailyReportSearchResult> => {
+  const terms = splitSearchTerms(query.q);
+  const reports = await fetchAllDailyReports();
+
+  const hits = reports.flatMap<DailyReportSearchHit>((report) => {
+    const identity = {
+      userSlug: report.userSlug,
+      slackUserId: report.slackUserId,
+      email: report.email,
+    };
+    const meta = {
+      userSlug: resolveUserSlug(identity) ?? report.userSlug,
+      department: resolveDepartment(identity) ?? "Unassigned",
+    };
+    if (!matchesFilters(report, meta, query)) {
+      return [];
+    }
+
+    const matches: DailyReportSearchHit["matches"] = [];
+    if (terms.length > 0) {
+      const normalizedFields = DAILY_REPORT_SEARCH_FIELDS.map((field) => ({
+        field,
+        original: report[field] ?? "",
+        text: normalizeWithOffsets(report[field] ?? ""),
+      }));
+      const combined = normalizedFields.map(({ text }) => text.value).join("\n");
+      if (!terms.every((term) => combined.includes(term))) {
+        return [];
+      }
+
+      normalizedFields.forEach(({ field, original, text }) => {
+        const ranges = findMatchRanges(text, terms);
+        if (ranges.length > 0) {
+          matches.push({
+            field,
+            segments: buildSnippet(original, text, ranges),
+          });
+        }
+      });
+    }
+
+    return [
+      {
+        reportId: report.reportId,
+        date: report.date,
+        userSlug: meta.userSlug,
+        userName: report.userName,
+        department: meta.department,
+        satisfactionToday: report.satisfactionToday,
+        tags: report.tags,
+        matches,
+      },
+    ];
+  });
+
+  hits.sort(
+    (a, b) =>
+      b.date.localeCompare(a.date) || a.userName.localeCompare(b.userName),
+  );
+
+  const offset = (query.page - 1) * query.pageSize;
+  return {
+    items: hits.slice(offset, offset + query.pageSize),
+    total: hits.length,
+    page: query.page,
+    pageSize: query.pageSize,
+    hasNextPage: offset + query.pageSize < hits.length,
+  };
+};
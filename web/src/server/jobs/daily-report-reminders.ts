@@ -0,0 +1,244 @@
+import "server-only";
+
+import { formatInTimeZone } from "date-fns-tz";
+import {
+  DEFAULT_TIMEZONE,
+  DR_REMINDER_DEFAULT_TIME,
+} from "@/config/constants";
+import {
+  DEPARTMENT_OF_USER,
+  resolveSlackUserIdForSlug,
+  resolveUserSlug,
+} from "@/config/departments";
+import { env } from "@/config/env";
+import { isHoliday } from "@/config/holidays";
+import { ADMIN_USER_SLUGS } from "@/config/roles";
+import { fetchDailyReports } from "@/lib/sheets/daily-reports";
+import {
+  listDrReminderOptOuts,
+  listRemindedUserSlugs,
+  recordDrReminders,
+  type DrReminderRecord,
+} from "@/lib/sheets/dr-reminders";
+import { sendSlackDirectMessage } from "@/lib/slack/client";
+import { getReportWeekdayCode, reportDateBy29hRule } from "@/lib/time";
+import { createNotifications } from "@/server/notifications";
+
+export type DailyReportReminderSkipReason =
+  | "before_send_time"
+  | "weekend"
+  | "holiday";
+
+export interface DailyReportReminderJobResult {
+  reportDate: string;
+  dryRun: boolean;
+  sendTime: string;
+  skipped: DailyReportReminderSkipReason | null;
+  roster: number;
+  submitted: number;
+  optedOut: string[];
+  alreadyReminded: number;
+  reminded: Array<{ userSlug: string; slackUserId: string | null }>;
+  failed: Array<{ userSlug: string; slackUserId: string; error: string }>;
+  managers: Array<{ userSlug: string; ok: boolean; error?: string }>;
+}
+
+const getSendTime = (): string =>
+  env.server.DR_REMINDER_TIME?.trim() || DR_REMINDER_DEFAULT_TIME;
+
+// サマリーの送り先。DR_REMINDER_MANAGER_SLUGS が未設定なら管理者（ADMIN_USER_SLUGS）に送る
+const getManagerSlugs = (): string[] => {
+  const configured = (env.server.DR_REMINDER_MANAGER_SLUGS ?? "")
+    .split(",")
+    .map((slug) => slug.trim().toLowerCase())
+    .filter(Boolean);
+  return configured.length > 0 ? configured : Array.from(ADMIN_USER_SLUGS);
+};
+
+const getNewReportUrl = (): string => {
+  const baseUrl = env.server.NEXTAUTH_URL?.replace(/\/$/, "") ?? "";
+  return `${baseUrl}/daily-reports/new`;
+};
+
+const buildReminderMessage = (reportDate: string) => {
+  const url = getNewReportUrl();
+  const link = url.startsWith("http") ? `<${url}|こちら>` : url;
+  return {
+    text: `:memo: ${reportDate} の日報がまだ提出されていません。${link} から提出してください。`,
+  };
+};
+
+const buildManagerSummary = (
+  reportDate: string,
+  reminded: DailyReportReminderJobResult["reminded"],
+) => ({
+  text: [
+    `:bell: ${reportDate} の日報未提出リマインドを ${reminded.length}名 に送りました。`,
+    ...reminded.map(({ userSlug }) => `• ${userSlug}`),
+  ].join("\n"),
+});
+
+/**
+ * DEPARTMENT_OF_USER を名簿として、29時ルール上の「今日」の日報がないメンバーにリマインドする。
+ * 送信時刻前・土日・休日は何もしない。リマインド済みは dr_reminders タブに記録し、同じ日に再送しない。
+ */
+export const runDailyReportReminderJob = async (
+  options: { now?: Date; dryRun?: boolean; force?: boolean } = {},
+): Promise<DailyReportReminderJobResult> => {
+  const now = options.now ?? new Date();
+  const dryRun = options.dryRun ?? false;
+  const sendTime = getSendTime();
+  const { dateISO: reportDate, isPreviousDay } = reportDateBy29hRule(now);
+  const localTime = formatInTimeZone(now, DEFAULT_TIMEZONE, "HH:mm");
+  const roster = Object.keys(DEPARTMENT_OF_USER);
+
+  const result: DailyReportReminderJobResult = {
+    reportDate,
+    dryRun,
+    sendTime,
+    skipped: null,
+    roster: roster.length,
+    submitted: 0,
+    optedOut: [],
+    alreadyReminded: 0,
+    reminded: [],
+    failed: [],
+    managers: [],
+  };
+
+  // 0:00〜4:59 は前日扱いなので、送信時刻は過ぎているものとみなす
+  if (!options.force && !isPreviousDay && localTime < sendTime) {
+    result.skipped = "before_send_time";
+    return result;
+  }
+  const weekday = getReportWeekdayCode(reportDate);
+  if (weekday === "Sat" || weekday === "Sun") {
+    result.skipped = "weekend";
+    return result;
+  }
+  if (isHoliday(reportDate)) {
+    result.skipped = "holiday";
+    return result;
+  }
+
+  const [reports, optOuts, remindedSlugs] = await Promise.all([
+    fetchDailyReports({ weekStart: reportDate, weekEnd: reportDate }),
+    listDrReminderOptOuts(),
+    listRemindedUserSlugs(reportDate),
+  ]);
+
+  const submittedSlugs = new Set(
+    reports.map(
+      (report) =>
+        resolveUserSlug({
+          userSlug: report.userSlug,
+          slackUserId: report.slackUserId,
+          email: report.email,
+        }) ?? report.userSlug,
+    ),
+  );
+
+  const pending = roster.filter((userSlug) => {
+    if (submittedSlugs.has(userSlug)) {
+      result.submitted += 1;
+      return false;
+    }
+    if (optOuts.has(userSlug)) {
+      result.optedOut.push(userSlug);
+      return false;
+    }
+    if (remindedSlugs.has(userSlug)) {
+      result.alreadyReminded += 1;
+      return false;
+    }
+    return true;
+  });
+
+  if (dryRun) {
+    result.reminded = pending.map((userSlug) => ({
+      userSlug,
+      slackUserId: resolveSlackUserIdForSlug(userSlug),
+    }));
+    return result;
+  }
+
+  const records: DrReminderRecord[] = [];
+  const created = await createNotifications(
+    pending.map((userSlug) => ({
+      recipientSlug: userSlug,
+      type: "dr_reminder",
+      title: `${reportDate} の日報が未提出です`,
+      body: "今日の振り返りを残しましょう。",
+      link: "/daily-reports/new",
+    })),
+  );
+  const notifiedSlugs = new Set(
+    created.map((notification) => notification.recipientSlug),
+  );
+
+  for (const userSlug of pending) {
+    const slackUserId = resolveSlackUserIdForSlug(userSlug);
+    let delivered = notifiedSlugs.has(userSlug);
+    if (slackUserId) {
+      const response = await sendSlackDirectMessage(
+        slackUserId,
+        buildReminderMessage(reportDate),
+      );
+      if (response.ok) {
+        delivered = true;
+      } else {
+        result.failed.push({
+          userSlug,
+          slackUserId,
+          error: response.error ?? "unknown",
+        });
+      }
+    }
+    if (!delivered) {
+      continue;
+    }
+    result.reminded.push({ userSlug, slackUserId });
+    records.push({
+      reportDate,
+      userSlug,
+      slackUserId: slackUserId ?? "",
+      sentAt: new Date().toISOString(),
+    });
+  }
+
+  await recordDrReminders(records);
+
+  if (result.reminded.length > 0) {
+    const summary = buildManagerSummary(reportDate, result.reminded);
+    for (const managerSlug of getManagerSlugs()) {
+      const slackUserId = resolveSlackUserIdForSlug(managerSlug);
+      if (!slackUserId) {
+        result.managers.push({
+          userSlug: managerSlug,
+          ok: false,
+          error: "slack_user_not_found",
+        });
+        continue;
+      }
+      const response = await sendSlackDirectMessage(slackUserId, summary);
+      result.managers.push({
+        userSlug: managerSlug,
+        ok: response.ok,
+        error: response.ok ? undefined : (response.error ?? "unknown"),
+      });
+    }
+  }
+
+  console.info("jobs.dr_reminders.done", {
+    reportDate,
+    roster: result.roster,
+    submitted: result.submitted,
+    optedOut: result.optedOut.length,
+    alreadyReminded: result.alreadyReminded,
+    reminded: result.reminded.length,
+    failed: result.failed.length,
+    managers: result.managers.length,
+  });
+
+  return result;
+};
@@ -0,0 +1,103 @@
+import "server-only";
+
+import { isScheduledRecurrence } from "@/lib/task-recurrence";
+import type { AuditRequestContext } from "@/server/audit-log";
+import { listTasks } from "@/server/repositories/tasks-repository";
+import {
+  createNextOccurrence,
+  latestInSeries,
+  seriesIdOf,
+  todayInDefaultTimezone,
+} from "@/server/task-recurrence";
+
+const CRON_AUDIT_CONTEXT: AuditRequestContext = {
+  source: "cron",
+  ip: "",
+  userAgent: "recurring-tasks job",
+};
+
+export interface RecurringTaskJobResult {
+  runDate: string;
+  dryRun: boolean;
+  candidates: number;
+  created: Array<{ seriesId: string; fromTaskId: string; taskId: string }>;
+  failed: Array<{ seriesId: string; fromTaskId: string; error: string }>;
+}
+
+/**
+ * スケジュール型（毎日・毎週・毎月）の系列のうち、最新回の基準日（期限 → 開始日）を迎えたものの次回分を作る。
+ * 完了からN日後の系列は完了時に作るため対象外。1回の実行で1系列につき1件まで。
+ */
+export const runRecurringTaskJob = async (
+  options: { dryRun?: boolean } = {},
+): Promise<RecurringTaskJobResult> => {
+  const dryRun = options.dryRun ?? false;
+  const runDate = todayInDefaultTimezone();
+  const tasks = await listTasks();
+
+  const seriesIds = new Set(
+    tasks.filter((task) => task.recurrence).map(seriesIdOf),
+  );
+  const due = Array.from(seriesIds).flatMap((seriesId) => {
+    const latest = latestInSeries(tasks, seriesId);
+    const anchor = (latest?.dueDate ?? latest?.startDate)?.slice(0, 10);
+    if (
+      !latest?.recurrence ||
+      !isScheduledRecurrence(latest.recurrence) ||
+      latest.status === "棄却" ||
+      !anchor ||
+      anchor > runDate
+    ) {
+      return [];
+    }
+    return [{ seriesId, latest }];
+  });
+
+  const result: RecurringTaskJobResult = {
+    runDate,
+    dryRun,
+    candidates: due.length,
+    created: [],
+    failed: [],
+  };
+  if (dryRun) {
+    return result;
+  }
+
+  for (const { seriesId, latest } of due) {
+    try {
+      const next = await createNextOccurrence(
+        latest,
+        tasks,
+        CRON_AUDIT_CONTEXT,
+        runDate,
+      );
+      if (next) {
+        result.created.push({
+          seriesId,
+          fromTaskId: latest.taskId,
+          taskId: next.taskId,
+        });
+      }
+    } catch (error) {
+      console.error("jobs.recurring_tasks.create.error", {
+        seriesId,
+        taskId: latest.taskId,
+        error,
+      });
+      result.failed.push({
+        seriesId,
+        fromTaskId: latest.taskId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  console.info("jobs.recurring_tasks.done", {
+    runDate,
+    candidates: result.candidates,
+    created: result.created.length,
+    failed: result.failed.length,
+  });
+  return result;
+};
@@ -0,0 +1,257 @@
+import "server-only";
+
+import { addDays, formatISO, parseISO } from "date-fns";
+import { formatInTimeZone } from "date-fns-tz";
+import {
+  DEFAULT_TIMEZONE,
+  TASK_ALERT_DUE_SOON_DAYS,
+} from "@/config/constants";
+import {
+  resolveAssigneeSlug,
+  resolveSlackUserIdForSlug,
+} from "@/config/departments";
+import { env } from "@/config/env";
+import {
+  listAlertedTaskIds,
+  recordDeadlineAlerts,
+  type DeadlineAlertKind,
+  type DeadlineAlertRecord,
+} from "@/lib/sheets/deadline-alerts";
+import { sendSlackDirectMessage } from "@/lib/slack/client";
+import { createNotifications } from "@/server/notifications";
+import { listTasks } from "@/server/repositories/tasks-repository";
+import type { Task } from "@/types";
+
+const CLOSED_STATUSES = new Set<Task["status"]>(["完了", "棄却"]);
+
+const KIND_LABELS: Record<DeadlineAlertKind, string> = {
+  overdue: "期限超過",
+  due_today: "本日期限",
+  due_soon: "まもなく期限",
+};
+
+export interface TaskDeadlineAlert {
+  task: Task;
+  kind: DeadlineAlertKind;
+  dueDate: string;
+  recipientSlug: string | null;
+  slackUserId: string | null;
+}
+
+export interface TaskDeadlineAlertJobResult {
+  alertDate: string;
+  dryRun: boolean;
+  candidates: number;
+  alreadyAlerted: number;
+  sent: Array<{ slackUserId: string; taskIds: string[] }>;
+  failed: Array<{
+    slackUserId: string;
+    recipientSlug?: string;
+    taskIds: string[];
+    error: string;
+  }>;
+  notified: Array<{ recipientSlug: string; taskIds: string[] }>;
+  unresolvedAssignees: string[];
+}
+
+const toDueDateISO = (value?: string): string | null => {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(trimmed)) {
+    return trimmed.slice(0, 10);
+  }
+  const parsed = Date.parse(trimmed);
+  return Number.isNaN(parsed)
+    ? null
+    : formatInTimeZone(new Date(parsed), DEFAULT_TIMEZONE, "yyyy-MM-dd");
+};
+
+// 担当者名 → SlackユーザーID（Slack IDの直書き / USER_SLUG_OF_ASSIGNEE / userSlug の順で解決）
+export const resolveAssigneeSlackUserId = (
+  assigneeName: string,
+): string | null => {
+  const name = assigneeName.trim();
+  if (!name) return null;
+  if (/^U[A-Z0-9]{6,}$/.test(name)) return name;
+  const slug = resolveAssigneeSlug(name);
+  return slug ? resolveSlackUserIdForSlug(slug) : null;
+};
+
+export const collectTaskDeadlineAlerts = (
+  tasks: Task[],
+  today: string,
+  dueSoonDays = TASK_ALERT_DUE_SOON_DAYS,
+): TaskDeadlineAlert[] => {
+  const dueSoonLimit = formatISO(addDays(parseISO(today), dueSoonDays), {
+    representation: "date",
+  });
+
+  return tasks.flatMap((task) => {
+    if (CLOSED_STATUSES.has(task.status)) return [];
+    const dueDate = toDueDateISO(task.dueDate);
+    if (!dueDate || dueDate > dueSoonLimit) return [];
+
+    const kind: DeadlineAlertKind =
+      dueDate < today ? "overdue" : dueDate === today ? "due_today" : "due_soon";
+    return [
+      {
+        task,
+        kind,
+        dueDate,
+        recipientSlug: resolveAssigneeSlug(task.assigneeName),
+        slackUserId: resolveAssigneeSlackUserId(task.assigneeName),
+      },
+    ];
+  });
+};
+
+const buildAlertMessage = (alerts: TaskDeadlineAlert[], today: string) => {
+  const baseUrl = env.server.NEXTAUTH_URL?.replace(/\/$/, "") ?? "";
+  const lines = alerts.map(({ task, kind, dueDate }) => {
+    const title = `${task.projectName} / ${task.title}`;
+    const link = baseUrl ? `<${baseUrl}/tasks/${task.taskId}|${title}>` : title;
+    return `• [${KIND_LABELS[kind]}] ${link}（期限 ${dueDate}・${task.status}）`;
+  });
+  return {
+    text: [
+      `:alarm_clock: 期限が近いタスクのお知らせ（${today}）`,
+      ...lines,
+    ].join("\n"),
+  };
+};
+
+/**
+ * 期限超過・当日・N日以内のタスクを担当者ごとにまとめて通知センターに載せ、Slack DMする。
+ * 送信済みのタスクは deadline_alerts タブに記録し、同じ日に再送しない。
+ */
+export const runTaskDeadlineAlertJob = async (
+  options: { now?: Date; dryRun?: boolean } = {},
+): Promise<TaskDeadlineAlertJobResult> => {
+  const now = options.now ?? new Date();
+  const dryRun = options.dryRun ?? false;
+  const today = formatInTimeZone(now, DEFAULT_TIMEZONE, "yyyy-MM-dd");
+
+  const [tasks, alertedTaskIds] = await Promise.all([
+    listTasks(),
+    listAlertedTaskIds(today),
+  ]);
+  const candidates = collectTaskDeadlineAlerts(tasks, today);
+  const pending = candidates.filter(
+    (alert) => !alertedTaskIds.has(alert.task.taskId),
+  );
+
+  const result: TaskDeadlineAlertJobResult = {
+    alertDate: today,
+    dryRun,
+    candidates: candidates.length,
+    alreadyAlerted: candidates.length - pending.length,
+    sent: [],
+    failed: [],
+    notified: [],
+    unresolvedAssignees: [],
+  };
+
+  // 通知センター（userSlug）と Slack DM（SlackユーザーID）のどちらかで届けられる担当者ごとにまとめる
+  const byRecipient = new Map<string, TaskDeadlineAlert[]>();
+  pending.forEach((alert) => {
+    const key = alert.recipientSlug ?? alert.slackUserId;
+    if (!key) {
+      const name = alert.task.assigneeName || "（未設定）";
+      if (!result.unresolvedAssignees.includes(name)) {
+        result.unresolvedAssignees.push(name);
+      }
+      return;
+    }
+    const group = byRecipient.get(key) ?? [];
+    group.push(alert);
+    byRecipient.set(key, group);
+  });
+
+  for (const alerts of byRecipient.values()) {
+    const { recipientSlug, slackUserId } = alerts[0];
+    const taskIds = alerts.map((alert) => alert.task.taskId);
+    if (dryRun) {
+      if (slackUserId) result.sent.push({ slackUserId, taskIds });
+      if (recipientSlug) result.notified.push({ recipientSlug, taskIds });
+      continue;
+    }
+
+    // 1人分の失敗（シート書き込み・通知作成の例外など）で残りの担当者を止めない
+    try {
+      let delivered = false;
+      if (recipientSlug) {
+        const created = await createNotifications(
+          alerts.map(({ task, kind, dueDate }) => ({
+            recipientSlug,
+            type: "task_deadline",
+            title: `[${KIND_LABELS[kind]}] ${task.title}`,
+            body: `${task.projectName}・期限 ${dueDate}・${task.status}`,
+            link: `/tasks/${task.taskId}`,
+          })),
+        );
+        if (created.length > 0) {
+          delivered = true;
+          result.notified.push({ recipientSlug, taskIds });
+        }
+      }
+
+      if (slackUserId) {
+        const response = await sendSlackDirectMessage(
+          slackUserId,
+          buildAlertMessage(alerts, today),
+        );
+        if (response.ok) {
+          delivered = true;
+          result.sent.push({ slackUserId, taskIds });
+        } else {
+          result.failed.push({
+            slackUserId,
+            taskIds,
+            error: response.error ?? "unknown",
+          });
+        }
+      }
+
+      if (!delivered) {
+        continue;
+      }
+
+      const sentAt = new Date().toISOString();
+      const records: DeadlineAlertRecord[] = alerts.map((alert) => ({
+        alertDate: today,
+        taskId: alert.task.taskId,
+        kind: alert.kind,
+        assigneeName: alert.task.assigneeName,
+        slackUserId: slackUserId ?? "",
+        sentAt,
+      }));
+      await recordDeadlineAlerts(records);
+    } catch (error) {
+      console.error("jobs.task_deadline_alerts.recipient.error", {
+        recipientSlug,
+        slackUserId,
+        taskIds,
+        error,
+      });
+      result.failed.push({
+        slackUserId: slackUserId ?? "",
+        recipientSlug: recipientSlug ?? undefined,
+        taskIds,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  console.info("jobs.task_deadline_alerts.done", {
+    alertDate: today,
+    dryRun,
+    candidates: result.candidates,
+    alreadyAlerted: result.alreadyAlerted,
+    sent: result.sent.length,
+    failed: result.failed.length,
+    notified: result.notified.length,
+    unresolved: result.unresolvedAssignees.length,
+  });
+
+  return result;
+};
@@ -0,0 +1,149 @@
+import "server-only";
+
+import { randomUUID } from "node:crypto";
+import type { AppNotification, AppNotificationType, Task } from "@/types";
+import { resolveAssigneeSlug } from "@/config/departments";
+import {
+  appendNotifications,
+  listNotificationRows,
+  setNotificationsReadAt,
+} from "@/lib/sheets/notifications";
+
+export interface CreateNotificationInput {
+  recipientSlug: string;
+  type: AppNotificationType;
+  title: string;
+  body: string;
+  link?: string;
+}
+
+export interface NotificationListResult {
+  items: AppNotification[];
+  unreadCount: number;
+}
+
+const DEFAULT_LIST_LIMIT = 30;
+
+/**
+ * 通知を保存する。通知の失敗で本処理（タスク更新やジョブ）を止めないよう例外は握りつぶす。
+ */
+export const createNotifications = async (
+  inputs: CreateNotificationInput[],
+): Promise<AppNotification[]> => {
+  const createdAt = new Date().toISOString();
+  const notifications: AppNotification[] = inputs
+    .filter((input) => input.recipientSlug.trim())
+    .map((input) => ({
+      id: randomUUID(),
+      recipientSlug: input.recipientSlug.trim(),
+      type: input.type,
+      title: input.title,
+      body: input.body,
+      link: input.link,
+      createdAt,
+    }));
+
+  try {
+    await appendNotifications(notifications);
+    return notifications;
+  } catch (error) {
+    console.error("notifications.create.error", {
+      count: notifications.length,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return [];
+  }
+};
+
+export const listNotificationsForUser = async (
+  userSlug: string,
+  options: { limit?: number; unreadOnly?: boolean } = {},
+): Promise<NotificationListResult> => {
+  const limit = options.limit ?? DEFAULT_LIST_LIMIT;
+  const rows = await listNotificationRows();
+  const own = rows
+    .map((row) => row.notification)
+    .filter((notification) => notification.recipientSlug === userSlug)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const unread = own.filter((notification) => !notification.readAt);
+  const items = (options.unreadOnly ? unread : own).slice(0, limit);
+
+  return {
+    items,
+    unreadCount: unread.length,
+  };
+};
+
+const markRead = async (
+  userSlug: string,
+  predicate: (notification: AppNotification) => boolean,
+): Promise<number> => {
+  const rows = await listNotificationRows();
+  const targets = rows.filter(
+    ({ notification }) =>
+      notification.recipientSlug === userSlug &&
+      !notification.readAt &&
+      predicate(notification),
+  );
+  await setNotificationsReadAt(
+    targets.map((row) => row.rowNumber),
+    new Date().toISOString(),
+  );
+  return targets.length;
+};
+
+// 他人宛ての通知は対象外（ID を知っていても既読にできない）
+export const markNotificationsRead = async (
+  userSlug: string,
+  ids: string[],
+): Promise<number> => {
+  const idSet = new Set(ids);
+  return markRead(userSlug, (notification) => idSet.has(notification.id));
+};
+
+export const markAllNotificationsRead = async (
+  userSlug: string,
+): Promise<number> => markRead(userSlug, () => true);
+
+// 担当者が決まった / 変わったタスクを新しい担当者へ知らせる（自分で自分に割り当てた場合は通知しない）
+export const notifyTaskAssigned = async (
+  task: Task,
+  actor: { userSlug: string; userName: string },
+): Promise<void> => {
+  const recipientSlug = resolveAssigneeSlug(task.assigneeName);
+  if (!recipientSlug || recipientSlug === actor.userSlug) {
+    return;
+  }
+  await createNotifications([
+    {
+      recipientSlug,
+      type: "task_assigned",
+      title: `タスクの担当になりました: ${task.title}`,
+      body: `${actor.userName} さんが「${task.projectName}」のタスクを割り当てました。`,
+      link: `/tasks/${task.taskId}`,
+    },
+  ]);
+};
+
+// コメント本文の @userSlug で名指しされたメンバーへ知らせる（投稿者本人は除く）
+export const notifyCommentMentions = async (
+  task: Task,
+  comment: { id: string; body: string },
+  mentionedSlugs: string[],
+  actor: { userSlug: string; userName: string },
+): Promise<void> => {
+  const recipients = mentionedSlugs.filter((slug) => slug !== actor.userSlug);
+  if (recipients.length === 0) {
+    return;
+  }
+  const excerpt = comment.body.replace(/\s+/g, " ").trim().slice(0, 120);
+  await createNotifications(
+    recipients.map((recipientSlug) => ({
+      recipientSlug,
+      type: "comment_mention" as const,
+      title: `${actor.userName} さんがコメントであなたをメンションしました`,
+      body: `「${task.title}」: ${excerpt}`,
+      link: `/tasks/${task.taskId}#${comment.id}`,
+    })),
+  );
+};
@@ -6,10 +6,10 @@ import { DailyReport, WeeklySatisfactionPoint } from "@/types";
 import {
   DailyReportQueryOptions,
   fetchDailyReports,
-  getSlackTimestampForReport,
   setSlackTsOnSheet,
   upsertDailyReport,
 } from "@/lib/sheets/daily-reports";
+import { addDays, formatISO, parseISO } from "date-fns";
 import { getWeekStart } from "@/lib/time";
 import {
   resolveDepartment,
@@ -18,8 +18,13 @@ import {
 import { env } from "@/config/env";
 import {
   postDailyReportToSlack,
+  updateDailyReportOnSlack,
   type SlackPostResult,
 } from "@/lib/slack/client";
+import {
+  markSlackUserTokensRevoked,
+  SLACK_REVOKED_TOKEN_ERRORS,
+} from "@/server/slack/user-tokens";
 
 const parseSatisfactionScore = (value: string): number | null => {
   if (!value) return null;
@@ -35,6 +40,72 @@ export const listDailyReports = async (
   return fetchDailyReports(options);
 };
 
+const parseReportId = (reportId: string) => {
+  const match = /^dr_(.+)_(\d{4}-\d{2}-\d{2})$/.exec(reportId);
+  if (!match) {
+    return null;
+  }
+  return {
+    userSlug: match[1],
+    date: match[2],
+  };
+};
+
+export const getDailyReportById = async (
+  reportId: string,
+): Promise<DailyReport | null> => {
+  const parsed = parseReportId(reportId);
+  if (!parsed) {
+    return null;
+  }
+
+  const weekStart = getWeekStart(parsed.date);
+  const weekEnd = formatISO(addDays(parseISO(weekStart), 6), {
+    representation: "date",
+  });
+  const reports = await fetchDailyReports({ weekStart, weekEnd });
+  return reports.find((item) => item.reportId === reportId) ?? null;
+};
+
+const updateSlackMessageForReport = async (
+  report: DailyReport,
+  options: {
+    channelId: string;
+    ts: string;
+    userAccessToken: string | null;
+    // userAccessToken の持ち主。トークンが失効していたらこのIDで失効扱いにする
+    slackUserId: string;
+  },
+): Promise<SlackPostResult | null> => {
+  try {
+    const result = await updateDailyReportOnSlack(report, options);
+    const userTokenError =
+      result.usedTokenType === "user" ? result.error : result.userTokenError;
+    if (
+      options.userAccessToken &&
+      options.slackUserId &&
+      userTokenError &&
+      SLACK_REVOKED_TOKEN_ERRORS.has(userTokenError)
+    ) {
+      await markSlackUserTokensRevoked([options.slackUserId]).catch((error) =>
+        console.error("ERROR dailyReports.repo.revoke_token", error),
+      );
+    }
+    if (!result.ok) {
+      console.error("ERROR dailyReports.repo.update.result", result);
+    }
+    return result;
+  } catch (error) {
+    const err = error as { message?: string };
+    console.error("ERROR dailyReports.repo.update", {
+      reportId: report.reportId,
+      slackTs: options.ts,
+      message: err?.message,
+    });
+    return null;
+  }
+};
+
 export interface SaveDailyReportInput {
   satisfactionToday: string;
   doneToday: string;
@@ -57,6 +128,7 @@ export interface SaveDailyReportInput {
 
 export interface SaveDailyReportResult {
   report: DailyReport;
+  previous: DailyReport | null;
   slack: SlackPostResult | null;
 }
 
@@ -90,7 +162,8 @@ export const saveDailyReport = async (
 
   const now = new Date().toISOString();
   const reportId = `dr_${userSlug}_${date}`;
-  const existingSlackTs = await getSlackTimestampForReport(userSlug, date);
+  const existingReport = await getDailyReportById(reportId);
+  const existingSlackTs = existingReport?.slackTs ?? null;
 
   const report: DailyReport = {
     reportId,
@@ -112,7 +185,8 @@ export const saveDailyReport = async (
     tags,
     source: "web_form",
     slackTs: existingSlackTs ?? undefined,
-    createdAt: now,
+    // 再保存でも初回提出日時を残す（後追い提出の判定に使う）
+    createdAt: existingReport?.createdAt || now,
     updatedAt: now,
   };
 
@@ -120,13 +194,21 @@ export const saveDailyReport = async (
 
   let slackResult: SlackPostResult | null = null;
 
-  if (!existingSlackTs) {
-    const preferUserToken =
-      typeof slackUserAccessToken === "string" &&
-      slackUserAccessToken.trim().startsWith("xoxp-")
-        ? slackUserAccessToken.trim()
-        : null;
+  const preferUserToken =
+    typeof slackUserAccessToken === "string" &&
+    slackUserAccessToken.trim().startsWith("xoxp-")
+      ? slackUserAccessToken.trim()
+      : null;
 
+  if (existingSlackTs) {
+    // 既に投稿済みの日報は新規投稿せず、元のメッセージを書き換える
+    slackResult = await updateSlackMessageForReport(report, {
+      channelId: expectedChannel,
+      ts: existingSlackTs,
+      userAccessToken: preferUserToken,
+      slackUserId: report.slackUserId,
+    });
+  } else {
     console.log("DEBUG dailyReports.repo.post", {
       reportId: report.reportId,
       channelId: expectedChannel,
@@ -141,6 +223,20 @@ export const saveDailyReport = async (
       });
       console.log("DEBUG dailyReports.repo.post.result", slackResult);
 
+      const userTokenError =
+        slackResult.usedTokenType === "user"
+          ? slackResult.error
+          : slackResult.userTokenError;
+      if (
+        preferUserToken &&
+        userTokenError &&
+        SLACK_REVOKED_TOKEN_ERRORS.has(userTokenError)
+      ) {
+        await markSlackUserTokensRevoked([slackUserId]).catch((error) =>
+          console.error("ERROR dailyReports.repo.revoke_token", error),
+        );
+      }
+
       if (slackResult.ok && slackResult.ts) {
         await setSlackTsOnSheet(userSlug, date, slackResult.ts);
         report.slackTs = slackResult.ts;
@@ -166,6 +262,64 @@ export const saveDailyReport = async (
 
   return {
     report,
+    previous: existingReport,
+    slack: slackResult,
+  };
+};
+
+export type DailyReportContentInput = Pick<
+  DailyReport,
+  | "satisfactionToday"
+  | "doneToday"
+  | "goodMoreBackground"
+  | "moreNext"
+  | "todoTomorrow"
+  | "wishTomorrow"
+  | "personalNews"
+  | "tags"
+>;
+
+export interface UpdateDailyReportOptions {
+  // 元投稿者のトークン（chat.update は投稿した本人でしか成功しない）
+  slackUserAccessToken: string | null;
+  // 元投稿者のSlackユーザーID（シートに列がないため userSlug から解決したもの）
+  slackUserId: string;
+}
+
+export const updateDailyReport = async (
+  existing: DailyReport,
+  content: DailyReportContentInput,
+  options: UpdateDailyReportOptions,
+): Promise<SaveDailyReportResult> => {
+  const report: DailyReport = {
+    ...existing,
+    ...content,
+    createdAt: existing.createdAt,
+    slackTs: existing.slackTs,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await upsertDailyReport(report);
+
+  let slackResult: SlackPostResult | null = null;
+  if (existing.slackTs && !existing.slackDeletedAt) {
+    const preferUserToken =
+      typeof options.slackUserAccessToken === "string" &&
+      options.slackUserAccessToken.trim().startsWith("xoxp-")
+        ? options.slackUserAccessToken.trim()
+        : null;
+    slackResult = await updateSlackMessageForReport(report, {
+      channelId:
+        existing.channelId || env.server.SLACK_DAILY_REPORT_CHANNEL_ID.trim(),
+      ts: existing.slackTs,
+      userAccessToken: preferUserToken,
+      slackUserId: options.slackUserId,
+    });
+  }
+
+  return {
+    report,
+    previous: existing,
     slack: slackResult,
   };
 };
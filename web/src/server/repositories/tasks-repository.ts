@@ -4,8 +4,32 @@ import "server-only";
 
 import { randomUUID } from "node:crypto";
 
-import { Task, TaskHistoryEvent, TaskUpsertInput } from "@/types";
-import { appendTaskHistoryEvent, fetchTasks, upsertTask } from "@/lib/sheets/tasks";
+import {
+  Task,
+  TaskChecklistItem,
+  TaskComment,
+  TaskHistoryEvent,
+  TaskUpsertInput,
+} from "@/types";
+import {
+  appendTaskHistoryEvent,
+  appendTaskHistoryEvents,
+  batchWriteTasks,
+  fetchTasks,
+  listTaskSheetTitles,
+  TaskBatchWrite,
+  upsertTask,
+} from "@/lib/sheets/tasks";
+import {
+  appendTaskChecklistItem,
+  listTaskChecklistRows,
+  updateTaskChecklistRows,
+} from "@/lib/sheets/task-checklist";
+import { sortChecklistItems } from "@/lib/task-checklist";
+import {
+  buildTaskComments,
+  serializeCommentRevision,
+} from "@/lib/task-comments";
 
 export type TaskHistoryEventInput = {
   id?: string;
@@ -62,6 +86,10 @@ export const listTasks = async (): Promise<Task[]> => {
   return sortTasks(tasks);
 };
 
+// 一括操作の移動先として選べるタスクシート（タスクがまだないタブも含む）
+export const listTaskSheets = async (): Promise<string[]> =>
+  listTaskSheetTitles();
+
 const ensureHistoryEvent = (
   taskId: string,
   event: TaskHistoryEventInput,
@@ -122,3 +150,275 @@ export const saveTask = async (
 
   return task;
 };
+
+export type TaskBulkSaveResult =
+  | { taskId: string; ok: true; task: Task }
+  | { taskId: string; ok: false; error: string };
+
+/**
+ * 複数タスクをまとめて保存する。シートへの書き込みは 1 回の batchUpdate で行い、
+ * 履歴は書き込めたタスクごとに 1 件ずつ残す。
+ */
+export const saveTasksInBulk = async (
+  updates: Array<TaskBatchWrite & { historyEvent: TaskHistoryEventInput }>,
+): Promise<TaskBulkSaveResult[]> => {
+  const now = new Date().toISOString();
+  const writes = updates.map(({ task, targetSheetTitle, historyEvent }) => ({
+    task: { ...task, updatedAt: now },
+    targetSheetTitle,
+    historyEvent: ensureHistoryEvent(task.taskId, {
+      happenedAt: now,
+      ...historyEvent,
+    }),
+  }));
+
+  const writeResults = await batchWriteTasks(writes);
+  const failedById = new Map(
+    writeResults.flatMap((result) =>
+      result.ok ? [] : [[result.taskId, result.error] as const],
+    ),
+  );
+  const saved = writes.filter(({ task }) => !failedById.has(task.taskId));
+
+  try {
+    await appendTaskHistoryEvents(saved.map(({ historyEvent }) => historyEvent));
+    saved.forEach(({ task, historyEvent }) => {
+      task.history = [...task.history, historyEvent];
+    });
+  } catch (error) {
+    console.error("tasks.repo.bulk.history.failed", {
+      taskIds: saved.map(({ task }) => task.taskId),
+      error,
+    });
+  }
+
+  return writes.map(({ task }) => {
+    const error = failedById.get(task.taskId);
+    return error === undefined
+      ? { taskId: task.taskId, ok: true, task }
+      : { taskId: task.taskId, ok: false, error };
+  });
+};
+
+export interface TaskCommentActor {
+  actorId: string;
+  actorName: string;
+}
+
+// コメントの追加・編集・削除はいずれも task_history への追記で表現する（削除も行は消さない）
+const appendCommentEvent = async (
+  task: Task,
+  commentId: string | null,
+  event: TaskHistoryEventInput,
+): Promise<TaskComment> => {
+  const normalizedEvent = ensureHistoryEvent(task.taskId, event);
+  await appendTaskHistoryEvent(normalizedEvent);
+  task.history = [...task.history, normalizedEvent];
+
+  const targetId = commentId ?? normalizedEvent.id;
+  const comment = buildTaskComments(task.history).find(
+    (item) => item.id === targetId,
+  );
+  if (!comment) {
+    throw new Error(`Comment ${targetId} not found after append`);
+  }
+  return comment;
+};
+
+export const addTaskComment = async (
+  task: Task,
+  body: string,
+  actor: TaskCommentActor,
+): Promise<TaskComment> =>
+  appendCommentEvent(task, null, {
+    id: `cmt_${task.taskId}_${randomUUID()}`,
+    type: "comment",
+    details: body,
+    ...actor,
+  });
+
+export const editTaskComment = async (
+  task: Task,
+  commentId: string,
+  body: string,
+  actor: TaskCommentActor,
+): Promise<TaskComment> =>
+  appendCommentEvent(task, commentId, {
+    type: "comment_edit",
+    details: serializeCommentRevision({ commentId, body }),
+    ...actor,
+  });
+
+export const deleteTaskComment = async (
+  task: Task,
+  commentId: string,
+  actor: TaskCommentActor,
+): Promise<TaskComment> =>
+  appendCommentEvent(task, commentId, {
+    type: "comment_delete",
+    details: serializeCommentRevision({ commentId }),
+    ...actor,
+  });
+
+export type TaskChecklistItemChanges = Partial<
+  Pick<TaskChecklistItem, "title" | "done" | "assigneeName" | "dueDate">
+>;
+
+// チェックリストの操作はタスク本体の履歴にも残す
+const appendChecklistHistory = async (
+  task: Task,
+  actor: TaskCommentActor,
+  details: string,
+): Promise<void> => {
+  const event = ensureHistoryEvent(task.taskId, {
+    type: "update",
+    details,
+    ...actor,
+  });
+  try {
+    await appendTaskHistoryEvent(event);
+    task.history = [...task.history, event];
+  } catch (error) {
+    console.error("tasks.repo.checklist.history.failed", {
+      taskId: task.taskId,
+      error,
+    });
+  }
+};
+
+const listOwnChecklistRows = async (taskId: string) =>
+  (await listTaskChecklistRows()).filter((row) => row.item.taskId === taskId);
+
+export const addTaskChecklistItem = async (
+  task: Task,
+  input: Pick<TaskChecklistItem, "title" | "assigneeName" | "dueDate">,
+  actor: TaskCommentActor,
+): Promise<TaskChecklistItem> => {
+  const rows = await listOwnChecklistRows(task.taskId);
+  const item: TaskChecklistItem = {
+    id: `chk_${randomUUID()}`,
+    taskId: task.taskId,
+    position: Math.max(0, ...rows.map((row) => row.item.position)) + 1,
+    title: input.title,
+    done: false,
+    assigneeName: input.assigneeName || undefined,
+    dueDate: input.dueDate || undefined,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await appendTaskChecklistItem(item);
+  await appendChecklistHistory(
+    task,
+    actor,
+    `チェックリストに「${item.title}」を追加しました。`,
+  );
+  task.checklist = sortChecklistItems([...(task.checklist ?? []), item]);
+  return item;
+};
+
+export const updateTaskChecklistItem = async (
+  task: Task,
+  itemId: string,
+  changes: TaskChecklistItemChanges,
+  actor: TaskCommentActor,
+): Promise<TaskChecklistItem | null> => {
+  const row = (await listOwnChecklistRows(task.taskId)).find(
+    (candidate) => candidate.item.id === itemId,
+  );
+  if (!row) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const previous = row.item;
+  const doneChanged = changes.done !== undefined && changes.done !== previous.done;
+  const item: TaskChecklistItem = {
+    ...previous,
+    ...changes,
+    assigneeName:
+      changes.assigneeName === undefined
+        ? previous.assigneeName
+        : changes.assigneeName || undefined,
+    dueDate:
+      changes.dueDate === undefined
+        ? previous.dueDate
+        : changes.dueDate || undefined,
+    doneAt: doneChanged ? (changes.done ? now : undefined) : previous.doneAt,
+    updatedAt: now,
+  };
+
+  await updateTaskChecklistRows([{ rowNumber: row.rowNumber, item }]);
+  if (doneChanged) {
+    await appendChecklistHistory(
+      task,
+      actor,
+      item.done
+        ? `チェックリストの「${item.title}」を完了にしました。`
+        : `チェックリストの「${item.title}」を未完了に戻しました。`,
+    );
+  }
+  task.checklist = sortChecklistItems(
+    (task.checklist ?? []).map((current) =>
+      current.id === item.id ? item : current,
+    ),
+  );
+  return item;
+};
+
+export const deleteTaskChecklistItem = async (
+  task: Task,
+  itemId: string,
+  actor: TaskCommentActor,
+): Promise<TaskChecklistItem | null> => {
+  const row = (await listOwnChecklistRows(task.taskId)).find(
+    (candidate) => candidate.item.id === itemId,
+  );
+  if (!row) {
+    return null;
+  }
+
+  const deletedAt = new Date().toISOString();
+  await updateTaskChecklistRows([{ ...row, deletedAt }]);
+  await appendChecklistHistory(
+    task,
+    actor,
+    `チェックリストから「${row.item.title}」を削除しました。`,
+  );
+  task.checklist = (task.checklist ?? []).filter(
+    (current) => current.id !== itemId,
+  );
+  return row.item;
+};
+
+/**
+ * itemIds の順に並べ替える。指定されなかった項目は元の順のまま後ろに回す。
+ */
+export const reorderTaskChecklist = async (
+  task: Task,
+  itemIds: string[],
+): Promise<TaskChecklistItem[]> => {
+  const rows = await listOwnChecklistRows(task.taskId);
+  const rank = new Map(itemIds.map((id, index) => [id, index]));
+  const ordered = rows
+    .slice()
+    .sort((a, b) => a.item.position - b.item.position)
+    .sort(
+      (a, b) =>
+        (rank.get(a.item.id) ?? itemIds.length) -
+        (rank.get(b.item.id) ?? itemIds.length),
+    );
+
+  const now = new Date().toISOString();
+  const changed = ordered.flatMap((row, index) =>
+    row.item.position === index + 1
+      ? []
+      : [{ ...row, item: { ...row.item, position: index + 1, updatedAt: now } }],
+  );
+  await updateTaskChecklistRows(changed);
+
+  const changedById = new Map(changed.map((row) => [row.item.id, row.item]));
+  task.checklist = sortChecklistItems(
+    ordered.map((row) => changedById.get(row.item.id) ?? row.item),
+  );
+  return task.checklist;
+};
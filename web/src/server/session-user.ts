@@ -0,0 +1,94 @@
+import "server-only";
+
+import type { Session } from "next-auth";
+import { resolveUserSlug } from "@/config/departments";
+import { resolveUserRole } from "@/config/roles";
+import { hasRole } from "@/lib/roles";
+import type { TaskEditor } from "@/lib/task-permissions";
+import type { UserRole } from "@/types";
+
+export interface SessionUserIdentity {
+  userSlug: string;
+  userName: string;
+  email: string;
+  slackUserId: string;
+  slackTeamId: string;
+  role: UserRole;
+}
+
+const toStringOrEmpty = (value: unknown): string =>
+  typeof value === "string" ? value : "";
+
+const normalizeSlugCandidate = (input: string): string =>
+  input
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "");
+
+// セッションのSlack/メール情報から、シート上の userSlug と表示名を決める
+export const resolveSessionUser = (
+  user: Session["user"],
+): SessionUserIdentity => {
+  const sessionUserName = toStringOrEmpty(user.name);
+  const email = toStringOrEmpty(user.email);
+  const slackUserId = toStringOrEmpty(user.slackUserId);
+  const slackTeamId = toStringOrEmpty(user.slackTeamId);
+
+  const slugFromEmail = email ? email.split("@")[0]?.toLowerCase() ?? "" : "";
+  const fallbackSlugCandidate = normalizeSlugCandidate(
+    slugFromEmail || sessionUserName,
+  );
+  const resolvedSlug =
+    resolveUserSlug({
+      slackUserId: slackUserId || undefined,
+      email: email || undefined,
+      userSlug: fallbackSlugCandidate || undefined,
+    }) ?? fallbackSlugCandidate;
+  const userSlug = resolvedSlug || "unknown";
+
+  return {
+    userSlug,
+    userName: sessionUserName || userSlug || email || "Unknown",
+    email,
+    slackUserId,
+    slackTeamId,
+    role: resolveUserRole({ userSlug, slackUserId }),
+  };
+};
+
+// 日報の本人（userSlug か SlackユーザーIDが一致）のメンバー、または管理者なら編集できる
+export const canEditDailyReport = (
+  identity: SessionUserIdentity,
+  report: { userSlug: string; slackUserId?: string },
+): boolean => {
+  if (identity.role === "admin") {
+    return true;
+  }
+  if (!hasRole(identity.role, "member")) {
+    return false;
+  }
+  return (
+    identity.userSlug === report.userSlug ||
+    (Boolean(identity.slackUserId) &&
+      identity.slackUserId === report.slackUserId)
+  );
+};
+
+// タスクの作成者判定は履歴の actorId で行うため、履歴に書かれうるIDをすべて持たせる
+export const resolveTaskEditor = (user: Session["user"]): TaskEditor => {
+  const identity = resolveSessionUser(user);
+  const actorIds = [
+    identity.userSlug,
+    toStringOrEmpty(user.id),
+    identity.email,
+    identity.slackUserId,
+  ].filter((value) => value && value !== "unknown");
+  return {
+    role: identity.role,
+    userSlug: identity.userSlug,
+    userName: identity.userName,
+    actorIds: Array.from(new Set(actorIds)),
+  };
+};
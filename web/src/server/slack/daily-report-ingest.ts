@@ -0,0 +1,234 @@
+import "server-only";
+
+import type { DailyReport } from "@/types";
+import { env } from "@/config/env";
+import { resolveUserSlug } from "@/config/departments";
+import {
+  fetchDailyReports,
+  findDailyReportBySlackTs,
+  markDailyReportDeletedOnSlack,
+  upsertDailyReport,
+} from "@/lib/sheets/daily-reports";
+import { fetchSlackUserProfile } from "@/lib/slack/client";
+import {
+  bulletize,
+  decodeSlackText,
+  extractDailyReportMetaFromSlack,
+  parseDailyReportFromSlack,
+  type DrFields,
+} from "@/lib/slack/dr-format";
+import type {
+  SlackMessageEvent,
+  SlackMessagePayload,
+} from "@/lib/slack/events";
+import { getReportWeekdayCode, reportDateBy29hRule } from "@/lib/time";
+import { recordAuditLog, type AuditActor } from "@/server/audit-log";
+
+export type SlackIngestOutcome =
+  | { status: "ingested"; report: DailyReport }
+  | { status: "deleted"; report: DailyReport | null }
+  | { status: "skipped"; reason: string };
+
+const skipped = (reason: string): SlackIngestOutcome => ({
+  status: "skipped",
+  reason,
+});
+
+// Slack経由の書き込みは投稿者本人を操作者として記録する（IP/UAは取得できない）
+const SLACK_AUDIT_CONTEXT = {
+  source: "slack" as const,
+  ip: "",
+  userAgent: "Slack Events API",
+};
+
+const slackActor = (slackUserId: string, userSlug: string): AuditActor => ({
+  actorId: slackUserId,
+  actorName: userSlug,
+  actorRole: "",
+});
+
+const slackTsToDate = (ts: string): Date => {
+  const seconds = Number.parseFloat(ts);
+  return Number.isFinite(seconds) ? new Date(seconds * 1000) : new Date();
+};
+
+// Slack へは箇条書きに整形して流すため、比較も同じ整形をかけてから行う
+const sameBullets = (left: string | undefined, right: string | undefined) =>
+  bulletize(left ?? "") === bulletize(right ?? "");
+
+/**
+ * Web 編集を chat.update で反映すると、その変更も message_changed として届く。
+ * シートの内容と同じなら取り込み直さない（updatedAt や監査ログを増やさない）。
+ */
+const hasSameContent = (
+  existing: DailyReport,
+  fields: Partial<DrFields>,
+  tags: string[],
+): boolean =>
+  (existing.satisfactionToday ?? "").trim() ===
+    (fields.satisfaction ?? "").trim() &&
+  sameBullets(existing.doneToday, fields.done) &&
+  sameBullets(existing.goodMoreBackground, fields.good) &&
+  sameBullets(existing.moreNext, fields.moreNext) &&
+  sameBullets(existing.todoTomorrow, fields.todoTomorrow) &&
+  sameBullets(existing.wishTomorrow, fields.wishTomorrow) &&
+  sameBullets(existing.personalNews, fields.personalNews) &&
+  existing.tags.length === tags.length &&
+  existing.tags.every((tag) => tags.includes(tag));
+
+const ingestMessage = async (
+  message: SlackMessagePayload,
+  context: { channelId: string; teamId?: string },
+): Promise<SlackIngestOutcome> => {
+  const { user, text, ts } = message;
+  if (!user || !text || !ts) {
+    return skipped("incomplete_message");
+  }
+  if (message.bot_id) {
+    return skipped("bot_message");
+  }
+  if (message.thread_ts && message.thread_ts !== ts) {
+    return skipped("thread_reply");
+  }
+
+  const userSlug = resolveUserSlug({ slackUserId: user });
+  if (!userSlug) {
+    console.warn("slack.ingest.unknown_user", { slackUserId: user, ts });
+    return skipped("unknown_user");
+  }
+
+  const { body, date: headerDate, tags } = extractDailyReportMetaFromSlack(
+    decodeSlackText(text),
+  );
+  const fields = parseDailyReportFromSlack(body);
+  if (!fields.done?.trim()) {
+    return skipped("not_daily_report_template");
+  }
+
+  const existing = await findDailyReportBySlackTs(ts);
+  if (existing && hasSameContent(existing, fields, tags)) {
+    return skipped("unchanged");
+  }
+  const postedAt = slackTsToDate(ts);
+  const date =
+    existing?.date ?? headerDate ?? reportDateBy29hRule(postedAt).dateISO;
+
+  if (!existing) {
+    const [sameDayReport] = (
+      await fetchDailyReports({ weekStart: date, weekEnd: date })
+    ).filter((report) => report.userSlug === userSlug);
+
+    // Web投稿を本人トークンでSlackへ流した場合、そのイベントが戻ってくるため取り込まない
+    if (
+      sameDayReport?.source === "web_form" &&
+      (!sameDayReport.slackTs || sameDayReport.slackTs === ts)
+    ) {
+      return skipped("posted_from_web");
+    }
+  }
+
+  // 名前とメールはシートに無いことがあるため、足りない分は Slack のプロフィールで補う
+  const profile =
+    existing?.userName && existing.email
+      ? null
+      : await fetchSlackUserProfile(user);
+
+  const now = new Date().toISOString();
+  const report: DailyReport = {
+    reportId: `dr_${userSlug}_${date}`,
+    date,
+    weekday: getReportWeekdayCode(date),
+    userSlug,
+    userName: existing?.userName || profile?.name || "",
+    email: existing?.email || profile?.email || "",
+    slackUserId: user,
+    slackTeamId: context.teamId ?? message.team ?? "",
+    channelId: context.channelId,
+    satisfactionToday: fields.satisfaction ?? "",
+    doneToday: fields.done ?? "",
+    goodMoreBackground: fields.good ?? "",
+    moreNext: fields.moreNext ?? "",
+    todoTomorrow: fields.todoTomorrow ?? "",
+    wishTomorrow: fields.wishTomorrow ?? "",
+    personalNews: fields.personalNews ?? "",
+    tags,
+    source: existing?.source ?? "slack_ingest",
+    slackTs: ts,
+    createdAt: existing?.createdAt || postedAt.toISOString(),
+    updatedAt: now,
+  };
+
+  await upsertDailyReport(report);
+
+  await recordAuditLog({
+    actor: slackActor(user, userSlug),
+    context: SLACK_AUDIT_CONTEXT,
+    action: "daily_report.slack_ingest",
+    entityType: "daily_report",
+    entityId: report.reportId,
+    before: existing,
+    after: report,
+  });
+
+  console.info("slack.ingest.upserted", {
+    reportId: report.reportId,
+    slackTs: ts,
+    edited: Boolean(existing),
+  });
+
+  return { status: "ingested", report };
+};
+
+export const handleDailyReportMessageEvent = async (
+  event: SlackMessageEvent,
+  context: { teamId?: string } = {},
+): Promise<SlackIngestOutcome> => {
+  const channelId = env.server.SLACK_DAILY_REPORT_CHANNEL_ID.trim();
+  if (!event.channel || event.channel !== channelId) {
+    return skipped("other_channel");
+  }
+
+  switch (event.subtype) {
+    case undefined:
+      return ingestMessage(event, { channelId, teamId: context.teamId });
+    case "message_changed":
+      if (!event.message) {
+        return skipped("incomplete_message");
+      }
+      return ingestMessage(event.message, {
+        channelId,
+        teamId: context.teamId,
+      });
+    case "message_deleted": {
+      const deletedTs = event.deleted_ts ?? event.previous_message?.ts;
+      if (!deletedTs) {
+        return skipped("incomplete_message");
+      }
+      const report = await markDailyReportDeletedOnSlack(
+        deletedTs,
+        new Date().toISOString(),
+      );
+      if (report) {
+        await recordAuditLog({
+          actor: slackActor(
+            event.previous_message?.user ?? report.slackUserId,
+            report.userSlug,
+          ),
+          context: SLACK_AUDIT_CONTEXT,
+          action: "daily_report.slack_delete",
+          entityType: "daily_report",
+          entityId: report.reportId,
+          before: { slackDeletedAt: "" },
+          after: { slackDeletedAt: report.slackDeletedAt ?? "" },
+        });
+      }
+      console.info("slack.ingest.deleted", {
+        slackTs: deletedTs,
+        reportId: report?.reportId ?? null,
+      });
+      return { status: "deleted", report };
+    }
+    default:
+      return skipped(`subtype:${event.subtype}`);
+  }
+};
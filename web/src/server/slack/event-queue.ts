@@ -0,0 +1,120 @@
+import "server-only";
+
+import {
+  claimSlackEvent,
+  recordSlackEvent,
+  type SlackEventRecordStatus,
+} from "@/lib/sheets/slack-events";
+import { listSlackUserTokens } from "@/lib/sheets/slack-user-tokens";
+import {
+  isSlackMessageEvent,
+  isSlackTokensRevokedEvent,
+  type SlackEventCallbackPayload,
+} from "@/lib/slack/events";
+import { handleDailyReportMessageEvent } from "./daily-report-ingest";
+import { markSlackUserTokensRevoked } from "./user-tokens";
+
+export interface SlackDeliveryMeta {
+  retryNum: number;
+  retryReason: string | null;
+}
+
+// Sheets への書き込みが競合しないよう、同一インスタンス内では1件ずつ処理する
+let queueTail: Promise<void> = Promise.resolve();
+
+const toErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+const processSlackEvent = async (
+  payload: SlackEventCallbackPayload,
+  delivery: SlackDeliveryMeta,
+): Promise<void> => {
+  const eventId = payload.event_id;
+  const eventType = payload.event?.type ?? "unknown";
+
+  // 再送が別インスタンスに届いても二重に取り込まないよう、処理の前に印を付ける
+  const claim = await claimSlackEvent({
+    eventId,
+    eventType,
+    retryNum: delivery.retryNum,
+  });
+  if (!claim.ok) {
+    console.info("slack.events.replay.ignored", {
+      eventId,
+      eventType,
+      reason: claim.reason,
+      retryNum: delivery.retryNum,
+      retryReason: delivery.retryReason,
+    });
+    return;
+  }
+
+  let status: SlackEventRecordStatus = "skipped";
+  let detail = "unsupported_event";
+
+  try {
+    if (payload.event && isSlackMessageEvent(payload.event)) {
+      const outcome = await handleDailyReportMessageEvent(payload.event, {
+        teamId: payload.team_id,
+      });
+      status = outcome.status === "skipped" ? "skipped" : "processed";
+      detail =
+        outcome.status === "skipped"
+          ? outcome.reason
+          : `${outcome.status}:${outcome.report?.reportId ?? ""}`;
+    } else if (payload.event && isSlackTokensRevokedEvent(payload.event)) {
+      const revokedUserIds = payload.event.tokens?.oauth ?? [];
+      await markSlackUserTokensRevoked(revokedUserIds);
+      status = "processed";
+      detail = `tokens_revoked:${revokedUserIds.length}`;
+    } else if (payload.event?.type === "app_uninstalled") {
+      const records = await listSlackUserTokens();
+      await markSlackUserTokensRevoked(
+        records.map((record) => record.slackUserId),
+      );
+      status = "processed";
+      detail = `app_uninstalled:${records.length}`;
+    }
+    console.info("slack.events.handled", {
+      eventId,
+      eventType,
+      status,
+      detail,
+      retryNum: delivery.retryNum,
+    });
+  } catch (error) {
+    status = "failed";
+    detail = toErrorMessage(error);
+    console.error("slack.events.error", {
+      eventId,
+      eventType,
+      retryNum: delivery.retryNum,
+      error: detail,
+    });
+  }
+
+  try {
+    await recordSlackEvent({
+      eventId,
+      eventType,
+      status,
+      detail,
+      retryNum: delivery.retryNum,
+      processedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("slack.events.record.error", {
+      eventId,
+      error: toErrorMessage(error),
+    });
+  }
+};
+
+export const enqueueSlackEvent = (
+  payload: SlackEventCallbackPayload,
+  delivery: SlackDeliveryMeta,
+): Promise<void> => {
+  const job = queueTail.then(() => processSlackEvent(payload, delivery));
+  queueTail = job.catch(() => undefined);
+  return job;
+};
@@ -0,0 +1,216 @@
+import "server-only";
+
+import { WebClient } from "@slack/web-api";
+import { env } from "@/config/env";
+import { resolveUserSlug } from "@/config/departments";
+import { decryptSecret, encryptSecret } from "@/lib/secrets";
+import {
+  listSlackUserTokens,
+  upsertSlackUserToken,
+  type SlackUserTokenRecord,
+} from "@/lib/sheets/slack-user-tokens";
+
+export const SLACK_USER_SCOPES = ["chat:write"];
+export const SLACK_OAUTH_STATE_COOKIE = "slack_oauth_state";
+export const SLACK_OAUTH_CALLBACK_PATH = "/api/slack/oauth/callback";
+
+// これらのエラーが返った場合、保存済みトークンは使えないため失効扱いにする
+export const SLACK_REVOKED_TOKEN_ERRORS = new Set([
+  "token_revoked",
+  "token_expired",
+  "invalid_auth",
+  "account_inactive",
+  "not_authed",
+]);
+
+// リフレッシュでこれらが返った場合だけ失効扱いにする。通信失敗やレート制限は次回に再試行する
+const SLACK_REFRESH_REVOKED_ERRORS = new Set([
+  "invalid_refresh_token",
+  "token_revoked",
+  "invalid_auth",
+]);
+
+const REFRESH_MARGIN_MS = 60_000;
+
+export interface SlackUserInstall {
+  slackUserId: string;
+  slackTeamId: string;
+  accessToken: string;
+  refreshToken?: string;
+  scope: string;
+  expiresInSeconds?: number;
+}
+
+export interface SlackConnectionStatus {
+  slackUserId: string;
+  userSlug: string;
+  status: "active" | "revoked" | "expired";
+  scope: string;
+  updatedAt: string;
+}
+
+const toExpiresAt = (expiresInSeconds?: number): string =>
+  typeof expiresInSeconds === "number" && expiresInSeconds > 0
+    ? new Date(Date.now() + expiresInSeconds * 1000).toISOString()
+    : "";
+
+const isExpired = (record: SlackUserTokenRecord): boolean => {
+  if (!record.expiresAt) return false;
+  const expiresAt = Date.parse(record.expiresAt);
+  return !Number.isNaN(expiresAt) && expiresAt - REFRESH_MARGIN_MS < Date.now();
+};
+
+export const storeSlackUserInstall = async (
+  install: SlackUserInstall,
+): Promise<void> => {
+  await upsertSlackUserToken({
+    slackUserId: install.slackUserId,
+    slackTeamId: install.slackTeamId,
+    userSlug:
+      resolveUserSlug({ slackUserId: install.slackUserId }) ?? "",
+    accessToken: encryptSecret(install.accessToken),
+    refreshToken: install.refreshToken
+      ? encryptSecret(install.refreshToken)
+      : "",
+    scope: install.scope,
+    expiresAt: toExpiresAt(install.expiresInSeconds),
+    status: "active",
+    updatedAt: new Date().toISOString(),
+  });
+  console.info("slack.user_tokens.stored", {
+    slackUserId: install.slackUserId,
+    scope: install.scope,
+    rotating: Boolean(install.refreshToken),
+  });
+};
+
+// WebClient が投げるエラーは data.error に、自前で投げたエラーは message にコードが入る
+const toSlackErrorCode = (error: unknown): string => {
+  const data = (error as { data?: { error?: unknown } } | null)?.data;
+  if (typeof data?.error === "string") {
+    return data.error;
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+const refreshSlackUserToken = async (
+  record: SlackUserTokenRecord,
+): Promise<string | null> => {
+  if (!record.refreshToken) {
+    return null;
+  }
+
+  try {
+    const response = await new WebClient().oauth.v2.access({
+      client_id: env.server.SLACK_CLIENT_ID,
+      client_secret: env.server.SLACK_CLIENT_SECRET,
+      grant_type: "refresh_token",
+      refresh_token: decryptSecret(record.refreshToken),
+    });
+    const accessToken =
+      response.authed_user?.access_token ?? response.access_token;
+    if (!response.ok || !accessToken) {
+      throw new Error(response.error ?? "refresh_failed");
+    }
+
+    await storeSlackUserInstall({
+      slackUserId: record.slackUserId,
+      slackTeamId: record.slackTeamId,
+      accessToken,
+      refreshToken:
+        response.authed_user?.refresh_token ?? response.refresh_token,
+      scope: response.authed_user?.scope ?? response.scope ?? record.scope,
+      expiresInSeconds:
+        response.authed_user?.expires_in ?? response.expires_in,
+    });
+    return accessToken;
+  } catch (error) {
+    const code = toSlackErrorCode(error);
+    const revoked = SLACK_REFRESH_REVOKED_ERRORS.has(code);
+    console.error("slack.user_tokens.refresh.error", {
+      slackUserId: record.slackUserId,
+      error: code,
+      revoked,
+    });
+    if (revoked) {
+      await markSlackUserTokensRevoked([record.slackUserId]);
+    }
+    return null;
+  }
+};
+
+/**
+ * 本人投稿用の xoxp- トークンを返す。未連携・失効時は null（Bot投稿へフォールバック）。
+ */
+export const getSlackUserAccessToken = async (
+  slackUserId: string,
+): Promise<string | null> => {
+  if (!slackUserId) {
+    return null;
+  }
+
+  try {
+    const record = (await listSlackUserTokens()).find(
+      (item) => item.slackUserId === slackUserId,
+    );
+    if (!record || record.status !== "active" || !record.accessToken) {
+      return null;
+    }
+    if (isExpired(record)) {
+      return refreshSlackUserToken(record);
+    }
+    return decryptSecret(record.accessToken);
+  } catch (error) {
+    console.error("slack.user_tokens.read.error", {
+      slackUserId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+};
+
+export const markSlackUserTokensRevoked = async (
+  slackUserIds: string[],
+): Promise<void> => {
+  if (slackUserIds.length === 0) {
+    return;
+  }
+  const targets = new Set(slackUserIds);
+  const records = await listSlackUserTokens();
+  for (const record of records) {
+    if (!targets.has(record.slackUserId) || record.status === "revoked") {
+      continue;
+    }
+    await upsertSlackUserToken({
+      ...record,
+      accessToken: "",
+      refreshToken: "",
+      status: "revoked",
+      updatedAt: new Date().toISOString(),
+    });
+    console.info("slack.user_tokens.revoked", {
+      slackUserId: record.slackUserId,
+    });
+  }
+};
+
+export const listSlackConnectionStatuses = async (): Promise<
+  SlackConnectionStatus[]
+> => {
+  const records = await listSlackUserTokens();
+  return records.map((record) => ({
+    slackUserId: record.slackUserId,
+    userSlug:
+      record.userSlug ||
+      resolveUserSlug({ slackUserId: record.slackUserId }) ||
+      "",
+    status:
+      record.status === "revoked"
+        ? "revoked"
+        : isExpired(record) && !record.refreshToken
+          ? "expired"
+          : "active",
+    scope: record.scope,
+    updatedAt: record.updatedAt,
+  }));
+};
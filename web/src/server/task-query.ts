@@ -0,0 +1,155 @@
+import "server-only";
+
+import { listTasks } from "@/server/repositories/tasks-repository";
+import type { Task, TaskListResult } from "@/types";
+import type { TaskListQuery, TaskListSortKey } from "@/validation";
+
+const PRIORITY_WEIGHT: Record<Task["priority"], number> = {
+  高: 0,
+  中: 1,
+  低: 2,
+};
+
+// 全角/半角・大文字/小文字・タグ表記の揺れを吸収する
+const normalizeText = (value?: string | null) =>
+  (value ?? "")
+    .normalize("NFKC")
+    .replace(/\u200B/g, "")
+    .replace(/\+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+
+const matchesQuery = (task: Task, query: string) =>
+  [
+    task.title,
+    task.projectName,
+    task.assigneeName,
+    task.notes,
+    task.detailUrl,
+    task.sheetTitle,
+    (task.tags ?? []).join(" "),
+  ].some((value) => normalizeText(value).includes(query));
+
+const toTimestamp = (value?: string | null): number | null => {
+  if (!value) return null;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+const filterTasks = (tasks: Task[], query: TaskListQuery): Task[] => {
+  const keyword = normalizeText(query.q);
+  const assignee = normalizeText(query.assignee);
+  const project = normalizeText(query.project);
+  const category = normalizeText(query.category?.replace(/^#/, ""));
+
+  return tasks.filter((task) => {
+    if (keyword && !matchesQuery(task, keyword)) return false;
+    if (assignee && normalizeText(task.assigneeName) !== assignee) {
+      return false;
+    }
+    if (project && normalizeText(task.projectName) !== project) return false;
+    // カテゴリはタスクシートのタグ列（L列）で表す
+    if (category && !(task.tags ?? []).includes(category)) return false;
+    if (query.status?.length && !query.status.includes(task.status)) {
+      return false;
+    }
+    if (query.priority?.length && !query.priority.includes(task.priority)) {
+      return false;
+    }
+    if (query.dueFrom || query.dueTo) {
+      const due = task.dueDate?.slice(0, 10);
+      if (!due) return false;
+      if (query.dueFrom && due < query.dueFrom) return false;
+      if (query.dueTo && due > query.dueTo) return false;
+    }
+    return true;
+  });
+};
+
+// 日付が未設定のタスクは昇順・降順どちらでも末尾に置く
+const compareOptionalTimestamp = (
+  left: number | null,
+  right: number | null,
+  direction: 1 | -1,
+) => {
+  if (left === null && right === null) return 0;
+  if (left === null) return 1;
+  if (right === null) return -1;
+  return (left - right) * direction;
+};
+
+const SORT_COMPARATORS: Record<
+  Exclude<TaskListSortKey, "default">,
+  (a: Task, b: Task) => number
+> = {
+  dueDate: (a, b) =>
+    compareOptionalTimestamp(toTimestamp(a.dueDate), toTimestamp(b.dueDate), 1),
+  "-dueDate": (a, b) =>
+    compareOptionalTimestamp(
+      toTimestamp(a.dueDate),
+      toTimestamp(b.dueDate),
+      -1,
+    ),
+  priority: (a, b) => PRIORITY_WEIGHT[a.priority] - PRIORITY_WEIGHT[b.priority],
+  "-priority": (a, b) =>
+    PRIORITY_WEIGHT[b.priority] - PRIORITY_WEIGHT[a.priority],
+  updatedAt: (a, b) =>
+    compareOptionalTimestamp(
+      toTimestamp(a.updatedAt),
+      toTimestamp(b.updatedAt),
+      1,
+    ),
+  "-updatedAt": (a, b) =>
+    compareOptionalTimestamp(
+      toTimestamp(a.updatedAt),
+      toTimestamp(b.updatedAt),
+      -1,
+    ),
+};
+
+// カーソルは「何件目から」を包んだ不透明な文字列として扱う
+const encodeCursor = (offset: number) =>
+  Buffer.from(JSON.stringify({ offset })).toString("base64url");
+
+const decodeCursor = (cursor?: string): number => {
+  if (!cursor) return 0;
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    return Number.isInteger(parsed?.offset) && parsed.offset > 0
+      ? parsed.offset
+      : 0;
+  } catch {
+    console.warn("tasks.query.cursor.invalid", { cursor });
+    return 0;
+  }
+};
+
+/**
+ * 取得済みのタスクに絞り込み・並び替え・ページングを適用する。
+ * "default" の並びは listTasks と同じ（期限 → 優先度 → 更新日）で、他の並びでも同順位はその順を保つ。
+ */
+export const applyTaskListQuery = (
+  tasks: Task[],
+  query: TaskListQuery,
+): TaskListResult => {
+  const filtered = filterTasks(tasks, query);
+  const sorted =
+    query.sort === "default"
+      ? filtered
+      : filtered.slice().sort(SORT_COMPARATORS[query.sort]);
+
+  const offset = decodeCursor(query.cursor);
+  const items = sorted.slice(offset, offset + query.limit);
+  const nextOffset = offset + items.length;
+
+  return {
+    items,
+    total: sorted.length,
+    nextCursor: nextOffset < sorted.length ? encodeCursor(nextOffset) : null,
+  };
+};
+
+export const queryTasks = async (
+  query: TaskListQuery,
+): Promise<TaskListResult> => applyTaskListQuery(await listTasks(), query);
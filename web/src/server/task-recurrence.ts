@@ -0,0 +1,103 @@
+import "server-only";
+
+import { formatInTimeZone } from "date-fns-tz";
+import { DEFAULT_TIMEZONE } from "@/config/constants";
+import {
+  computeNextOccurrenceDates,
+  describeTaskRecurrence,
+} from "@/lib/task-recurrence";
+import { saveTask } from "@/server/repositories/tasks-repository";
+import { recordAuditLog, type AuditRequestContext } from "@/server/audit-log";
+import type { Task } from "@/types";
+
+const RECURRENCE_ACTOR = {
+  actorId: "system:recurrence",
+  actorName: "定期タスク",
+  actorRole: "system",
+};
+
+export const seriesIdOf = (task: Pick<Task, "taskId" | "seriesId">) =>
+  task.seriesId ?? task.taskId;
+
+const toTimestamp = (value?: string) => {
+  const parsed = Date.parse(value ?? "");
+  return Number.isNaN(parsed) ? 0 : parsed;
+};
+
+// 系列の最新回（最後に作られたタスク）。次回分はこれからしか作らない
+export const latestInSeries = (tasks: Task[], seriesId: string): Task | undefined =>
+  tasks
+    .filter((task) => seriesIdOf(task) === seriesId)
+    .reduce<Task | undefined>(
+      (latest, task) =>
+        !latest || toTimestamp(task.createdAt) > toTimestamp(latest.createdAt)
+          ? task
+          : latest,
+      undefined,
+    );
+
+export const todayInDefaultTimezone = () =>
+  formatInTimeZone(new Date(), DEFAULT_TIMEZONE, "yyyy-MM-dd");
+
+/**
+ * 定期タスクの次回分を作る。すでに後続の回がある場合や、繰り返し設定がない場合は何もしない。
+ */
+export const createNextOccurrence = async (
+  task: Task,
+  tasks: Task[],
+  context: AuditRequestContext,
+  completedOn = todayInDefaultTimezone(),
+): Promise<Task | null> => {
+  if (!task.recurrence) {
+    return null;
+  }
+  const seriesId = seriesIdOf(task);
+  if (latestInSeries(tasks, seriesId)?.taskId !== task.taskId) {
+    return null;
+  }
+  const dates = computeNextOccurrenceDates(task, completedOn);
+  if (!dates) {
+    return null;
+  }
+
+  const next = await saveTask(
+    {
+      projectName: task.projectName,
+      title: task.title,
+      assigneeName: task.assigneeName,
+      status: "未着手",
+      priority: task.priority,
+      startDate: dates.startDate,
+      dueDate: dates.dueDate,
+      detailUrl: task.detailUrl,
+      notes: task.notes,
+      tags: task.tags,
+      dependsOn: [],
+      recurrence: task.recurrence,
+      seriesId,
+      sheetTitle: task.sheetTitle,
+    },
+    {
+      historyEvents: [
+        {
+          type: "update",
+          actorId: RECURRENCE_ACTOR.actorId,
+          actorName: RECURRENCE_ACTOR.actorName,
+          details: `定期タスク（${describeTaskRecurrence(task.recurrence)}）の次回分として ${task.taskId} から自動生成しました。`,
+        },
+      ],
+    },
+  );
+
+  await recordAuditLog({
+    actor: RECURRENCE_ACTOR,
+    context,
+    action: "task.recurrence_generate",
+    entityType: "task",
+    entityId: next.taskId,
+    before: null,
+    after: next,
+  });
+
+  return next;
+};
@@ -0,0 +1,139 @@
+import "server-only";
+
+import { randomUUID } from "node:crypto";
+import type { SavedTaskView } from "@/types";
+import type { TaskViewUpsertSchema } from "@/validation";
+import { normalizeTaskViewQuery } from "@/lib/task-views";
+import {
+  appendSavedView,
+  listSavedViewDefaults,
+  listSavedViewRows,
+  recordSavedViewDefault,
+  updateSavedViewRow,
+} from "@/lib/sheets/task-views";
+
+export interface TaskViewListResult {
+  views: SavedTaskView[];
+  defaultViewId: string | null;
+}
+
+type TaskViewMutationResult =
+  | { ok: true; view: SavedTaskView }
+  | { ok: false; status: 403 | 404; error: string };
+
+const isVisibleTo = (view: SavedTaskView, userSlug: string) =>
+  view.ownerSlug === userSlug || view.visibility === "team";
+
+/**
+ * 自分のビューとチームで共有されたビューを返す。自分のビューを先に、作成順に並べる。
+ */
+export const listTaskViewsForUser = async (
+  userSlug: string,
+): Promise<TaskViewListResult> => {
+  const [rows, defaults] = await Promise.all([
+    listSavedViewRows(),
+    listSavedViewDefaults(),
+  ]);
+  const views = rows
+    .map((row) => row.view)
+    .filter((view) => isVisibleTo(view, userSlug))
+    .sort((a, b) => {
+      const ownerOrder =
+        Number(b.ownerSlug === userSlug) - Number(a.ownerSlug === userSlug);
+      return ownerOrder || a.createdAt.localeCompare(b.createdAt);
+    });
+  const defaultViewId = defaults.get(userSlug) || null;
+
+  return {
+    views,
+    // 共有をやめた・削除されたビューが既定に残っていても使わない
+    defaultViewId: views.some((view) => view.id === defaultViewId)
+      ? defaultViewId
+      : null,
+  };
+};
+
+export const createTaskView = async (
+  ownerSlug: string,
+  input: TaskViewUpsertSchema,
+): Promise<SavedTaskView> => {
+  const now = new Date().toISOString();
+  const view: SavedTaskView = {
+    id: randomUUID(),
+    ownerSlug,
+    name: input.name,
+    visibility: input.visibility,
+    query: normalizeTaskViewQuery(input.query),
+    displayMode: input.displayMode,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await appendSavedView(view);
+  return view;
+};
+
+const findOwnView = async (userSlug: string, viewId: string) => {
+  const row = (await listSavedViewRows()).find(
+    (candidate) => candidate.view.id === viewId,
+  );
+  if (!row || !isVisibleTo(row.view, userSlug)) {
+    return { ok: false as const, status: 404 as const, error: "ビューが見つかりません" };
+  }
+  if (row.view.ownerSlug !== userSlug) {
+    return {
+      ok: false as const,
+      status: 403 as const,
+      error: "ビューを変更できるのは作成者のみです",
+    };
+  }
+  return { ok: true as const, row };
+};
+
+export const updateTaskView = async (
+  userSlug: string,
+  viewId: string,
+  input: TaskViewUpsertSchema,
+): Promise<TaskViewMutationResult> => {
+  const found = await findOwnView(userSlug, viewId);
+  if (!found.ok) {
+    return found;
+  }
+  const view: SavedTaskView = {
+    ...found.row.view,
+    name: input.name,
+    visibility: input.visibility,
+    query: normalizeTaskViewQuery(input.query),
+    displayMode: input.displayMode,
+    updatedAt: new Date().toISOString(),
+  };
+  await updateSavedViewRow(found.row.rowNumber, view);
+  return { ok: true, view };
+};
+
+export const deleteTaskView = async (
+  userSlug: string,
+  viewId: string,
+): Promise<TaskViewMutationResult> => {
+  const found = await findOwnView(userSlug, viewId);
+  if (!found.ok) {
+    return found;
+  }
+  await updateSavedViewRow(found.row.rowNumber, found.row.view, {
+    deletedAt: new Date().toISOString(),
+  });
+  return { ok: true, view: found.row.view };
+};
+
+export const setDefaultTaskView = async (
+  userSlug: string,
+  viewId: string | null,
+): Promise<{ ok: true } | { ok: false; error: string }> => {
+  if (viewId) {
+    const { views } = await listTaskViewsForUser(userSlug);
+    if (!views.some((view) => view.id === viewId)) {
+      return { ok: false, error: "ビューが見つかりません" };
+    }
+  }
+  await recordSavedViewDefault(userSlug, viewId);
+  return { ok: true };
+};
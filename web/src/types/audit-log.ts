@@ -0,0 +1,35 @@
+export type AuditAction =
+  | "task.create"
+  | "task.update"
+  | "task.recurrence_generate"
+  | "task_comment.create"
+  | "task_comment.update"
+  | "task_comment.delete"
+  | "daily_report.create"
+  | "daily_report.update"
+  | "daily_report.slack_ingest"
+  | "daily_report.slack_delete";
+
+export type AuditEntityType = "task" | "task_comment" | "daily_report";
+
+export type AuditSource = "web" | "slack" | "cron";
+
+export interface AuditFieldChange {
+  before: string;
+  after: string;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  happenedAt: string; // ISO string
+  actorId: string;
+  actorName: string;
+  actorRole: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  diff: Record<string, AuditFieldChange>;
+  source: AuditSource;
+  ip: string;
+  userAgent: string;
+}
@@ -1,3 +1,5 @@
+import type { Task, TaskPriority } from "./task";
+
 export type DailyReportSource = "manual" | "slack_ingest" | "web_form";
 
 export interface DailyReport {
@@ -20,6 +22,7 @@ export interface DailyReport {
   tags: string[];
   source: DailyReportSource;
   slackTs?: string;
+  slackDeletedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -44,3 +47,55 @@ export interface WeeklySatisfactionPoint {
   sampleSize: number;
   scope: "individual" | "department" | "company";
 }
+
+export type DailyReportSearchField =
+  | "doneToday"
+  | "goodMoreBackground"
+  | "moreNext"
+  | "todoTomorrow"
+  | "wishTomorrow"
+  | "personalNews";
+
+export interface SearchSnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface DailyReportSearchMatch {
+  field: DailyReportSearchField;
+  segments: SearchSnippetSegment[];
+}
+
+export interface DailyReportSearchHit {
+  reportId: string;
+  date: string; // YYYY-MM-DD
+  userSlug: string;
+  userName: string;
+  department: string;
+  satisfactionToday: string;
+  tags: string[];
+  matches: DailyReportSearchMatch[];
+}
+
+export interface DailyReportSearchResult {
+  items: DailyReportSearchHit[];
+  total: number;
+  page: number;
+  pageSize: number;
+  hasNextPage: boolean;
+}
+
+// 「明日やるべきこと」の1行から作るタスクの初期値
+export interface DailyReportTodoSuggestion {
+  title: string;
+  projectName: string;
+  priority: TaskPriority;
+  dueDate: string; // YYYY-MM-DD
+}
+
+export interface DailyReportTodoItem {
+  line: string;
+  suggestion: DailyReportTodoSuggestion;
+  // すでにタスクにした行はそのタスク
+  task: Pick<Task, "taskId" | "title" | "status"> | null;
+}
@@ -1,2 +1,5 @@
 export * from "./daily-report";
 export * from "./task";
+export * from "./role";
+export * from "./audit-log";
+export * from "./notification";
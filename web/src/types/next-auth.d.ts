@@ -1,4 +1,5 @@
 import { DefaultSession } from "next-auth";
+import type { UserRole } from "@/types/role";
 
 declare module "next-auth" {
   interface Session extends DefaultSession {
@@ -6,6 +7,8 @@ declare module "next-auth" {
       id?: string;
       slackUserId?: string | null;
       slackTeamId?: string | null;
+      userSlug?: string;
+      role?: UserRole;
     };
   }
 
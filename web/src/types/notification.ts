@@ -0,0 +1,16 @@
+export type AppNotificationType =
+  | "task_deadline"
+  | "task_assigned"
+  | "comment_mention"
+  | "dr_reminder";
+
+export interface AppNotification {
+  id: string;
+  recipientSlug: string;
+  type: AppNotificationType;
+  title: string;
+  body: string;
+  link?: string;
+  createdAt: string; // ISO string
+  readAt?: string; // ISO string
+}
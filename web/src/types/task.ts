@@ -8,16 +8,47 @@ export type TaskStatus =
 
 export type TaskPriority = "高" | "中" | "低";
 
+export type TaskHistoryEventType =
+  | "status_change"
+  | "comment"
+  | "comment_edit"
+  | "comment_delete"
+  | "update";
+
 export interface TaskHistoryEvent {
   id: string;
   taskId: string;
   happenedAt: string; // ISO string
   actorId: string;
   actorName: string;
-  type: "status_change" | "comment" | "update";
+  type: TaskHistoryEventType;
   details: string;
 }
 
+// コメントは task_history の comment イベントを起点に、編集・削除イベントを畳み込んで組み立てる
+export interface TaskComment {
+  id: string; // 起点となった comment イベントのID
+  taskId: string;
+  authorId: string;
+  authorName: string;
+  body: string; // Markdown。削除済みなら空文字
+  createdAt: string; // ISO string
+  editedAt?: string; // ISO string
+  deletedAt?: string; // ISO string
+}
+
+export interface TaskChecklistItem {
+  id: string;
+  taskId: string;
+  position: number; // 小さいほど上
+  title: string;
+  done: boolean;
+  assigneeName?: string;
+  dueDate?: string;
+  doneAt?: string; // ISO string
+  updatedAt: string; // ISO string
+}
+
 export interface Task {
   taskId: string;
   projectName: string;
@@ -33,10 +64,51 @@ export interface Task {
   createdAt: string;
   updatedAt: string;
   history: TaskHistoryEvent[];
+  checklist?: TaskChecklistItem[];
   tags?: string[];
+  dependsOn?: string[]; // 先に完了している必要があるタスクのID
+  recurrence?: TaskRecurrence;
+  seriesId?: string; // 定期タスクの系列。最初のタスクのID
+  sourceReportId?: string; // デイリーレポートの「明日やるべきこと」から作ったときの reportId
+  sourceReportLine?: string; // 作成元の行（箇条書きの記号を除いた本文）
   sheetTitle?: string;
 }
 
+// 定期タスクの繰り返し方（シートのP列に "daily" / "weekly:1,3" / "monthly:15" / "after:7" で保存）
+export type TaskRecurrence =
+  | { type: "daily" }
+  | { type: "weekly"; weekdays: number[] } // 0 = 日曜
+  | { type: "monthly"; day: number }
+  | { type: "afterCompletion"; days: number };
+
+export interface TaskListResult {
+  items: Task[];
+  total: number; // 絞り込み後の件数
+  nextCursor: string | null;
+}
+
+// 一括操作はタスクごとに成否を返す
+export interface TaskBulkResult {
+  taskId: string;
+  ok: boolean;
+  error?: string;
+}
+
+export type TaskViewDisplayMode = "table" | "gantt";
+
+export type TaskViewVisibility = "private" | "team";
+
+export interface SavedTaskView {
+  id: string;
+  ownerSlug: string;
+  name: string;
+  visibility: TaskViewVisibility;
+  query: string; // /tasks の検索条件（URLSearchParams 形式。cursor と display は含めない）
+  displayMode: TaskViewDisplayMode;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface TaskUpsertInput
   extends Omit<Task, "taskId" | "history" | "createdAt" | "updatedAt"> {
   taskId?: string;
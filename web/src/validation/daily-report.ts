@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { dropEmptyParams, optionalDateParam } from "./query-params";
 
 export const dailyReportUpsertSchema = z.object({
   reportId: z.string().optional(),
@@ -25,3 +26,42 @@ export const dailyReportUpsertSchema = z.object({
 });
 
 export type DailyReportUpsertSchema = z.infer<typeof dailyReportUpsertSchema>;
+
+const optionalScoreParam = z.coerce.number().optional();
+
+const dailyReportSearchParamsSchema = z
+  .object({
+    q: z.string().trim().max(200).optional().default(""),
+    user: z.string().trim().optional(),
+    department: z.string().trim().optional(),
+    tag: z.string().trim().optional(),
+    from: optionalDateParam,
+    to: optionalDateParam,
+    satisfactionMin: optionalScoreParam,
+    satisfactionMax: optionalScoreParam,
+    page: z.coerce.number().int().min(1).optional().default(1),
+    pageSize: z.coerce.number().int().min(1).max(100).optional().default(20),
+  })
+  .refine((value) => !value.from || !value.to || value.from <= value.to, {
+    message: "開始日は終了日以前を指定してください",
+    path: ["from"],
+  })
+  .refine(
+    (value) =>
+      value.satisfactionMin === undefined ||
+      value.satisfactionMax === undefined ||
+      value.satisfactionMin <= value.satisfactionMax,
+    {
+      message: "満足度の下限は上限以下を指定してください",
+      path: ["satisfactionMin"],
+    },
+  );
+
+export const dailyReportSearchQuerySchema = z.preprocess(
+  dropEmptyParams,
+  dailyReportSearchParamsSchema,
+);
+
+export type DailyReportSearchQuery = z.infer<
+  typeof dailyReportSearchQuerySchema
+>;
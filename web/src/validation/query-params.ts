@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+export const optionalDateParam = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "日付は YYYY-MM-DD 形式で指定してください")
+  .optional();
+
+// GETフォームは未入力欄も空文字で送ってくるので、未指定として扱う
+export const dropEmptyParams = (value: unknown) =>
+  value && typeof value === "object"
+    ? Object.fromEntries(
+        Object.entries(value).filter(
+          ([, entry]) => typeof entry !== "string" || entry.trim() !== "",
+        ),
+      )
+    : value;
@@ -1,20 +1,241 @@
 import { z } from "zod";
+import { TASK_COMMENT_MAX_LENGTH } from "@/lib/task-comments";
+import { TASK_CHECKLIST_MAX_ITEMS } from "@/lib/task-checklist";
+import { normalizeTaskTag } from "@/lib/task-tags";
+import { dropEmptyParams, optionalDateParam } from "./query-params";
+
+const taskStatusSchema = z.enum([
+  "未着手",
+  "進行中",
+  "レビュー待ち",
+  "完了",
+  "保留",
+  "棄却",
+]);
+const taskPrioritySchema = z.enum(["高", "中", "低"]);
+
+export const taskRecurrenceSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("daily") }),
+  z.object({
+    type: z.literal("weekly"),
+    weekdays: z
+      .array(z.number().int().min(0).max(6))
+      .min(1, "繰り返す曜日を1つ以上選択してください")
+      .transform((days) =>
+        Array.from(new Set(days)).sort((left, right) => left - right),
+      ),
+  }),
+  z.object({
+    type: z.literal("monthly"),
+    day: z.number().int().min(1).max(31),
+  }),
+  z.object({
+    type: z.literal("afterCompletion"),
+    days: z.number().int().min(1).max(365),
+  }),
+]);
 
 export const taskUpsertSchema = z.object({
   taskId: z.string().optional(),
   projectName: z.string().min(1),
   title: z.string().min(1),
   assigneeName: z.string().min(1),
-  status: z.enum(["未着手", "進行中", "レビュー待ち", "完了", "保留", "棄却"]),
-  priority: z.enum(["高", "中", "低"]),
+  status: taskStatusSchema,
+  priority: taskPrioritySchema,
   startDate: z.string().optional(),
   dueDate: z.string().optional(),
   doneDate: z.string().optional(),
   detailUrl: z.union([z.string().url(), z.literal("")]).optional(),
   notes: z.string().optional(),
+  dependsOn: z.array(z.string().trim().min(1)).max(50).optional(),
+  // null は繰り返しの解除
+  recurrence: taskRecurrenceSchema.nullable().optional(),
   createdAt: z.string().optional(),
   updatedAt: z.string().optional(),
   sheetTitle: z.string().min(1).optional(),
+  // デイリーレポートの「明日やるべきこと」から作るときの作成元
+  sourceReportId: z.string().trim().min(1).optional(),
+  sourceReportLine: z.string().trim().max(1000).optional(),
 });
 
 export type TaskUpsertSchema = z.infer<typeof taskUpsertSchema>;
+
+export const taskCommentBodySchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(1, "コメントを入力してください")
+    .max(
+      TASK_COMMENT_MAX_LENGTH,
+      `コメントは${TASK_COMMENT_MAX_LENGTH}文字以内で入力してください`,
+    ),
+});
+
+export const TASK_LIST_SORT_KEYS = [
+  "default",
+  "dueDate",
+  "-dueDate",
+  "priority",
+  "-priority",
+  "updatedAt",
+  "-updatedAt",
+] as const;
+
+export const TASK_LIST_DEFAULT_LIMIT = 50;
+
+// status=未着手,進行中 のようにカンマ区切りで複数指定できる
+const csvParam = <T extends z.ZodType<unknown, string>>(item: T) =>
+  z
+    .string()
+    .transform((value) =>
+      value
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean),
+    )
+    .pipe(z.array(item))
+    .optional();
+
+const taskListParamsSchema = z
+  .object({
+    q: z.string().trim().max(200).optional(),
+    assignee: z.string().trim().optional(),
+    status: csvParam(taskStatusSchema),
+    priority: csvParam(taskPrioritySchema),
+    dueFrom: optionalDateParam,
+    dueTo: optionalDateParam,
+    category: z.string().trim().optional(),
+    project: z.string().trim().optional(),
+    sort: z.enum(TASK_LIST_SORT_KEYS).optional().default("default"),
+    cursor: z.string().trim().optional(),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(200)
+      .optional()
+      .default(TASK_LIST_DEFAULT_LIMIT),
+  })
+  .refine(
+    (value) => !value.dueFrom || !value.dueTo || value.dueFrom <= value.dueTo,
+    {
+      message: "期限(開始)は期限(終了)以前を指定してください",
+      path: ["dueFrom"],
+    },
+  );
+
+export const taskListQuerySchema = z.preprocess(
+  dropEmptyParams,
+  taskListParamsSchema,
+);
+
+export type TaskListQuery = z.infer<typeof taskListQuerySchema>;
+export type TaskListSortKey = TaskListQuery["sort"];
+
+export const taskViewUpsertSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, "ビュー名を入力してください")
+      .max(40, "ビュー名は40文字以内で入力してください"),
+    visibility: z.enum(["private", "team"]).default("private"),
+    query: z.string().max(2000).default(""),
+    displayMode: z.enum(["table", "gantt"]).default("table"),
+  })
+  .refine(
+    (value) =>
+      taskListQuerySchema.safeParse(
+        Object.fromEntries(new URLSearchParams(value.query)),
+      ).success,
+    { message: "保存する検索条件が不正です", path: ["query"] },
+  );
+
+export type TaskViewUpsertSchema = z.infer<typeof taskViewUpsertSchema>;
+
+export const taskViewDefaultSchema = z.object({
+  viewId: z.string().trim().min(1).nullable(),
+});
+
+const checklistTitleSchema = z
+  .string()
+  .trim()
+  .min(1, "項目名を入力してください")
+  .max(200, "項目名は200文字以内で入力してください");
+
+export const taskChecklistItemCreateSchema = z.object({
+  title: checklistTitleSchema,
+  assigneeName: z.string().trim().max(100).optional(),
+  dueDate: z.union([optionalDateParam, z.literal("")]),
+});
+
+// 空文字は担当者・期限の解除
+export const taskChecklistItemUpdateSchema = z
+  .object({
+    title: checklistTitleSchema.optional(),
+    done: z.boolean().optional(),
+    assigneeName: z.string().trim().max(100).optional(),
+    dueDate: z.union([optionalDateParam, z.literal("")]),
+  })
+  .refine((value) => Object.values(value).some((entry) => entry !== undefined), {
+    message: "変更内容を指定してください",
+  });
+
+export const taskChecklistOrderSchema = z.object({
+  itemIds: z.array(z.string().trim().min(1)).max(TASK_CHECKLIST_MAX_ITEMS),
+});
+
+export const TASK_BULK_MAX_TASKS = 200;
+
+// シートから読んだタグと比べられるよう同じ正規化をかける。
+// タグは空白区切りでシートに保存するため、空白を含むタグは受け付けない
+const bulkTagsSchema = z
+  .array(
+    z
+      .string()
+      .max(50)
+      .transform(normalizeTaskTag)
+      .pipe(
+        z
+          .string()
+          .min(1, "タグを入力してください")
+          .regex(/^\S+$/, "タグに空白は使えません"),
+      ),
+  )
+  .min(1, "タグを1つ以上指定してください")
+  .max(20);
+
+export const taskBulkActionSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("status"),
+    status: taskStatusSchema,
+    reason: z.string().trim().max(1000).optional(),
+  }),
+  z.object({ type: z.literal("priority"), priority: taskPrioritySchema }),
+  z.object({
+    type: z.literal("assignee"),
+    assigneeName: z.string().trim().min(1, "担当者を入力してください").max(100),
+  }),
+  // 空文字は期限の解除
+  z.object({
+    type: z.literal("dueDate"),
+    dueDate: z.union([optionalDateParam.unwrap(), z.literal("")]),
+  }),
+  z.object({ type: z.literal("addTags"), tags: bulkTagsSchema }),
+  z.object({ type: z.literal("removeTags"), tags: bulkTagsSchema }),
+  z.object({
+    type: z.literal("moveSheet"),
+    sheetTitle: z.string().trim().min(1, "移動先のシートを選択してください"),
+  }),
+]);
+
+export type TaskBulkAction = z.infer<typeof taskBulkActionSchema>;
+
+export const taskBulkSchema = z.object({
+  taskIds: z
+    .array(z.string().trim().min(1))
+    .min(1, "タスクを1件以上選択してください")
+    .max(TASK_BULK_MAX_TASKS, `一括操作は${TASK_BULK_MAX_TASKS}件までです`)
+    .transform((ids) => Array.from(new Set(ids))),
+  action: taskBulkActionSchema,
+});